@@ -4,9 +4,15 @@
  */
 
 // Service Worker version - increment to force update
-const VERSION = '1.0.0';
+const VERSION = '1.2.0';
 const CACHE_NAME = 'water-supply-v' + VERSION;
 
+// Offline outbox shared with src/services/offlineOutbox.ts - keep both in sync
+const OUTBOX_DB_NAME = 'smart-supply-outbox';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_SYNC_TAG = 'sync-outbox';
+const OUTBOX_REPLAY_LOCK = 'smart-supply-outbox-replay';
+
 // Assets to cache for offline support
 const ASSETS_TO_CACHE = [
   '/',
@@ -185,6 +191,12 @@ self.addEventListener('sync', (event) => {
       syncNotifications()
     );
   }
+
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(
+      replayOutbox()
+    );
+  }
 });
 
 // Background fetch event (for iOS)
@@ -297,6 +309,142 @@ async function fetchNewNotifications() {
   }
 }
 
+// Outbox helpers - replay queued rider changes while the app is closed
+function openOutboxDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('entries')) {
+        db.createObjectStore('entries', { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains('meta')) {
+        db.createObjectStore('meta', { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function outboxRequest(db, storeName, mode, operation) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Mirrors ApiService.uploadDeliveryProof for entries holding Blobs
+function buildOutboxBody(entry) {
+  if (entry.encoding !== 'form-data') {
+    return JSON.stringify(entry.body);
+  }
+
+  const proof = entry.body;
+  const form = new FormData();
+  if (proof.photo) form.append('photo', proof.photo, 'photo.jpg');
+  if (proof.signature) form.append('signature', proof.signature, 'signature.png');
+  if (proof.location) {
+    form.append('latitude', String(proof.location.latitude));
+    form.append('longitude', String(proof.location.longitude));
+    form.append('accuracy', String(proof.location.accuracy));
+  }
+  form.append('capturedAt', proof.capturedAt);
+  return form;
+}
+
+async function replayOutbox() {
+  if (self.navigator.locks) {
+    return self.navigator.locks.request(OUTBOX_REPLAY_LOCK, drainOutbox);
+  }
+  return drainOutbox();
+}
+
+async function drainOutbox() {
+  const db = await openOutboxDb();
+  const meta = await outboxRequest(db, 'meta', 'readonly', (store) => store.get('session'));
+
+  // Signed out: leave everything for the app to send after the next login
+  if (!meta || !meta.token || !meta.userId) {
+    console.log('[SW] Outbox replay skipped, no session');
+    return;
+  }
+
+  const entries = await outboxRequest(db, 'entries', 'readonly', (store) => store.index('createdAt').getAll());
+  const blocked = new Set();
+  let synced = 0;
+  let retryLater = false;
+
+  for (const entry of entries) {
+    if (entry.userId !== meta.userId) continue;
+    if (entry.status === 'failed' || blocked.has(entry.orderId)) {
+      blocked.add(entry.orderId);
+      continue;
+    }
+
+    let response;
+    let body = null;
+    try {
+      const headers = {
+        'Authorization': 'Bearer ' + meta.token,
+        'Idempotency-Key': entry.id
+      };
+      if (entry.encoding !== 'form-data') {
+        headers['Content-Type'] = 'application/json';
+      }
+
+      response = await fetch(meta.apiBaseUrl + entry.endpoint, {
+        method: entry.method,
+        headers,
+        body: buildOutboxBody(entry)
+      });
+      body = await response.json().catch(() => null);
+    } catch (error) {
+      console.log('[SW] Outbox replay offline, will retry:', error);
+      retryLater = true;
+      break;
+    }
+
+    if (response.ok && !(body && body.success === false)) {
+      await outboxRequest(db, 'entries', 'readwrite', (store) => store.delete(entry.id));
+      synced++;
+      continue;
+    }
+
+    const lastError = (body && body.message) || 'Request failed with status ' + response.status;
+
+    // Expired token: stop and let the app refresh the session and replay
+    if (response.status === 401) {
+      await outboxRequest(db, 'entries', 'readwrite', (store) =>
+        store.put({ ...entry, attempts: entry.attempts + 1, lastError }));
+      break;
+    }
+
+    if (response.status === 408 || response.status === 429 || response.status >= 500) {
+      await outboxRequest(db, 'entries', 'readwrite', (store) =>
+        store.put({ ...entry, attempts: entry.attempts + 1, lastError }));
+      retryLater = true;
+      break;
+    }
+
+    await outboxRequest(db, 'entries', 'readwrite', (store) =>
+      store.put({ ...entry, status: 'failed', attempts: entry.attempts + 1, lastError }));
+    blocked.add(entry.orderId);
+  }
+
+  console.log('[SW] Outbox replay finished, synced:', synced);
+
+  const clientList = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clientList.forEach((client) => client.postMessage({ type: 'OUTBOX_SYNCED', synced }));
+
+  // Rejecting asks the browser to fire the sync event again later
+  if (retryLater) {
+    throw new Error('Outbox replay incomplete');
+  }
+}
+
 // Fetch event - serve from cache when offline
 self.addEventListener('fetch', (event) => {
   // Skip cross-origin requests
@@ -309,10 +457,8 @@ self.addEventListener('fetch', (event) => {
     event.respondWith(
       fetch(event.request)
         .catch(() => {
-          return new Response(
-            JSON.stringify({ success: false, message: 'Offline' }),
-            { headers: { 'Content-Type': 'application/json' } }
-          );
+          // Surface a real network error so the app can tell it is offline
+          return Response.error();
         })
     );
     return;
@@ -1,9 +1,11 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthGuard } from "./components/AuthGuard";
+import { SessionExpiryHandler } from "./components/SessionExpiryHandler";
+import { RouteErrorBoundary } from "./components/ErrorBoundary";
 import AdminLayout from "./components/layouts/AdminLayout";
 import RiderLayout from "./components/layouts/RiderLayout";
 import PWAUpdatePrompt from "./components/PWAUpdatePrompt";
@@ -15,6 +17,9 @@ import Riders from "./pages/admin/Riders";
 import RiderDetail from "./pages/admin/RiderDetail";
 import Orders from "./pages/admin/Orders";
 import OrderDetail from "./pages/admin/OrderDetail";
+import DeliveryCalendar from "./pages/admin/DeliveryCalendar";
+import Dispatch from "./pages/admin/Dispatch";
+import LiveMap from "./pages/admin/LiveMap";
 import Payments from "./pages/admin/Payments";
 import Reports from "./pages/admin/Reports";
 import Notifications from "./pages/admin/Notifications";
@@ -24,10 +29,10 @@ import RiderOrderDetail from "./pages/rider/OrderDetail";
 import RiderPayments from "./pages/rider/Payments";
 import RiderProfile from "./pages/rider/Profile";
 import RiderNotifications from "./pages/rider/Notifications";
+import RiderRoute from "./pages/rider/Route";
 import AdminProfile from "./pages/admin/Profile";
 import NotFound from "./pages/NotFound";
-
-const queryClient = new QueryClient();
+import { queryClient } from "./lib/queryClient";
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -36,44 +41,51 @@ const App = () => (
       <Sonner />
       <PWAUpdatePrompt />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          
-          {/* Admin Routes - Protected */}
-          <Route path="/admin" element={
-            <AuthGuard requiredRole="ADMIN">
-              <AdminLayout />
-            </AuthGuard>
-          }>
-            <Route index element={<AdminDashboard />} />
-            <Route path="customers" element={<Customers />} />
-            <Route path="customers/:id" element={<CustomerDetail />} />
-            <Route path="riders" element={<Riders />} />
-            <Route path="riders/:id" element={<RiderDetail />} />
-            <Route path="orders" element={<Orders />} />
-            <Route path="orders/:id" element={<OrderDetail />} />
-            <Route path="payments" element={<Payments />} />
-            <Route path="reports" element={<Reports />} />
-            <Route path="notifications" element={<Notifications />} />
-            <Route path="settings" element={<Settings />} />
-            <Route path="profile" element={<AdminProfile />} />
-          </Route>
+        <SessionExpiryHandler />
+        <RouteErrorBoundary>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            
+            {/* Admin Routes - Protected */}
+            <Route path="/admin" element={
+              <AuthGuard requiredRole="ADMIN">
+                <AdminLayout />
+              </AuthGuard>
+            }>
+              <Route index element={<AdminDashboard />} />
+              <Route path="customers" element={<Customers />} />
+              <Route path="customers/:id" element={<CustomerDetail />} />
+              <Route path="riders" element={<Riders />} />
+              <Route path="riders/:id" element={<RiderDetail />} />
+              <Route path="orders" element={<Orders />} />
+              <Route path="orders/:id" element={<OrderDetail />} />
+              <Route path="calendar" element={<DeliveryCalendar />} />
+              <Route path="dispatch" element={<Dispatch />} />
+              <Route path="live-map" element={<LiveMap />} />
+              <Route path="payments" element={<Payments />} />
+              <Route path="reports" element={<Reports />} />
+              <Route path="notifications" element={<Notifications />} />
+              <Route path="settings" element={<Settings />} />
+              <Route path="profile" element={<AdminProfile />} />
+            </Route>
 
-          {/* Rider Routes - Protected */}
-          <Route path="/rider" element={
-            <AuthGuard requiredRole="RIDER">
-              <RiderLayout />
-            </AuthGuard>
-          }>
-            <Route index element={<RiderDashboard />} />
-            <Route path="orders/:id" element={<RiderOrderDetail />} />
-            <Route path="payments" element={<RiderPayments />} />
-            <Route path="notifications" element={<RiderNotifications />} />
-            <Route path="profile" element={<RiderProfile />} />
-          </Route>
+            {/* Rider Routes - Protected */}
+            <Route path="/rider" element={
+              <AuthGuard requiredRole="RIDER">
+                <RiderLayout />
+              </AuthGuard>
+            }>
+              <Route index element={<RiderDashboard />} />
+              <Route path="orders/:id" element={<RiderOrderDetail />} />
+              <Route path="route" element={<RiderRoute />} />
+              <Route path="payments" element={<RiderPayments />} />
+              <Route path="notifications" element={<RiderNotifications />} />
+              <Route path="profile" element={<RiderProfile />} />
+            </Route>
 
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </RouteErrorBoundary>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
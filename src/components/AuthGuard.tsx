@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { apiService } from '@/services/api';
+import { sessionManager } from '@/services/sessionManager';
 
 interface AuthGuardProps {
   children: React.ReactNode;
@@ -15,30 +16,27 @@ export const AuthGuard = ({ children, requiredRole }: AuthGuardProps) => {
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        const token = apiService.getAuthToken();
         const user = apiService.getCurrentUser();
 
-        if (!token || !user) {
+        if (!user || !apiService.isAuthenticated()) {
           navigate('/');
           return;
         }
 
-        // Verify token with backend
-        const response = await apiService.verifyToken();
-        
-        if (response.success) {
-          // Check role if required
-          if (requiredRole && response.data.user.role !== requiredRole) {
-            navigate('/');
-            return;
-          }
-          
-          setIsAuthenticated(true);
-        } else {
-          // Token is invalid, clear storage and redirect
-          apiService.logout();
+        // Check role if required
+        if (requiredRole && user.role !== requiredRole) {
           navigate('/');
+          return;
         }
+
+        // The stored session is trusted until it expires; only renew it
+        // here if the access token has already lapsed
+        if (!(await sessionManager.getValidAccessToken())) {
+          sessionManager.end('expired');
+          return;
+        }
+
+        setIsAuthenticated(true);
       } catch (error) {
         console.error('Auth check failed:', error);
         apiService.logout();
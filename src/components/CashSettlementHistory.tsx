@@ -0,0 +1,87 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { useRiderSettlements } from "@/hooks/use-rider-cash";
+import { SETTLEMENT_OUTCOME_LABELS, settlementOutcome, settlementTotals } from "@/lib/payments";
+
+interface CashSettlementHistoryProps {
+  riderId: string;
+}
+
+const OUTCOME_VARIANTS = {
+  EXACT: "secondary",
+  SHORT: "destructive",
+  EXCESS: "outline",
+} as const;
+
+/**
+ * A rider's cash handovers with the shortages and excesses found at each.
+ * Shared by the admin's rider page and the rider's own payments page.
+ */
+export function CashSettlementHistory({ riderId }: CashSettlementHistoryProps) {
+  const { data: settlements = [], isLoading } = useRiderSettlements(riderId);
+  const totals = settlementTotals(settlements);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Settlement History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : settlements.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No cash settled yet</p>
+        ) : (
+          <>
+            <div className="flex gap-6 text-sm">
+              <div>
+                <span className="text-muted-foreground">Total short: </span>
+                <span className="font-medium text-destructive">₹{totals.shortage.toFixed(2)}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Total excess: </span>
+                <span className="font-medium">₹{totals.excess.toFixed(2)}</span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              {settlements.map((settlement) => {
+                const outcome = settlementOutcome(settlement.difference);
+                return (
+                  <div key={settlement.id} className="flex items-start justify-between gap-3 p-3 border rounded">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{format(new Date(settlement.settledAt), "EEE, MMM d, h:mm a")}</p>
+                        <Badge variant={OUTCOME_VARIANTS[outcome]}>{SETTLEMENT_OUTCOME_LABELS[outcome]}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {settlement.collectionCount} {settlement.collectionCount === 1 ? "collection" : "collections"}
+                        {settlement.settledBy && ` · counted by ${settlement.settledBy}`}
+                      </p>
+                      {settlement.notes && <p className="text-sm text-muted-foreground">{settlement.notes}</p>}
+                    </div>
+                    <div className="shrink-0 text-right">
+                      <p className="font-medium">₹{settlement.countedAmount.toFixed(2)}</p>
+                      <p className="text-xs text-muted-foreground">of ₹{settlement.expectedAmount.toFixed(2)}</p>
+                      {outcome !== "EXACT" && (
+                        <p className={outcome === "SHORT" ? "text-xs text-destructive" : "text-xs text-orange-600"}>
+                          {outcome === "SHORT" ? "−" : "+"}₹{Math.abs(settlement.difference).toFixed(2)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
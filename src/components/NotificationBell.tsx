@@ -80,6 +80,8 @@ export function NotificationBell() {
         return '✅';
       case 'order_cancelled':
         return '❌';
+      case 'delivery_failed':
+        return '⚠️';
       case 'payment_received':
         return '💰';
       default:
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { sessionManager, type SessionEndReason } from '@/services/sessionManager';
+
+/**
+ * Sends the user back to the login page when their session ends, whether
+ * it expired or they signed out in another tab. Must be rendered inside
+ * the router.
+ */
+export const SessionExpiryHandler = () => {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const handleEnded = (reason?: SessionEndReason) => {
+      if (reason !== 'expired') {
+        navigate('/', { replace: true });
+        return;
+      }
+
+      navigate('/', { replace: true, state: { sessionExpired: true } });
+
+      // Pages still see the failed request and may toast it; clear those
+      // so the login page notice is the only message left on screen
+      setTimeout(() => toast.dismiss(), 0);
+    };
+
+    sessionManager.on('ended', handleEnded);
+    return () => sessionManager.off('ended', handleEnded);
+  }, [navigate]);
+
+  return null;
+};
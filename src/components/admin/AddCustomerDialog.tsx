@@ -13,7 +13,12 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Plus } from "lucide-react";
 import { toast } from "sonner";
-import { apiService } from "@/services/api";
+import { useCreateCustomer } from "@/hooks/use-customers";
+import { useZones } from "@/hooks/use-zones";
+import { useFormErrors } from "@/hooks/use-form-errors";
+import { CustomerAddressFields } from "./CustomerAddressFields";
+import { emptyAddressForm, flatAddressFields, fromAddressForms, type AddressFormValue } from "@/lib/addresses";
+import { zoneIdForAddresses } from "@/lib/zones";
 
 interface AddCustomerDialogProps {
   trigger?: React.ReactNode;
@@ -25,15 +30,14 @@ export function AddCustomerDialog({ trigger }: AddCustomerDialogProps) {
     name: "",
     phone: "",
     whatsapp: "",
-    houseNo: "",
-    streetNo: "",
-    area: "",
-    city: "",
     bottleCount: 0,
     avgDaysToRefill: "",
     notes: "",
   });
-  const [fieldErrors, setFieldErrors] = useState({});
+  const [addresses, setAddresses] = useState<AddressFormValue[]>(() => [emptyAddressForm("HOME", true)]);
+  const { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError } = useFormErrors();
+  const createCustomer = useCreateCustomer();
+  const { data: zones = [] } = useZones({ enabled: open });
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { id, value } = e.target;
@@ -44,12 +48,7 @@ export function AddCustomerDialog({ trigger }: AddCustomerDialogProps) {
     });
 
     // Clear field errors when user starts typing
-    if (fieldErrors[id]) {
-      setFieldErrors(prev => ({
-        ...prev,
-        [id]: null
-      }));
-    }
+    clearFieldError(id);
 
     // If phone number changes and whatsapp is empty, clear whatsapp
     if (id === 'phone' && !formData.whatsapp) {
@@ -69,7 +68,7 @@ export function AddCustomerDialog({ trigger }: AddCustomerDialogProps) {
   const handleOpenChange = (newOpen: boolean) => {
     setOpen(newOpen);
     if (newOpen) {
-      setFieldErrors({});
+      resetFieldErrors();
     }
   };
 
@@ -94,67 +93,35 @@ export function AddCustomerDialog({ trigger }: AddCustomerDialogProps) {
     }
 
     try {
+      const customerAddresses = fromAddressForms(addresses);
       const customerData = {
         name: formData.name.trim(),
         phone: formData.phone.trim(),
         whatsapp: formData.whatsapp.trim() || null,
-        houseNo: formData.houseNo.trim() || null,
-        streetNo: formData.streetNo.trim() || null,
-        area: formData.area.trim() || null,
-        city: formData.city.trim() || null,
-        bottleCount: parseInt(formData.bottleCount) || 0,
+        ...flatAddressFields(customerAddresses),
+        addresses: customerAddresses,
+        zoneId: zoneIdForAddresses(zones, customerAddresses),
+        bottleCount: parseInt(formData.bottleCount.toString()) || 0,
         avgDaysToRefill: formData.avgDaysToRefill ? parseInt(formData.avgDaysToRefill) : null,
       };
 
-      const response = await apiService.createCustomer(customerData);
-      console.log('API Response:', response);
+      await createCustomer.mutateAsync(customerData);
+      toast.success(`Customer "${formData.name}" added successfully!`);
       
-      if (response.success) {
-        toast.success(`Customer "${formData.name}" added successfully!`);
-        
-        // Reset form
-        setFormData({
-          name: "",
-          phone: "",
-          whatsapp: "",
-          houseNo: "",
-          streetNo: "",
-          area: "",
-          city: "",
-          bottleCount: 0,
-          avgDaysToRefill: "",
-          notes: "",
-        });
-        setOpen(false);
-        
-        // Refresh the page to show new customer
-        window.location.reload();
-      } else {
-        // Handle specific error messages from backend
-        if (response.error === 'DUPLICATE_ENTRY') {
-          const field = response.details?.field || 'field';
-          const fieldName = field === 'phone' ? 'phone' : field === 'whatsapp' ? 'whatsapp' : field;
-          setFieldErrors({ [fieldName]: response.message });
-          toast.error(response.message);
-        } else if (response.error === 'DATABASE_ERROR') {
-          toast.error(response.message || 'Database validation error');
-        } else {
-          toast.error(response.message || "Failed to add customer. Please try again.");
-        }
-      }
+      // Reset form
+      setFormData({
+        name: "",
+        phone: "",
+        whatsapp: "",
+        bottleCount: 0,
+        avgDaysToRefill: "",
+        notes: "",
+      });
+      setAddresses([emptyAddressForm("HOME", true)]);
+      setOpen(false);
     } catch (error) {
-      console.error('Error creating customer:', error);
-      
-      // Handle network errors or other issues
-      if (error.message.includes('Failed to fetch')) {
-        toast.error("Unable to connect to server. Please check your connection and try again.");
-      } else if (error.message.includes('NetworkError')) {
-        toast.error("Network error. Please check your internet connection.");
-      } else {
-        // Try to extract error message from the error object
-        const errorMessage = error.message || error.toString() || "Failed to add customer. Please try again.";
-        toast.error(errorMessage);
-      }
+      // Duplicate phone/whatsapp and validation errors land on their fields
+      handleSubmitError(error, "Failed to add customer. Please try again.");
     }
   };
 
@@ -266,16 +233,6 @@ export function AddCustomerDialog({ trigger }: AddCustomerDialogProps) {
                 </div>
               )}
             </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="city">City</Label>
-              <Input
-                id="city"
-                placeholder="Enter city"
-                value={formData.city}
-                onChange={handleChange}
-              />
-            </div>
           </div>
 
           <div className="grid gap-4 md:grid-cols-2">
@@ -308,40 +265,9 @@ export function AddCustomerDialog({ trigger }: AddCustomerDialogProps) {
                 How often does this customer typically need a refill? (in days)
               </p>
             </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="houseNo">House/Flat Number</Label>
-              <Input
-                id="houseNo"
-                placeholder="House/Flat number"
-                value={formData.houseNo}
-                onChange={handleChange}
-              />
-            </div>
-          </div>
-
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="streetNo">Street Number</Label>
-              <Input
-                id="streetNo"
-                placeholder="Street number"
-                value={formData.streetNo}
-                onChange={handleChange}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="area">Area/Neighborhood</Label>
-              <Input
-                id="area"
-                placeholder="Area, sector, or neighborhood"
-                value={formData.area}
-                onChange={handleChange}
-              />
-            </div>
           </div>
 
+          <CustomerAddressFields value={addresses} onChange={setAddresses} zones={zones} />
 
           <div className="space-y-2">
             <Label htmlFor="notes">Notes</Label>
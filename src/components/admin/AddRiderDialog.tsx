@@ -19,7 +19,8 @@ import {
 } from "@/components/ui/select";
 import { Plus, Loader2 } from "lucide-react";
 import { toast } from "sonner";
-import { apiService } from "@/services/api";
+import { useCreateRider } from "@/hooks/use-riders";
+import { useFormErrors } from "@/hooks/use-form-errors";
 
 interface AddRiderDialogProps {
   trigger?: React.ReactNode;
@@ -29,6 +30,8 @@ interface AddRiderDialogProps {
 export function AddRiderDialog({ trigger, onSuccess }: AddRiderDialogProps) {
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
+  const createRider = useCreateRider();
+  const { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError } = useFormErrors();
   const [formData, setFormData] = useState({
     name: "",
     phone: "",
@@ -43,6 +46,14 @@ export function AddRiderDialog({ trigger, onSuccess }: AddRiderDialogProps) {
       ...formData,
       [e.target.id]: e.target.value,
     });
+    clearFieldError(e.target.id);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      resetFieldErrors();
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -98,38 +109,33 @@ export function AddRiderDialog({ trigger, onSuccess }: AddRiderDialogProps) {
         password: formData.password,
       };
 
-      const response = await apiService.createRider(riderData);
+      await createRider.mutateAsync(riderData);
+      toast.success(`Rider "${formData.name}" created successfully!`);
+      
+      // Reset form
+      setFormData({
+        name: "",
+        phone: "",
+        email: "",
+        password: "",
+        confirmPassword: "",
+        status: "active",
+      });
+      setOpen(false);
       
-      if (response.success) {
-        toast.success(`Rider "${formData.name}" created successfully!`);
-        
-        // Reset form
-        setFormData({
-          name: "",
-          phone: "",
-          email: "",
-          password: "",
-          confirmPassword: "",
-          status: "active",
-        });
-        setOpen(false);
-        
-        // Call onSuccess callback to refresh the riders list
-        if (onSuccess) {
-          onSuccess();
-        }
+      if (onSuccess) {
+        onSuccess();
       }
-    } catch (error: any) {
-      console.error('Error creating rider:', error);
-      const errorMessage = error.message || 'Failed to create rider';
-      toast.error(errorMessage);
+    } catch (error) {
+      // Duplicate phone/email and validation errors land on their fields
+      handleSubmitError(error, "Failed to create rider. Please try again.");
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {trigger || (
           <Button>
@@ -156,8 +162,12 @@ export function AddRiderDialog({ trigger, onSuccess }: AddRiderDialogProps) {
               placeholder="Enter full name"
               value={formData.name}
               onChange={handleChange}
+              className={fieldErrors.name ? "border-red-500 focus:border-red-500" : ""}
               required
             />
+            {fieldErrors.name && (
+              <p className="text-sm text-red-500">{fieldErrors.name}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -170,8 +180,12 @@ export function AddRiderDialog({ trigger, onSuccess }: AddRiderDialogProps) {
               placeholder="+91 98765 43210"
               value={formData.phone}
               onChange={handleChange}
+              className={fieldErrors.phone ? "border-red-500 focus:border-red-500" : ""}
               required
             />
+            {fieldErrors.phone && (
+              <p className="text-sm text-red-500">{fieldErrors.phone}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -184,8 +198,12 @@ export function AddRiderDialog({ trigger, onSuccess }: AddRiderDialogProps) {
               placeholder="rider@example.com"
               value={formData.email}
               onChange={handleChange}
+              className={fieldErrors.email ? "border-red-500 focus:border-red-500" : ""}
               required
             />
+            {fieldErrors.email && (
+              <p className="text-sm text-red-500">{fieldErrors.email}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Crosshair, Loader2, MapPin, Minus, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { MAP_DEFAULT_CENTER, MAP_SOURCE } from "@/config/map";
+import { getCurrentFix } from "@/lib/geolocation";
+import { centeredMapView, MIN_ZOOM, TILE_SIZE } from "@/lib/mapView";
+import type { LatLng } from "@/lib/routePlanner";
+
+interface AddressPinPickerProps {
+  value: LatLng | null;
+  onChange: (value: LatLng | null) => void;
+  height?: number;
+}
+
+// Street level, close enough to pick the right gate
+const PIN_ZOOM = 17;
+const AREA_ZOOM = 13;
+
+/**
+ * Small map to drop a pin on a customer's door. Clicking places the pin
+ * and centres the map on it.
+ */
+export function AddressPinPicker({ value, onChange, height = 220 }: AddressPinPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [center, setCenter] = useState<LatLng>(value ?? MAP_DEFAULT_CENTER ?? { latitude: 0, longitude: 0 });
+  const [zoom, setZoom] = useState(value ? PIN_ZOOM : MAP_DEFAULT_CENTER ? AREA_ZOOM : MIN_ZOOM);
+  const [locating, setLocating] = useState(false);
+  const maxZoom = MAP_SOURCE.kind === "tiles" ? MAP_SOURCE.maxZoom : MIN_ZOOM;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const view = centeredMapView(MAP_SOURCE, center, zoom, width, height);
+  const pin = value ? view.project(value) : null;
+
+  const placePin = (position: LatLng) => {
+    onChange(position);
+    setCenter(position);
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    placePin(view.unproject({ x: e.clientX - bounds.left, y: e.clientY - bounds.top }));
+  };
+
+  const handleUseLocation = async () => {
+    setLocating(true);
+    const fix = await getCurrentFix();
+    setLocating(false);
+    if (!fix) {
+      toast.error("Could not get your location");
+      return;
+    }
+    placePin({ latitude: fix.latitude, longitude: fix.longitude });
+    setZoom(Math.min(PIN_ZOOM, maxZoom));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        onClick={handleClick}
+        className="relative w-full cursor-crosshair overflow-hidden rounded-md border bg-muted"
+        style={{ height }}
+      >
+        {width > 0 && (
+          <>
+            {view.imageUrl && (
+              <img src={view.imageUrl} alt="" className="absolute inset-0 h-full w-full object-fill" draggable={false} />
+            )}
+            {view.tiles.map((tile) => (
+              <img
+                key={tile.key}
+                src={tile.url}
+                alt=""
+                draggable={false}
+                className="absolute max-w-none select-none"
+                style={{ left: tile.x, top: tile.y, width: TILE_SIZE, height: TILE_SIZE }}
+              />
+            ))}
+            {pin && (
+              <MapPin
+                className="absolute h-7 w-7 -translate-x-1/2 -translate-y-full fill-red-500 text-white drop-shadow"
+                style={{ left: pin.x, top: pin.y }}
+              />
+            )}
+          </>
+        )}
+        {MAP_SOURCE.kind === "tiles" && (
+          <div className="absolute right-2 top-2 flex flex-col gap-1" onClick={(e) => e.stopPropagation()}>
+            <Button
+              type="button"
+              size="icon"
+              variant="secondary"
+              className="h-7 w-7"
+              aria-label="Zoom in"
+              disabled={zoom >= maxZoom}
+              onClick={() => setZoom(Math.min(zoom + 1, maxZoom))}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="secondary"
+              className="h-7 w-7"
+              aria-label="Zoom out"
+              disabled={zoom <= MIN_ZOOM}
+              onClick={() => setZoom(Math.max(zoom - 1, MIN_ZOOM))}
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {MAP_SOURCE.attribution && (
+          <span className="absolute bottom-0 right-0 bg-background/80 px-1.5 text-[10px] text-muted-foreground">
+            {MAP_SOURCE.attribution}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="flex-1">
+          {value ? `${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}` : "Click the map to drop a pin"}
+        </span>
+        <Button type="button" variant="outline" size="sm" onClick={handleUseLocation} disabled={locating}>
+          {locating ? <Loader2 className="mr-2 h-3 w-3 animate-spin" /> : <Crosshair className="mr-2 h-3 w-3" />}
+          Use my location
+        </Button>
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+            <X className="mr-1 h-3 w-3" />
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
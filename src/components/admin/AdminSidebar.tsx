@@ -1,6 +1,6 @@
 import { 
   Home, Users, TruckIcon, Package, DollarSign, 
-  BarChart3, Bell, Settings 
+  BarChart3, Bell, Settings, CalendarDays, LayoutGrid, MapPin
 } from "lucide-react";
 import { NavLink } from "react-router-dom";
 import {
@@ -21,6 +21,9 @@ const menuItems = [
   { title: "Customers", url: "/admin/customers", icon: Users },
   { title: "Riders", url: "/admin/riders", icon: TruckIcon },
   { title: "Orders", url: "/admin/orders", icon: Package },
+  { title: "Dispatch", url: "/admin/dispatch", icon: LayoutGrid },
+  { title: "Live Map", url: "/admin/live-map", icon: MapPin },
+  { title: "Calendar", url: "/admin/calendar", icon: CalendarDays },
   { title: "Payments", url: "/admin/payments", icon: DollarSign },
   { title: "Reports", url: "/admin/reports", icon: BarChart3 },
   { title: "Notifications", url: "/admin/notifications", icon: Bell },
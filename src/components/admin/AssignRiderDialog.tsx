@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -20,37 +20,33 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { TruckIcon, Package } from "lucide-react";
 import { toast } from "sonner";
-import { apiService } from "@/services/api";
+import { useRiders } from "@/hooks/use-riders";
+import { useUpdateOrderStatus } from "@/hooks/use-orders";
+import { reportError } from "@/lib/errors";
+import { nextStatus } from "@/services/orderLifecycle";
+import type { OrderStatus } from "@/services/apiSchemas";
 
 interface AssignRiderDialogProps {
   trigger?: React.ReactNode;
   orderId?: string;
+  // Current status and rider; an order that already has a rider is reassigned
+  status?: OrderStatus;
+  currentRiderId?: string | null;
   onRiderAssigned?: () => void;
 }
 
-export function AssignRiderDialog({ trigger, orderId, onRiderAssigned }: AssignRiderDialogProps) {
+export function AssignRiderDialog({
+  trigger,
+  orderId,
+  status = "PENDING",
+  currentRiderId,
+  onRiderAssigned,
+}: AssignRiderDialogProps) {
   const [open, setOpen] = useState(false);
   const [selectedRider, setSelectedRider] = useState("");
-  const [riders, setRiders] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
-
-  useEffect(() => {
-    if (open) {
-      fetchRiders();
-    }
-  }, [open]);
-
-  const fetchRiders = async () => {
-    try {
-      const response = await apiService.getRiders();
-      if (response.success) {
-        setRiders(response.data);
-      }
-    } catch (error) {
-      console.error('Error fetching riders:', error);
-      toast.error('Failed to load riders');
-    }
-  };
+  const { data: riders = [] } = useRiders({ enabled: open });
+  const updateOrderStatus = useUpdateOrderStatus();
 
   const selectedRiderData = riders.find(r => r.id === selectedRider);
 
@@ -69,24 +65,23 @@ export function AssignRiderDialog({ trigger, orderId, onRiderAssigned }: AssignR
 
     try {
       setLoading(true);
-      const response = await apiService.updateOrderStatus(orderId, 'ASSIGNED', selectedRider);
+      await updateOrderStatus.mutateAsync({
+        id: orderId,
+        from: status,
+        action: nextStatus(status, "ASSIGN") ? "ASSIGN" : "REASSIGN",
+        riderId: selectedRider,
+      });
       
-      if (response.success) {
-        const riderName = riders.find(r => r.id === selectedRider)?.name;
-        toast.success(`Order assigned to ${riderName}`);
-        setSelectedRider("");
-        setOpen(false);
-        
-        // Call callback to refresh order details
-        if (onRiderAssigned) {
-          onRiderAssigned();
-        }
-      } else {
-        toast.error(response.message || 'Failed to assign rider');
+      const riderName = riders.find(r => r.id === selectedRider)?.name;
+      toast.success(`Order assigned to ${riderName}`);
+      setSelectedRider("");
+      setOpen(false);
+      
+      if (onRiderAssigned) {
+        onRiderAssigned();
       }
-    } catch (error: any) {
-      console.error('Error assigning rider:', error);
-      toast.error(error.message || 'Failed to assign rider');
+    } catch (error) {
+      reportError(error, 'Failed to assign rider');
     } finally {
       setLoading(false);
     }
@@ -125,11 +120,14 @@ export function AssignRiderDialog({ trigger, orderId, onRiderAssigned }: AssignR
                     <SelectItem 
                       key={rider.id} 
                       value={rider.id}
-                      disabled={!rider.isActive}
+                      disabled={!rider.isActive || rider.id === currentRiderId}
                     >
                       <div className="flex items-center gap-2 w-full">
                         <TruckIcon className="h-4 w-4" />
                         <span>{rider.name}</span>
+                        {rider.id === currentRiderId && (
+                          <span className="text-xs text-muted-foreground">(current)</span>
+                        )}
                         <Badge 
                           variant={rider.isActive ? "default" : "secondary"}
                           className="ml-auto"
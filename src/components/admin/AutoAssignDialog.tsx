@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { useUpdateOrderStatus } from "@/hooks/use-orders";
+import { reportError } from "@/lib/errors";
+import { jobFor, proposeBatch, type AssignmentProposal } from "@/lib/autoAssign";
+import { riderShiftState } from "@/lib/shifts";
+import type { DeliveryZone, Order, Rider } from "@/services/apiSchemas";
+
+interface AutoAssignDialogProps {
+  // Orders waiting for a rider
+  pending: Order[];
+  riders: Rider[];
+  // Every order, so riders' current loads are counted
+  orders: Order[];
+  // For each zone's default rider
+  zones: DeliveryZone[];
+}
+
+const UNASSIGNED = "none";
+
+// The same riders the proposals are drawn from: active, on shift and not on a break
+const canBeAssigned = (rider: Rider) => rider.isActive && riderShiftState(rider) === "ON";
+
+/**
+ * Proposes a balanced rider for each pending order and lets the admin
+ * change any of them before the assignments are made
+ */
+export function AutoAssignDialog({ pending, riders, orders, zones }: AutoAssignDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [proposals, setProposals] = useState<AssignmentProposal[]>([]);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [applying, setApplying] = useState(false);
+  const updateOrderStatus = useUpdateOrderStatus();
+
+  // The plan is made once when the dialog opens so edits are not overwritten by refetches
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    const plan = proposeBatch(pending, riders, orders, zones);
+    setProposals(plan);
+    setChoices(Object.fromEntries(plan.map(({ order, best }) => [order.id, best?.rider.id ?? UNASSIGNED])));
+  };
+
+  const assignments = proposals.filter(({ order }) => choices[order.id] !== UNASSIGNED);
+
+  const handleApply = async () => {
+    setApplying(true);
+    let assigned = 0;
+    for (const { order } of assignments) {
+      try {
+        await updateOrderStatus.mutateAsync({
+          id: order.id,
+          from: order.status,
+          action: "ASSIGN",
+          riderId: choices[order.id],
+        });
+        assigned++;
+      } catch (error) {
+        reportError(error, `Failed to assign order ${order.orderId || order.id.slice(-4)}`);
+      }
+    }
+    setApplying(false);
+
+    if (assigned === assignments.length) {
+      toast.success(`${assigned} ${assigned === 1 ? "order" : "orders"} assigned`);
+    } else if (assigned > 0) {
+      toast.error(`Assigned ${assigned} of ${assignments.length} orders; the rest failed`);
+    }
+    // The board shows what is left to assign
+    if (assigned > 0) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={pending.length === 0}>
+          <Sparkles className="mr-2 h-4 w-4" />
+          Auto-assign
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Auto-assign Orders</DialogTitle>
+          <DialogDescription>
+            Riders are matched by area and zone, open orders, bottles per trip and shift. Change any rider before applying.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-2 overflow-y-auto">
+          {proposals.map(({ order, best }) => {
+            const job = jobFor(order, zones);
+            const chosen = choices[order.id];
+            return (
+              <div key={order.id} className="flex flex-col gap-2 rounded-lg border p-3 md:flex-row md:items-center">
+                <div className="flex-1 space-y-0.5">
+                  <p className="font-medium">{order.customer?.name || order.orderId || `#${order.id.slice(-4)}`}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {job.area || "No area"} · {job.bottles} {job.bottles === 1 ? "bottle" : "bottles"}
+                    {order.priority !== "NORMAL" && ` · ${order.priority.toLowerCase()} priority`}
+                  </p>
+                  {best && chosen === best.rider.id && (
+                    <p className="text-xs text-muted-foreground">{best.reasons.join(", ")}</p>
+                  )}
+                  {!best && <p className="text-xs text-orange-600">No rider on shift can take this order</p>}
+                </div>
+                <Select
+                  value={chosen}
+                  onValueChange={(value) => setChoices({ ...choices, [order.id]: value })}
+                >
+                  <SelectTrigger className="w-full md:w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Leave unassigned</SelectItem>
+                    {riders
+                      .filter(canBeAssigned)
+                      .map((rider) => (
+                        <SelectItem key={rider.id} value={rider.id}>
+                          {rider.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-3 justify-end pt-4">
+          <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={applying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={applying || assignments.length === 0}>
+            {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Assign {assignments.length} {assignments.length === 1 ? "Order" : "Orders"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
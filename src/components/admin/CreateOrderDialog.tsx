@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -19,57 +19,112 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Search, Plus } from "lucide-react";
+import { Search, Plus, Trash2, Sparkles } from "lucide-react";
 import { toast } from "sonner";
-import { apiService } from "@/services/api";
+import { DELIVERY_SLOTS, type CreateOrderInput, type Customer, type DeliverySlot, type OrderPriority } from "@/services/apiSchemas";
+import { useCustomers } from "@/hooks/use-customers";
+import { useCreateOrder, useOrders, useUpdateOrderStatus } from "@/hooks/use-orders";
+import { useSlotCapacities } from "@/hooks/use-slot-capacities";
+import { useRiders } from "@/hooks/use-riders";
+import { useProducts } from "@/hooks/use-products";
+import { usePriceLists } from "@/hooks/use-price-lists";
+import { useZones } from "@/hooks/use-zones";
+import { customerPricing, priceLines, quoteOrder, resolveUnitPrice, type DraftLine } from "@/lib/pricing";
+import { reportError } from "@/lib/errors";
+import { bookedCount, capacityFor, slotLabel } from "@/lib/slots";
+import { todayKey } from "@/lib/subscriptions";
+import { loadsByRider, rankRiders, type RiderScore } from "@/lib/autoAssign";
+import { ADDRESS_LABEL_NAMES, defaultAddress, formatAddress } from "@/lib/addresses";
+import { customerZone, zoneForAddress } from "@/lib/zones";
 
 interface CreateOrderDialogProps {
   trigger?: React.ReactNode;
   onOrderCreated?: () => void;
+  // Create the same order for each of these customers instead of searching for one
+  presetCustomers?: Customer[];
 }
 
-export function CreateOrderDialog({ trigger, onOrderCreated }: CreateOrderDialogProps) {
+export function CreateOrderDialog({ trigger, onOrderCreated, presetCustomers }: CreateOrderDialogProps) {
   const [open, setOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCustomer, setSelectedCustomer] = useState<any>(null);
-  const [totalAmount, setTotalAmount] = useState("");
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [addressId, setAddressId] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([]);
   const [selectedRider, setSelectedRider] = useState("");
-  const [priority, setPriority] = useState("NORMAL");
+  const [suggestion, setSuggestion] = useState<RiderScore | null>(null);
+  const [priority, setPriority] = useState<OrderPriority>("NORMAL");
   const [notes, setNotes] = useState("");
+  const [scheduledDate, setScheduledDate] = useState(todayKey);
+  const [deliverySlot, setDeliverySlot] = useState("any");
   const [loading, setLoading] = useState(false);
-  const [customers, setCustomers] = useState<any[]>([]);
-  const [riders, setRiders] = useState<any[]>([]);
+  const bulk = !!presetCustomers?.length;
+  const targets = bulk ? presetCustomers : selectedCustomer ? [selectedCustomer] : [];
+  const multiple = targets.length > 1;
+  // Only saved addresses can be picked; bulk orders go to each customer's default
+  const addressChoices = selectedCustomer ? selectedCustomer.addresses.filter((address) => address.id) : [];
+  const chosenAddress = selectedCustomer
+    ? addressChoices.find((address) => address.id === addressId) ?? defaultAddress(selectedCustomer)
+    : null;
+  const areaOf = (customer: Customer) =>
+    (customer.id === selectedCustomer?.id ? chosenAddress?.area : defaultAddress(customer)?.area) ?? "";
+  const { data: zones = [] } = useZones({ enabled: open });
+  // A picked address other than the default is zoned by where it is
+  const zoneOf = (customer: Customer) =>
+    customer.id === selectedCustomer?.id && chosenAddress && !chosenAddress.isDefault
+      ? zoneForAddress(zones, chosenAddress)
+      : customerZone(customer, zones);
+  const { data: customers = [] } = useCustomers(undefined, { enabled: open && !bulk });
+  const { data: riders = [] } = useRiders({ enabled: open });
+  const { data: products = [] } = useProducts({ enabled: open });
+  const activeProducts = products.filter((product) => product.isActive);
+  const { data: priceLists = [] } = usePriceLists({ enabled: open });
+  // With several customers the lines show default prices; each order is
+  // still priced for its own customer
+  const pricing = customerPricing(multiple ? null : targets[0] ?? null, priceLists);
+  const pricedLines = priceLines(lines, products, pricing);
+  const zone = multiple || !targets[0] ? null : zoneOf(targets[0]);
+  const quote = quoteOrder(pricedLines, pricing.volumeDiscounts, zone?.deliveryCharge);
+  const quoteFor = (customer: Customer) => {
+    const own = customerPricing(customer, priceLists);
+    return quoteOrder(priceLines(lines, products, own), own.volumeDiscounts, zoneOf(customer)?.deliveryCharge);
+  };
+  const { data: orders = [] } = useOrders(undefined, { enabled: open });
+  const { data: slotCapacities = [] } = useSlotCapacities({ enabled: open });
+  const createOrder = useCreateOrder();
+  const updateOrderStatus = useUpdateOrderStatus();
 
-  // Fetch customers and riders when dialog opens
-  useEffect(() => {
-    if (open) {
-      fetchCustomers();
-      fetchRiders();
-    }
-  }, [open]);
+  // Places left in a slot on the chosen day in the tightest of the target
+  // customers' areas, and whether all of these orders fit; null when none
+  // of the areas has a limit
+  const slotAvailability = (slot: DeliverySlot): { left: number; fits: boolean } | null => {
+    const needed = new Map<string, number>();
+    targets.forEach((customer) => needed.set(areaOf(customer), (needed.get(areaOf(customer)) ?? 0) + 1));
 
-  const fetchCustomers = async () => {
-    try {
-      const response = await apiService.getCustomers();
-      if (response.success) {
-        setCustomers(response.data);
-      }
-    } catch (error) {
-      console.error('Error fetching customers:', error);
-      toast.error('Failed to load customers');
-    }
+    const limited = [...needed].flatMap(([area, count]) => {
+      const capacity = capacityFor(slotCapacities, area, slot);
+      if (capacity === null) return [];
+      return [{ count, left: capacity - bookedCount(orders, { date: scheduledDate, slot, area }) }];
+    });
+    if (limited.length === 0) return null;
+
+    return {
+      left: Math.max(Math.min(...limited.map((area) => area.left)), 0),
+      fits: limited.every((area) => area.left >= area.count),
+    };
   };
 
-  const fetchRiders = async () => {
-    try {
-      const response = await apiService.getRiders();
-      if (response.success) {
-        setRiders(response.data);
-      }
-    } catch (error) {
-      console.error('Error fetching riders:', error);
-      toast.error('Failed to load riders');
+  // Best rider for the customer's area and zone and the bottles on the
+  // order, given what each rider already has on their route
+  const suggestRider = () => {
+    const bottles = pricedLines.reduce((sum, line) => sum + (line.product.isReturnable ? line.quantity : 0), 0);
+    const job = { area: targets[0] && areaOf(targets[0]), bottles, defaultRiderId: zone?.defaultRiderId };
+    const [best] = rankRiders(job, riders, loadsByRider(orders));
+    if (!best) {
+      toast.error("No active rider is available");
+      return;
     }
+    setSelectedRider(best.rider.id);
+    setSuggestion(best);
   };
 
   const filteredCustomers = customers.filter(
@@ -78,41 +133,82 @@ export function CreateOrderDialog({ trigger, onOrderCreated }: CreateOrderDialog
       customer.phone.includes(searchQuery)
   );
 
+  const addLine = () => {
+    // Default to the first product not already on the order
+    const next = activeProducts.find((product) => !lines.some((line) => line.productId === product.id));
+    setLines([...lines, { productId: next?.id ?? "", quantity: 1 }]);
+  };
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index));
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen && lines.length === 0) {
+      setLines([{ productId: "", quantity: 1 }]);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!selectedCustomer) {
+    if (targets.length === 0) {
       toast.error("Please select a customer");
       return;
     }
     
-    if (!totalAmount || parseFloat(totalAmount) <= 0) {
-      toast.error("Please enter valid amount");
+    if (pricedLines.length === 0) {
+      toast.error("Please add at least one product");
+      return;
+    }
+
+    if (!scheduledDate || scheduledDate < todayKey()) {
+      toast.error("Please choose a delivery date from today onwards");
       return;
     }
 
+    if (deliverySlot !== "any" && slotAvailability(deliverySlot as DeliverySlot)?.fits === false) {
+      toast.error("That slot is full for this area. Please pick another slot or day.");
+      return;
+    }
+
+    let created = 0;
     try {
       setLoading(true);
 
-      // Create order
-      const orderData: any = {
-        customerId: selectedCustomer.id,
-        totalAmount: parseFloat(totalAmount),
-        priority: priority,
-        notes: notes || undefined
-      };
+      for (const customer of targets) {
+        const orderData: CreateOrderInput = {
+          customerId: customer.id,
+          items: pricedLines.map(({ productId, quantity }) => ({ productId, quantity })),
+          priority: priority,
+          notes: notes || undefined,
+          scheduledDate,
+          deliverySlot: deliverySlot === "any" ? undefined : (deliverySlot as DeliverySlot),
+          addressId: customer.id === selectedCustomer?.id ? chosenAddress?.id : undefined,
+        };
 
-      const orderResponse = await apiService.createOrder(orderData);
-      
-      if (!orderResponse.success) {
-        throw new Error(orderResponse.message || 'Failed to create order');
-      }
+        const orderResponse = await createOrder.mutateAsync(orderData);
+        created++;
 
-      const orderId = orderResponse.data.id;
+        // If rider is selected, assign the order
+        if (selectedRider) {
+          await updateOrderStatus.mutateAsync({
+            id: orderResponse.data.id,
+            from: orderResponse.data.status,
+            action: 'ASSIGN',
+            riderId: selectedRider,
+          });
+        }
+      }
 
-      // If rider is selected, assign the order
-      if (selectedRider) {
-        await apiService.updateOrderStatus(orderId, 'ASSIGNED', selectedRider);
+      if (bulk) {
+        toast.success(`${created} ${created === 1 ? "order" : "orders"} created${selectedRider ? " and assigned" : ""}!`);
+      } else if (selectedRider) {
         toast.success(`Order created and assigned successfully!`);
       } else {
         toast.success(`Order created successfully!`);
@@ -120,27 +216,31 @@ export function CreateOrderDialog({ trigger, onOrderCreated }: CreateOrderDialog
 
       // Reset form
       setSelectedCustomer(null);
+      setAddressId("");
       setSearchQuery("");
-      setTotalAmount("");
+      setLines([]);
       setSelectedRider("");
       setPriority("NORMAL");
       setNotes("");
+      setScheduledDate(todayKey());
+      setDeliverySlot("any");
       setOpen(false);
 
-      // Refresh orders list if callback provided
       if (onOrderCreated) {
         onOrderCreated();
       }
-    } catch (error: any) {
-      console.error('Error creating order:', error);
-      toast.error(error.message || 'Failed to create order');
+    } catch (error) {
+      reportError(
+        error,
+        created > 0 ? `Created ${created} of ${targets.length} orders; the rest failed` : 'Failed to create order'
+      );
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {trigger || (
           <Button>
@@ -151,116 +251,221 @@ export function CreateOrderDialog({ trigger, onOrderCreated }: CreateOrderDialog
       </DialogTrigger>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Create New Order</DialogTitle>
+          <DialogTitle>{bulk ? `Create ${targets.length} Orders` : "Create New Order"}</DialogTitle>
           <DialogDescription>
-            Search for customer and fill in order details
+            {bulk ? "One order with these items is created for each customer" : "Search for customer and fill in order details"}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          {/* Customer Search */}
-          <div className="space-y-2">
-            <Label>Search Customer (by name or phone)</Label>
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-              <Input
-                placeholder="Search customer..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-              />
+          {bulk ? (
+            <div className="rounded-lg border bg-muted/50 p-4 space-y-2">
+              <p className="text-sm font-medium">Customers</p>
+              <div className="flex flex-wrap gap-2">
+                {targets.map((customer) => (
+                  <Badge key={customer.id} variant="secondary">{customer.name}</Badge>
+                ))}
+              </div>
             </div>
-            
-            {searchQuery && !selectedCustomer && (
-              <div className="mt-2 max-h-48 overflow-y-auto border rounded-md">
-                {filteredCustomers.length > 0 ? (
-                  filteredCustomers.map((customer) => (
-                    <div
-                      key={customer.id}
-                      onClick={() => {
-                        setSelectedCustomer(customer);
-                        setSearchQuery("");
-                      }}
-                      className="p-3 hover:bg-muted cursor-pointer border-b last:border-b-0"
-                    >
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <p className="font-medium">{customer.name}</p>
-                          <p className="text-sm text-muted-foreground">{customer.phone}</p>
-                          {customer.address && (
-                            <p className="text-xs text-muted-foreground mt-1">{customer.address}</p>
-                          )}
+          ) : (
+            <>
+              {/* Customer Search */}
+              <div className="space-y-2">
+                <Label>Search Customer (by name or phone)</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    placeholder="Search customer..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+              
+                {searchQuery && !selectedCustomer && (
+                  <div className="mt-2 max-h-48 overflow-y-auto border rounded-md">
+                    {filteredCustomers.length > 0 ? (
+                      filteredCustomers.map((customer) => (
+                        <div
+                          key={customer.id}
+                          onClick={() => {
+                            setSelectedCustomer(customer);
+                            setAddressId(defaultAddress(customer)?.id ?? "");
+                            setSearchQuery("");
+                          }}
+                          className="p-3 hover:bg-muted cursor-pointer border-b last:border-b-0"
+                        >
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-medium">{customer.name}</p>
+                              <p className="text-sm text-muted-foreground">{customer.phone}</p>
+                              {customer.address && (
+                                <p className="text-xs text-muted-foreground mt-1">{customer.address}</p>
+                              )}
+                            </div>
+                            <Badge variant={customer.currentBalance < 0 ? "destructive" : "default"}>
+                              {customer.currentBalance < 0 ? `₹${Math.abs(customer.currentBalance).toFixed(2)} due` : customer.currentBalance > 0 ? `₹${customer.currentBalance.toFixed(2)} credit` : "Clear"}
+                            </Badge>
+                          </div>
                         </div>
-                        <Badge variant={customer.currentBalance < 0 ? "destructive" : "default"}>
-                          {customer.currentBalance < 0 ? `₹${Math.abs(customer.currentBalance).toFixed(2)} due` : customer.currentBalance > 0 ? `₹${customer.currentBalance.toFixed(2)} credit` : "Clear"}
-                        </Badge>
-                      </div>
-                    </div>
-                  ))
-                ) : (
-                  <p className="p-3 text-sm text-muted-foreground">No customers found</p>
+                      ))
+                    ) : (
+                      <p className="p-3 text-sm text-muted-foreground">No customers found</p>
+                    )}
+                  </div>
                 )}
               </div>
-            )}
-          </div>
 
-          {/* Selected Customer Info */}
-          {selectedCustomer && (
-            <div className="rounded-lg border bg-muted/50 p-4">
-              <div className="flex items-start justify-between">
-                <div className="space-y-1 flex-1">
-                  <p className="font-medium">{selectedCustomer.name}</p>
-                  <p className="text-sm text-muted-foreground">{selectedCustomer.phone}</p>
-                  {selectedCustomer.address && (
-                    <p className="text-sm text-muted-foreground">{selectedCustomer.address}</p>
-                  )}
-                  {selectedCustomer.lastOrder && (
-                    <p className="text-xs text-muted-foreground">
-                      Last order: ₹{selectedCustomer.lastOrder.amount} - {selectedCustomer.lastOrder.date}
-                    </p>
-                  )}
-                </div>
-                <div className="text-right">
-                  <Badge variant={selectedCustomer.currentBalance < 0 ? "destructive" : "default"}>
-                    {selectedCustomer.currentBalance < 0 ? "Payable" : selectedCustomer.currentBalance > 0 ? "Receivable" : "Clear"}
-                  </Badge>
-                  {selectedCustomer.currentBalance !== 0 && (
-                    <p className="text-sm font-medium mt-1">₹{Math.abs(selectedCustomer.currentBalance).toFixed(2)}</p>
-                  )}
+              {/* Selected Customer Info */}
+              {selectedCustomer && (
+                <div className="rounded-lg border bg-muted/50 p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1 flex-1">
+                      <p className="font-medium">{selectedCustomer.name}</p>
+                      <p className="text-sm text-muted-foreground">{selectedCustomer.phone}</p>
+                      {addressChoices.length > 1 ? (
+                        <Select value={chosenAddress?.id} onValueChange={setAddressId}>
+                          <SelectTrigger className="h-auto py-1.5 text-left text-sm" aria-label="Delivery address">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {addressChoices.map((address) => (
+                              <SelectItem key={address.id} value={address.id}>
+                                {ADDRESS_LABEL_NAMES[address.label]}: {formatAddress(address) || address.landmark || "Pinned location"}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        (formatAddress(chosenAddress) || selectedCustomer.address) && (
+                          <p className="text-sm text-muted-foreground">
+                            {formatAddress(chosenAddress) || selectedCustomer.address}
+                          </p>
+                        )
+                      )}
+                      {selectedCustomer.lastOrder && (
+                        <p className="text-xs text-muted-foreground">
+                          Last order: ₹{selectedCustomer.lastOrder.amount} - {selectedCustomer.lastOrder.date}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <Badge variant={selectedCustomer.currentBalance < 0 ? "destructive" : "default"}>
+                        {selectedCustomer.currentBalance < 0 ? "Payable" : selectedCustomer.currentBalance > 0 ? "Receivable" : "Clear"}
+                      </Badge>
+                      {selectedCustomer.currentBalance !== 0 && (
+                        <p className="text-sm font-medium mt-1">₹{Math.abs(selectedCustomer.currentBalance).toFixed(2)}</p>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => setSelectedCustomer(null)}
+                  >
+                    Change Customer
+                  </Button>
                 </div>
-              </div>
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                className="mt-2"
-                onClick={() => setSelectedCustomer(null)}
-              >
-                Change Customer
-              </Button>
-            </div>
+              )}
+            </>
           )}
 
           {/* Order Details */}
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="totalAmount">Total Amount (₹) *</Label>
-              <Input
-                id="totalAmount"
-                type="number"
-                min="1"
-                step="0.01"
-                placeholder="Enter total amount"
-                value={totalAmount}
-                onChange={(e) => setTotalAmount(e.target.value)}
-                required
-              />
+              <Label>Items *</Label>
+              {lines.map((line, index) => {
+                const priced = priceLines([line], products, pricing)[0];
+                return (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={line.productId} onValueChange={(productId) => updateLine(index, { productId })}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activeProducts.length > 0 ? (
+                          activeProducts.map((p) => (
+                            <SelectItem key={p.id} value={p.id}>
+                              {p.name} - ₹{resolveUnitPrice(p, pricing).unitPrice.toFixed(2)}
+                            </SelectItem>
+                          ))
+                        ) : (
+                          <SelectItem value="none" disabled>No products in catalog</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      aria-label="Quantity"
+                      className="w-20"
+                      value={line.quantity || ""}
+                      onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 0 })}
+                    />
+                    <span className="w-24 text-right text-sm font-medium">
+                      {priced ? `₹${priced.lineTotal.toFixed(2)}` : "-"}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeLine(index)}
+                      disabled={lines.length === 1}
+                      aria-label="Remove item"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button type="button" variant="outline" size="sm" onClick={addLine}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Item
+              </Button>
+            </div>
+
+            {/* Delivery Schedule */}
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="scheduledDate">Delivery Date *</Label>
+                <Input
+                  id="scheduledDate"
+                  type="date"
+                  min={todayKey()}
+                  value={scheduledDate}
+                  onChange={(e) => setScheduledDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deliverySlot">Time Slot</Label>
+                <Select value={deliverySlot} onValueChange={setDeliverySlot}>
+                  <SelectTrigger id="deliverySlot">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any time</SelectItem>
+                    {DELIVERY_SLOTS.map((slot) => {
+                      const availability = slotAvailability(slot);
+                      return (
+                        <SelectItem key={slot} value={slot} disabled={availability?.fits === false}>
+                          {slotLabel(slot)}
+                          {availability && ` - ${availability.left === 0 ? "full" : `${availability.left} left`}`}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             {/* Priority Selection */}
             <div className="space-y-2">
               <Label htmlFor="priority">Priority *</Label>
-              <Select value={priority} onValueChange={setPriority}>
+              <Select value={priority} onValueChange={(value) => setPriority(value as OrderPriority)}>
                 <SelectTrigger id="priority">
                   <SelectValue placeholder="Select priority" />
                 </SelectTrigger>
@@ -275,44 +480,115 @@ export function CreateOrderDialog({ trigger, onOrderCreated }: CreateOrderDialog
           </div>
 
           {/* Total Amount Display */}
-          {totalAmount && (
-            <div className="rounded-lg border bg-primary/5 p-4">
-              <div className="flex items-center justify-between">
-                <span className="font-medium">Total Amount</span>
-                <span className="text-2xl font-bold">
-                  ₹{parseFloat(totalAmount).toFixed(2)}
-                </span>
-              </div>
+          {pricedLines.length > 0 && (
+            <div className="rounded-lg border bg-primary/5 p-4 space-y-1">
+              {!multiple && pricing.priceList && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Price list</span>
+                  <Badge variant="secondary">{pricing.priceList.name}</Badge>
+                </div>
+              )}
+              {pricedLines.map((line, index) => (
+                <div key={index} className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>
+                    {line.quantity} × {line.product.name}
+                    {line.priceSource === "override" && " (customer price)"}
+                  </span>
+                  <span>₹{line.lineTotal.toFixed(2)}</span>
+                </div>
+              ))}
+              {multiple ? (
+                <div className="border-t pt-2 space-y-1">
+                  {targets.map((customer) => (
+                    <div key={customer.id} className="flex items-center justify-between text-sm">
+                      <span>{customer.name}</span>
+                      <span className="font-medium">₹{quoteFor(customer).total.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between border-t pt-2">
+                    <span className="font-medium">Total for {targets.length} orders</span>
+                    <span className="text-2xl font-bold">
+                      ₹{targets.reduce((sum, customer) => sum + quoteFor(customer).total, 0).toFixed(2)}
+                    </span>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  {(quote.discount || quote.deliveryCharge > 0) && (
+                    <div className="flex items-center justify-between border-t pt-2 text-sm">
+                      <span className="text-muted-foreground">Subtotal</span>
+                      <span>₹{quote.subtotal.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {quote.discount && (
+                    <div className="flex items-center justify-between text-sm text-green-600">
+                      <span>Volume discount ({quote.discount.percentOff}% off {quote.discount.minQuantity}+ units)</span>
+                      <span>-₹{quote.discountAmount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {quote.deliveryCharge > 0 && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Delivery charge ({zone.name})</span>
+                      <span>₹{quote.deliveryCharge.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between border-t pt-2">
+                    <span className="font-medium">Total Amount</span>
+                    <span className="text-2xl font-bold">
+                      ₹{quote.total.toFixed(2)}
+                    </span>
+                  </div>
+                </>
+              )}
             </div>
           )}
 
           {/* Rider Assignment */}
           <div className="space-y-2">
             <Label htmlFor="rider">Assign Rider (Optional)</Label>
-            <Select value={selectedRider} onValueChange={setSelectedRider}>
-              <SelectTrigger id="rider">
-                <SelectValue placeholder="Select a rider (leave empty to assign later)" />
-              </SelectTrigger>
-              <SelectContent>
-                {riders.length > 0 ? (
-                  riders.map((rider) => (
-                    <SelectItem key={rider.id} value={rider.id}>
-                      <div className="flex items-center gap-2">
-                        <span>{rider.name}</span>
-                        <Badge variant={rider.isActive ? "default" : "secondary"} className="ml-auto">
-                          {rider.isActive ? "Active" : "Inactive"}
-                        </Badge>
-                      </div>
-                    </SelectItem>
-                  ))
-                ) : (
-                  <SelectItem value="none" disabled>No riders available</SelectItem>
-                )}
-              </SelectContent>
-            </Select>
-            <p className="text-xs text-muted-foreground">
-              You can assign a rider now or leave it pending to assign later
-            </p>
+            <div className="flex gap-2">
+              <Select value={selectedRider} onValueChange={setSelectedRider}>
+                <SelectTrigger id="rider">
+                  <SelectValue placeholder="Select a rider (leave empty to assign later)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {riders.length > 0 ? (
+                    riders.map((rider) => (
+                      <SelectItem key={rider.id} value={rider.id}>
+                        <div className="flex items-center gap-2">
+                          <span>{rider.name}</span>
+                          <Badge variant={rider.isActive ? "default" : "secondary"} className="ml-auto">
+                            {rider.isActive ? "Active" : "Inactive"}
+                          </Badge>
+                        </div>
+                      </SelectItem>
+                    ))
+                  ) : (
+                    <SelectItem value="none" disabled>No riders available</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              {!multiple && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={suggestRider}
+                  disabled={targets.length === 0 || riders.length === 0}
+                >
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Suggest
+                </Button>
+              )}
+            </div>
+            {suggestion && suggestion.rider.id === selectedRider ? (
+              <p className="text-xs text-muted-foreground">
+                Suggested: {suggestion.reasons.join(", ")}
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                You can assign a rider now or leave it pending to assign later
+              </p>
+            )}
           </div>
 
           {/* Notes */}
@@ -333,7 +609,7 @@ export function CreateOrderDialog({ trigger, onOrderCreated }: CreateOrderDialog
               Cancel
             </Button>
             <Button type="submit" disabled={loading}>
-              {loading ? "Creating..." : selectedRider ? "Create & Assign Order" : "Create Order"}
+              {loading ? "Creating..." : bulk ? `Create ${targets.length} Orders` : selectedRider ? "Create & Assign Order" : "Create Order"}
             </Button>
           </div>
         </form>
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MapPin, Plus, Trash2 } from "lucide-react";
+import { AddressPinPicker } from "./AddressPinPicker";
+import { ADDRESS_LABEL_NAMES, emptyAddressForm, type AddressFormValue } from "@/lib/addresses";
+import { zoneForAddress } from "@/lib/zones";
+import { ADDRESS_LABELS, type AddressLabel, type DeliveryZone } from "@/services/apiSchemas";
+
+type TextField = "houseNo" | "streetNo" | "area" | "city";
+
+const TEXT_FIELDS: { field: TextField; label: string; placeholder: string }[] = [
+  { field: "houseNo", label: "House/Flat Number", placeholder: "House/Flat number" },
+  { field: "streetNo", label: "Street Number", placeholder: "Street number" },
+  { field: "area", label: "Area/Neighborhood", placeholder: "Area, sector, or neighborhood" },
+  { field: "city", label: "City", placeholder: "Enter city" },
+];
+
+interface CustomerAddressFieldsProps {
+  value: AddressFormValue[];
+  onChange: (value: AddressFormValue[]) => void;
+  // Shows which zone each address falls in as it is edited
+  zones?: DeliveryZone[];
+}
+
+/**
+ * A customer's delivery addresses (home, office, ...) with a map pin,
+ * landmark and instructions for each. Exactly one is the default.
+ */
+export function CustomerAddressFields({ value, onChange, zones = [] }: CustomerAddressFieldsProps) {
+  // Maps load tiles, so each one is only shown when asked for
+  const [openPickers, setOpenPickers] = useState<Set<number>>(new Set());
+
+  const update = (index: number, changes: Partial<AddressFormValue>) => {
+    onChange(value.map((address, i) => (i === index ? { ...address, ...changes } : address)));
+  };
+
+  const makeDefault = (index: number) => {
+    onChange(value.map((address, i) => ({ ...address, isDefault: i === index })));
+  };
+
+  const remove = (index: number) => {
+    const rest = value.filter((_, i) => i !== index);
+    // Removing the default hands it to the first address left
+    onChange(value[index].isDefault ? rest.map((address, i) => ({ ...address, isDefault: i === 0 })) : rest);
+    setOpenPickers(new Set());
+  };
+
+  const add = () => {
+    const unused = ADDRESS_LABELS.find((label) => !value.some((address) => address.label === label)) ?? "OTHER";
+    onChange([...value, emptyAddressForm(unused, value.length === 0)]);
+  };
+
+  const zoneOf = (address: AddressFormValue) =>
+    zoneForAddress(zones, {
+      label: address.label,
+      area: address.area,
+      latitude: address.location?.latitude,
+      longitude: address.location?.longitude,
+      isDefault: address.isDefault,
+    });
+
+  const togglePicker = (index: number) => {
+    const next = new Set(openPickers);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setOpenPickers(next);
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div>
+        <Label>Addresses</Label>
+        <p className="text-xs text-muted-foreground">Orders go to the default address unless another is chosen</p>
+      </div>
+
+      {value.map((address, index) => (
+        <div key={address.id ?? index} className="space-y-3 rounded-lg border p-3">
+          <div className="flex items-center gap-2">
+            <Select value={address.label} onValueChange={(label) => update(index, { label: label as AddressLabel })}>
+              <SelectTrigger className="w-[130px]" aria-label="Address label">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADDRESS_LABELS.map((label) => (
+                  <SelectItem key={label} value={label}>
+                    {ADDRESS_LABEL_NAMES[label]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {address.isDefault ? (
+              <Badge variant="secondary">Default</Badge>
+            ) : (
+              <Button type="button" variant="ghost" size="sm" onClick={() => makeDefault(index)}>
+                Make default
+              </Button>
+            )}
+            {zones.length > 0 && (
+              <Badge variant="outline">{zoneOf(address)?.name ?? "No zone"}</Badge>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="ml-auto"
+              aria-label="Remove address"
+              onClick={() => remove(index)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`${field}-${index}`} className="text-xs">
+                  {label}
+                </Label>
+                <Input
+                  id={`${field}-${index}`}
+                  placeholder={placeholder}
+                  value={address[field]}
+                  onChange={(e) => update(index, { [field]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor={`landmark-${index}`} className="text-xs">
+              Landmark
+            </Label>
+            <Input
+              id={`landmark-${index}`}
+              placeholder="e.g. Opposite the green mosque"
+              value={address.landmark}
+              onChange={(e) => update(index, { landmark: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor={`instructions-${index}`} className="text-xs">
+              Delivery Instructions
+            </Label>
+            <Textarea
+              id={`instructions-${index}`}
+              placeholder="e.g. Ring twice, leave bottles by the side gate"
+              value={address.instructions}
+              onChange={(e) => update(index, { instructions: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => togglePicker(index)}>
+              <MapPin className="mr-2 h-4 w-4" />
+              {openPickers.has(index) ? "Hide Map" : address.location ? "Move Pin" : "Drop a Pin"}
+            </Button>
+            {!openPickers.has(index) && address.location && (
+              <span className="ml-2 text-xs text-muted-foreground">
+                {address.location.latitude.toFixed(5)}, {address.location.longitude.toFixed(5)}
+              </span>
+            )}
+            {openPickers.has(index) && (
+              <AddressPinPicker value={address.location} onChange={(location) => update(index, { location })} />
+            )}
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={add}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Address
+      </Button>
+    </div>
+  );
+}
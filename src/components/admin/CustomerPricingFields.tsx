@@ -0,0 +1,177 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useProducts } from "@/hooks/use-products";
+import { usePriceLists } from "@/hooks/use-price-lists";
+
+// Kept as strings while editing so inputs can be cleared; a null
+// price list means the default one
+export interface PricingFormValue {
+  priceListId: string | null;
+  priceOverrides: { productId: string; unitPrice: string }[];
+  volumeDiscounts: { minQuantity: string; percentOff: string }[];
+}
+
+const DEFAULT_PRICE_LIST = "default";
+
+interface CustomerPricingFieldsProps {
+  value: PricingFormValue;
+  onChange: (value: PricingFormValue) => void;
+}
+
+/**
+ * Price list, per-product overrides and volume discount tiers for a customer
+ */
+export function CustomerPricingFields({ value, onChange }: CustomerPricingFieldsProps) {
+  const { data: priceLists = [] } = usePriceLists();
+  const { data: products = [] } = useProducts();
+  const defaultList = priceLists.find((list) => list.isDefault);
+
+  const updateOverride = (index: number, changes: Partial<PricingFormValue["priceOverrides"][number]>) => {
+    onChange({
+      ...value,
+      priceOverrides: value.priceOverrides.map((price, i) => (i === index ? { ...price, ...changes } : price)),
+    });
+  };
+
+  const updateDiscount = (index: number, changes: Partial<PricingFormValue["volumeDiscounts"][number]>) => {
+    onChange({
+      ...value,
+      volumeDiscounts: value.volumeDiscounts.map((discount, i) => (i === index ? { ...discount, ...changes } : discount)),
+    });
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div className="space-y-2">
+        <Label htmlFor="priceListId">Price List</Label>
+        <Select
+          value={value.priceListId ?? DEFAULT_PRICE_LIST}
+          onValueChange={(priceListId) =>
+            onChange({ ...value, priceListId: priceListId === DEFAULT_PRICE_LIST ? null : priceListId })
+          }
+        >
+          <SelectTrigger id="priceListId">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_PRICE_LIST}>
+              Default{defaultList ? ` (${defaultList.name})` : ""}
+            </SelectItem>
+            {priceLists.map((list) => (
+              <SelectItem key={list.id} value={list.id}>
+                {list.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Customer Prices</Label>
+        <p className="text-xs text-muted-foreground">
+          Override the price list for specific products
+        </p>
+        {value.priceOverrides.map((price, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Select value={price.productId} onValueChange={(productId) => updateOverride(index, { productId })}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Select product" />
+              </SelectTrigger>
+              <SelectContent>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="₹"
+              aria-label="Unit price"
+              className="w-28"
+              value={price.unitPrice}
+              onChange={(e) => updateOverride(index, { unitPrice: e.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove price"
+              onClick={() => onChange({ ...value, priceOverrides: value.priceOverrides.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, priceOverrides: [...value.priceOverrides, { productId: "", unitPrice: "" }] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Price
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Volume Discounts</Label>
+        <p className="text-xs text-muted-foreground">
+          Percentage off an order once it reaches a number of units; the largest applicable discount is used
+        </p>
+        {value.volumeDiscounts.map((discount, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="1"
+              placeholder="Min units"
+              aria-label="Minimum units"
+              value={discount.minQuantity}
+              onChange={(e) => updateDiscount(index, { minQuantity: e.target.value })}
+            />
+            <Input
+              type="number"
+              step="0.1"
+              min="0"
+              max="100"
+              placeholder="% off"
+              aria-label="Percent off"
+              value={discount.percentOff}
+              onChange={(e) => updateDiscount(index, { percentOff: e.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove discount"
+              onClick={() => onChange({ ...value, volumeDiscounts: value.volumeDiscounts.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, volumeDiscounts: [...value.volumeDiscounts, { minQuantity: "", percentOff: "" }] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Discount Tier
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,13 +2,14 @@ import { useState } from 'react';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { apiService } from '@/services/api';
+import { useUpdateCustomerStatus } from '@/hooks/use-customers';
+import { reportError } from '@/lib/errors';
 import { toast } from 'sonner';
 
 interface CustomerStatusToggleProps {
   customerId: string;
   isActive: boolean;
-  onStatusChange: (isActive: boolean) => void;
+  onStatusChange?: (isActive: boolean) => void;
 }
 
 export const CustomerStatusToggle = ({ 
@@ -17,21 +18,16 @@ export const CustomerStatusToggle = ({
   onStatusChange 
 }: CustomerStatusToggleProps) => {
   const [updating, setUpdating] = useState(false);
+  const updateStatus = useUpdateCustomerStatus();
 
   const handleToggle = async (checked: boolean) => {
     try {
       setUpdating(true);
-      const response = await apiService.updateCustomerStatus(customerId, checked);
-      
-      if (response.success) {
-        onStatusChange(checked);
-        toast.success(`Customer ${checked ? 'activated' : 'deactivated'} successfully`);
-      } else {
-        toast.error(response.message || 'Failed to update customer status');
-      }
+      await updateStatus.mutateAsync({ id: customerId, isActive: checked });
+      onStatusChange?.(checked);
+      toast.success(`Customer ${checked ? 'activated' : 'deactivated'} successfully`);
     } catch (error) {
-      console.error('Error updating customer status:', error);
-      toast.error('Failed to update customer status');
+      reportError(error, 'Failed to update customer status');
     } finally {
       setUpdating(false);
     }
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Pause, Pencil, Play, Plus, Repeat } from "lucide-react";
+import { toast } from "sonner";
+import { useCustomerSubscriptions, useUpdateSubscription } from "@/hooks/use-subscriptions";
+import { describeSchedule, isPausedOn, todayKey } from "@/lib/subscriptions";
+import { reportError } from "@/lib/errors";
+import { SubscriptionDialog } from "./SubscriptionDialog";
+import type { Subscription, SubscriptionInput } from "@/services/apiSchemas";
+
+const toInput = ({ id, productName, createdAt, updatedAt, ...input }: Subscription): SubscriptionInput => input;
+
+interface CustomerSubscriptionsProps {
+  customerId: string;
+}
+
+/**
+ * Customer detail card for recurring delivery plans, with pause/resume
+ */
+export function CustomerSubscriptions({ customerId }: CustomerSubscriptionsProps) {
+  const { data: subscriptions = [], isLoading } = useCustomerSubscriptions(customerId);
+  const updateSubscription = useUpdateSubscription();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Subscription | null>(null);
+  const [pausing, setPausing] = useState<Subscription | null>(null);
+  const [pauseRange, setPauseRange] = useState({ from: "", until: "" });
+  const [saving, setSaving] = useState(false);
+  const today = todayKey();
+
+  const openDialog = (subscription: Subscription | null) => {
+    setEditing(subscription);
+    setDialogOpen(true);
+  };
+
+  const openPause = (subscription: Subscription) => {
+    setPausing(subscription);
+    setPauseRange({ from: today, until: "" });
+  };
+
+  const savePause = async (subscription: Subscription, pausedFrom: string | null, pausedUntil: string | null) => {
+    try {
+      setSaving(true);
+      await updateSubscription.mutateAsync({
+        id: subscription.id,
+        input: { ...toInput(subscription), pausedFrom, pausedUntil },
+      });
+      toast.success(pausedFrom ? "Subscription paused" : "Subscription resumed");
+      setPausing(null);
+    } catch (error) {
+      reportError(error, "Failed to update subscription");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePause = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pausing) return;
+
+    if (pauseRange.until && pauseRange.until < pauseRange.from) {
+      toast.error("Resume date must be after the pause date");
+      return;
+    }
+    savePause(pausing, pauseRange.from, pauseRange.until || null);
+  };
+
+  const statusBadge = (subscription: Subscription) => {
+    if (subscription.endDate && subscription.endDate < today) {
+      return <Badge variant="outline">Ended</Badge>;
+    }
+    if (isPausedOn(subscription, today)) {
+      return (
+        <Badge variant="secondary">
+          {subscription.pausedUntil ? `Paused until ${subscription.pausedUntil}` : "Paused"}
+        </Badge>
+      );
+    }
+    if (subscription.pausedFrom && subscription.pausedFrom > today) {
+      return <Badge variant="secondary">Pausing from {subscription.pausedFrom}</Badge>;
+    }
+    return <Badge>Active</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Subscriptions
+          </span>
+          <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Subscription
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : subscriptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No recurring deliveries set up for this customer
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {subscriptions.map((subscription) => {
+              const paused = !!subscription.pausedFrom && (!subscription.pausedUntil || subscription.pausedUntil >= today);
+
+              return (
+                <div key={subscription.id} className="flex flex-col gap-2 rounded-lg border p-3 md:flex-row md:items-center md:justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        {subscription.quantity} × {subscription.productName || "Product"}
+                      </span>
+                      {statusBadge(subscription)}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {describeSchedule(subscription)}
+                      {subscription.preferredSlot && ` · ${subscription.preferredSlot.toLowerCase()}`}
+                      {` · from ${subscription.startDate}`}
+                      {subscription.endDate && ` to ${subscription.endDate}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {paused ? (
+                      <Button size="sm" variant="outline" onClick={() => savePause(subscription, null, null)} disabled={saving}>
+                        <Play className="mr-2 h-3 w-3" />
+                        Resume
+                      </Button>
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => openPause(subscription)}>
+                        <Pause className="mr-2 h-3 w-3" />
+                        Pause
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={() => openDialog(subscription)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <SubscriptionDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        customerId={customerId}
+        subscription={editing}
+      />
+
+      <Dialog open={!!pausing} onOpenChange={(open) => !open && setPausing(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Pause Subscription</DialogTitle>
+            <DialogDescription>
+              No orders are generated while paused. Leave the resume date empty to pause until resumed by hand.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handlePause} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="pausedFrom">Pause from</Label>
+                <Input
+                  id="pausedFrom"
+                  type="date"
+                  value={pauseRange.from}
+                  onChange={(e) => setPauseRange({ ...pauseRange, from: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pausedUntil">Paused until</Label>
+                <Input
+                  id="pausedUntil"
+                  type="date"
+                  value={pauseRange.until}
+                  onChange={(e) => setPauseRange({ ...pauseRange, until: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex gap-3 justify-end">
+              <Button type="button" variant="outline" onClick={() => setPausing(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Pause
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -9,17 +9,20 @@ import {
 } from "@/components/ui/dialog";
 import { Loader2, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
-import { apiService } from "@/services/api";
+import { useDeleteRider } from "@/hooks/use-riders";
+import { reportError } from "@/lib/errors";
+import type { Rider } from "@/services/apiSchemas";
 
 interface DeleteRiderDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  rider: any;
-  onRiderDeleted: (riderId: string) => void;
+  rider: Rider | null;
+  onRiderDeleted?: (riderId: string) => void;
 }
 
 export function DeleteRiderDialog({ open, onOpenChange, rider, onRiderDeleted }: DeleteRiderDialogProps) {
   const [loading, setLoading] = useState(false);
+  const deleteRider = useDeleteRider();
 
   const handleDelete = async () => {
     if (!rider?.id) {
@@ -30,17 +33,12 @@ export function DeleteRiderDialog({ open, onOpenChange, rider, onRiderDeleted }:
     try {
       setLoading(true);
       
-      const response = await apiService.deleteRider(rider.id);
-      
-      if (response.success) {
-        toast.success(`Rider "${rider.name}" deleted successfully`);
-        onRiderDeleted(rider.id);
-        onOpenChange(false);
-      }
-    } catch (error: any) {
-      console.error('Error deleting rider:', error);
-      const errorMessage = error.message || 'Failed to delete rider';
-      toast.error(errorMessage);
+      await deleteRider.mutateAsync(rider.id);
+      toast.success(`Rider "${rider.name}" deleted successfully`);
+      onRiderDeleted?.(rider.id);
+      onOpenChange(false);
+    } catch (error) {
+      reportError(error, 'Failed to delete rider');
     } finally {
       setLoading(false);
     }
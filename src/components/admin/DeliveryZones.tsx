@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useDeleteZone, useZones } from "@/hooks/use-zones";
+import { useRiders } from "@/hooks/use-riders";
+import { reportError } from "@/lib/errors";
+import { hasBoundary } from "@/lib/zones";
+import { ZoneDialog } from "./ZoneDialog";
+import type { DeliveryZone } from "@/services/apiSchemas";
+
+/**
+ * Settings card for the zones the business delivers to, each with an
+ * optional boundary, a delivery charge and a default rider
+ */
+export function DeliveryZones() {
+  const { data: zones = [], isLoading } = useZones();
+  const { data: riders = [] } = useRiders();
+  const deleteZone = useDeleteZone();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<DeliveryZone | null>(null);
+
+  const openDialog = (zone: DeliveryZone | null) => {
+    setEditing(zone);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (zone: DeliveryZone) => {
+    try {
+      await deleteZone.mutateAsync(zone.id);
+      toast.success(`Zone "${zone.name}" deleted`);
+    } catch (error) {
+      reportError(error, "Failed to delete zone");
+    }
+  };
+
+  const riderName = (riderId: string | null | undefined) => riders.find((rider) => rider.id === riderId)?.name;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Delivery Areas
+          </span>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Zone
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Manage the areas where you provide delivery services. Customers are filed into a zone by their map pin, or
+          by area name for zones without a boundary.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : zones.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No delivery zones yet</p>
+        ) : (
+          <div className="space-y-2">
+            {zones.map((zone) => (
+              <div key={zone.id} className="flex items-center justify-between p-2 border rounded">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className={zone.isActive ? "font-medium" : "font-medium text-muted-foreground"}>
+                      {zone.name}
+                    </span>
+                    <Badge variant="secondary">{hasBoundary(zone) ? "Boundary" : "By area name"}</Badge>
+                    {!zone.isActive && <Badge variant="outline">Inactive</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {zone.deliveryCharge > 0 ? `₹${zone.deliveryCharge.toFixed(2)} delivery` : "Free delivery"}
+                    {riderName(zone.defaultRiderId) && ` · ${riderName(zone.defaultRiderId)}`}
+                    {zone.customerCount != null &&
+                      ` · ${zone.customerCount} ${zone.customerCount === 1 ? "customer" : "customers"}`}
+                  </p>
+                </div>
+                <div className="flex items-center">
+                  <Button variant="ghost" size="sm" aria-label="Edit zone" onClick={() => openDialog(zone)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" aria-label="Delete zone" disabled={deleteZone.isPending}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {zone.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Its customers keep their addresses but no longer belong to a zone. Orders already placed
+                          keep their delivery charge.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDelete(zone)}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ZoneDialog open={dialogOpen} onOpenChange={setDialogOpen} zone={editing} zones={zones} riders={riders} />
+    </Card>
+  );
+}
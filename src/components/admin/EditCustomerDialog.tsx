@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -12,26 +12,52 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { toast } from 'sonner';
-import { apiService } from '@/services/api';
+import { useCustomer, useUpdateCustomer } from '@/hooks/use-customers';
+import { useFormErrors } from '@/hooks/use-form-errors';
+import { useZones } from '@/hooks/use-zones';
+import { CustomerPricingFields, type PricingFormValue } from './CustomerPricingFields';
+import { CustomerAddressFields } from './CustomerAddressFields';
+import {
+  customerAddresses,
+  emptyAddressForm,
+  flatAddressFields,
+  fromAddressForms,
+  toAddressForm,
+  type AddressFormValue,
+} from '@/lib/addresses';
+import { zoneIdForAddresses } from '@/lib/zones';
+import type { Customer, CustomerInput } from '@/services/apiSchemas';
 
-interface Customer {
-  id: string;
-  name: string;
-  phone: string;
-  whatsapp?: string;
-  houseNo?: string;
-  streetNo?: string;
-  area?: string;
-  city?: string;
-  bottleCount: number;
-  isActive: boolean;
-}
+const toPricingForm = (customer: Customer): PricingFormValue => ({
+  priceListId: customer.priceListId || null,
+  priceOverrides: customer.priceOverrides.map((price) => ({
+    productId: price.productId,
+    unitPrice: String(price.unitPrice),
+  })),
+  volumeDiscounts: customer.volumeDiscounts.map((discount) => ({
+    minQuantity: String(discount.minQuantity),
+    percentOff: String(discount.percentOff),
+  })),
+});
+
+// Incomplete rows are dropped rather than rejected
+const fromPricingForm = (
+  pricing: PricingFormValue
+): Pick<CustomerInput, 'priceListId' | 'priceOverrides' | 'volumeDiscounts'> => ({
+  priceListId: pricing.priceListId,
+  priceOverrides: pricing.priceOverrides
+    .filter((price) => price.productId && price.unitPrice !== '')
+    .map((price) => ({ productId: price.productId, unitPrice: parseFloat(price.unitPrice) })),
+  volumeDiscounts: pricing.volumeDiscounts
+    .filter((discount) => discount.minQuantity !== '' && discount.percentOff !== '')
+    .map((discount) => ({ minQuantity: parseInt(discount.minQuantity), percentOff: parseFloat(discount.percentOff) })),
+});
 
 interface EditCustomerDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   customer: Customer | null;
-  onCustomerUpdated: (updatedCustomer: Customer) => void;
+  onCustomerUpdated?: (updatedCustomer: Customer) => void;
 }
 
 export function EditCustomerDialog({ 
@@ -44,53 +70,46 @@ export function EditCustomerDialog({
     name: "",
     phone: "",
     whatsapp: "",
-    houseNo: "",
-    streetNo: "",
-    area: "",
-    city: "",
     bottleCount: 0,
     avgDaysToRefill: "",
   });
-  const [fieldErrors, setFieldErrors] = useState({});
+  const [addresses, setAddresses] = useState<AddressFormValue[]>([]);
+  const [pricing, setPricing] = useState<PricingFormValue>({
+    priceListId: null,
+    priceOverrides: [],
+    volumeDiscounts: [],
+  });
+  const { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError } = useFormErrors();
   const [loading, setLoading] = useState(false);
-  const [fetchingCustomer, setFetchingCustomer] = useState(false);
+  const { data: details, isLoading: fetchingCustomer } = useCustomer(open ? customer?.id : undefined);
+  const updateCustomer = useUpdateCustomer();
+  const { data: zones = [] } = useZones({ enabled: open });
+
+  // Fill the form once per opening; later background refetches must not
+  // overwrite what the admin is typing
+  const filledFor = useRef<string | null>(null);
 
-  // Fetch complete customer data when dialog opens
   useEffect(() => {
-    if (open && customer?.id) {
-      fetchCustomerData();
+    if (!open) {
+      filledFor.current = null;
+      return;
     }
-  }, [open, customer?.id]);
 
-  const fetchCustomerData = async () => {
-    try {
-      setFetchingCustomer(true);
-      const response = await apiService.getCustomerById(customer.id);
-      
-      if (response.success) {
-        const customerData = response.data;
-        setFormData({
-          name: customerData.name || "",
-          phone: customerData.phone || "",
-          whatsapp: customerData.whatsapp || "",
-          houseNo: customerData.houseNo || "",
-          streetNo: customerData.streetNo || "",
-          area: customerData.area || "",
-          city: customerData.city || "",
-          bottleCount: customerData.bottleCount || 0,
-          avgDaysToRefill: customerData.avgDaysToRefill || "",
-        });
-        setFieldErrors({});
-      } else {
-        toast.error('Failed to fetch customer data');
-      }
-    } catch (error) {
-      console.error('Error fetching customer data:', error);
-      toast.error('Failed to fetch customer data');
-    } finally {
-      setFetchingCustomer(false);
+    if (details && filledFor.current !== details.id) {
+      filledFor.current = details.id;
+      setFormData({
+        name: details.name || "",
+        phone: details.phone || "",
+        whatsapp: details.whatsapp || "",
+        bottleCount: details.bottleCount || 0,
+        avgDaysToRefill: details.avgDaysToRefill ? details.avgDaysToRefill.toString() : "",
+      });
+      const existing = customerAddresses(details);
+      setAddresses(existing.length > 0 ? existing.map(toAddressForm) : [emptyAddressForm("HOME", true)]);
+      setPricing(toPricingForm(details));
+      resetFieldErrors();
     }
-  };
+  }, [open, details, resetFieldErrors]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { id, value } = e.target;
@@ -101,12 +120,7 @@ export function EditCustomerDialog({
     });
 
     // Clear field errors when user starts typing
-    if (fieldErrors[id as keyof typeof fieldErrors]) {
-      setFieldErrors(prev => ({
-        ...prev,
-        [id]: null
-      }));
-    }
+    clearFieldError(id);
 
     // If phone number changes and whatsapp is empty, clear whatsapp
     if (id === 'phone' && !formData.whatsapp) {
@@ -140,59 +154,32 @@ export function EditCustomerDialog({
     try {
       setLoading(true);
       
+      const updatedAddresses = fromAddressForms(addresses);
       const customerData = {
         name: formData.name.trim(),
         phone: formData.phone.trim(),
         whatsapp: formData.whatsapp.trim() || null,
-        houseNo: formData.houseNo.trim() || null,
-        streetNo: formData.streetNo.trim() || null,
-        area: formData.area.trim() || null,
-        city: formData.city.trim() || null,
+        ...flatAddressFields(updatedAddresses),
+        addresses: updatedAddresses,
+        zoneId: zoneIdForAddresses(zones, updatedAddresses),
         bottleCount: parseInt(formData.bottleCount.toString()) || 0,
         avgDaysToRefill: formData.avgDaysToRefill ? parseInt(formData.avgDaysToRefill) : null,
+        ...fromPricingForm(pricing),
       };
 
-      const response = await apiService.updateCustomer(customer.id, customerData);
-      console.log('Update API Response:', response);
+      const response = await updateCustomer.mutateAsync({ id: customer.id, input: customerData });
+      toast.success(`Customer "${formData.name}" updated successfully!`);
       
-      if (response.success) {
-        toast.success(`Customer "${formData.name}" updated successfully!`);
-        
-        // Update the customer in the parent component
-        onCustomerUpdated({
-          ...customer,
-          ...customerData,
-        });
-        
-        onOpenChange(false);
-      } else {
-        // Handle specific error messages from backend
-        if (response.error === 'DUPLICATE_ENTRY') {
-          const field = response.details?.field || 'field';
-          const fieldName = field === 'phone' ? 'phone' : field === 'whatsapp' ? 'whatsapp' : field;
-          setFieldErrors({ [fieldName]: response.message });
-          toast.error(response.message);
-        } else if (response.error === 'DATABASE_ERROR') {
-          toast.error(response.message || 'Database validation error');
-        } else {
-          toast.error(response.message || "Failed to update customer. Please try again.");
-        }
-      }
-    } catch (error) {
-      console.error('Error updating customer:', error);
+      // Cached lists and details are updated by the mutation
+      onCustomerUpdated?.({
+        ...customer,
+        ...response.data,
+      });
       
-      // Handle network errors or other issues
-      if (error instanceof Error) {
-        if (error.message.includes('Failed to fetch')) {
-          toast.error("Unable to connect to server. Please check your connection and try again.");
-        } else if (error.message.includes('NetworkError')) {
-          toast.error("Network error. Please check your internet connection.");
-        } else {
-          toast.error("Failed to update customer. Please try again.");
-        }
-      } else {
-        toast.error("Failed to update customer. Please try again.");
-      }
+      onOpenChange(false);
+    } catch (error) {
+      // Duplicate phone/whatsapp and validation errors land on their fields
+      handleSubmitError(error, "Failed to update customer. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -342,49 +329,9 @@ export function EditCustomerDialog({
             </div>
           </div>
 
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="houseNo">House Number</Label>
-              <Input
-                id="houseNo"
-                placeholder="123"
-                value={formData.houseNo}
-                onChange={handleChange}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="streetNo">Street Number</Label>
-              <Input
-                id="streetNo"
-                placeholder="456"
-                value={formData.streetNo}
-                onChange={handleChange}
-              />
-            </div>
-          </div>
-
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="area">Area/Neighborhood</Label>
-              <Input
-                id="area"
-                placeholder="Area, sector, or neighborhood"
-                value={formData.area}
-                onChange={handleChange}
-              />
-            </div>
+          <CustomerAddressFields value={addresses} onChange={setAddresses} zones={zones} />
 
-            <div className="space-y-2">
-              <Label htmlFor="city">City</Label>
-              <Input
-                id="city"
-                placeholder="Delhi"
-                value={formData.city}
-                onChange={handleChange}
-              />
-            </div>
-          </div>
+          <CustomerPricingFields value={pricing} onChange={setPricing} />
 
           <DialogFooter>
             <Button 
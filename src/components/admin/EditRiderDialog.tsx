@@ -18,22 +18,29 @@ import {
 } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
-import { apiService } from "@/services/api";
+import { useUpdateRider } from "@/hooks/use-riders";
+import { useFormErrors } from "@/hooks/use-form-errors";
+import type { Rider } from "@/services/apiSchemas";
 
 interface EditRiderDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  rider: any;
-  onRiderUpdated: (updatedRider: any) => void;
+  rider: Rider | null;
+  onRiderUpdated?: (updatedRider: Rider) => void;
 }
 
 export function EditRiderDialog({ open, onOpenChange, rider, onRiderUpdated }: EditRiderDialogProps) {
   const [loading, setLoading] = useState(false);
+  const updateRider = useUpdateRider();
+  const { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError } = useFormErrors();
   const [formData, setFormData] = useState({
     name: "",
     phone: "",
     email: "",
     isActive: true,
+    // Comma-separated so areas can be typed in one go
+    areas: "",
+    tripCapacity: "",
   });
 
   useEffect(() => {
@@ -43,15 +50,19 @@ export function EditRiderDialog({ open, onOpenChange, rider, onRiderUpdated }: E
         phone: rider.phone || "",
         email: rider.email || "",
         isActive: rider.isActive !== undefined ? rider.isActive : true,
+        areas: rider.areas.join(", "),
+        tripCapacity: rider.tripCapacity != null ? String(rider.tripCapacity) : "",
       });
+      resetFieldErrors();
     }
-  }, [rider]);
+  }, [rider, resetFieldErrors]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
       ...formData,
       [e.target.id]: e.target.value,
     });
+    clearFieldError(e.target.id);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -92,6 +103,11 @@ export function EditRiderDialog({ open, onOpenChange, rider, onRiderUpdated }: E
       return;
     }
 
+    if (formData.tripCapacity && !(parseInt(formData.tripCapacity) > 0)) {
+      toast.error("Bottles per trip must be at least 1");
+      return;
+    }
+
     try {
       setLoading(true);
       
@@ -100,19 +116,17 @@ export function EditRiderDialog({ open, onOpenChange, rider, onRiderUpdated }: E
         phone: formData.phone.trim(),
         email: formData.email.trim(),
         isActive: formData.isActive,
+        areas: formData.areas.split(",").map((area) => area.trim()).filter(Boolean),
+        tripCapacity: formData.tripCapacity ? parseInt(formData.tripCapacity) : null,
       };
 
-      const response = await apiService.updateRider(rider.id, riderData);
-      
-      if (response.success) {
-        toast.success(`Rider "${formData.name}" updated successfully!`);
-        onRiderUpdated(response.data);
-        onOpenChange(false);
-      }
-    } catch (error: any) {
-      console.error('Error updating rider:', error);
-      const errorMessage = error.message || 'Failed to update rider';
-      toast.error(errorMessage);
+      const response = await updateRider.mutateAsync({ id: rider.id, input: riderData });
+      toast.success(`Rider "${formData.name}" updated successfully!`);
+      onRiderUpdated?.(response.data);
+      onOpenChange(false);
+    } catch (error) {
+      // Duplicate phone/email and validation errors land on their fields
+      handleSubmitError(error, "Failed to update rider. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -138,8 +152,12 @@ export function EditRiderDialog({ open, onOpenChange, rider, onRiderUpdated }: E
               placeholder="Enter full name"
               value={formData.name}
               onChange={handleChange}
+              className={fieldErrors.name ? "border-red-500 focus:border-red-500" : ""}
               required
             />
+            {fieldErrors.name && (
+              <p className="text-sm text-red-500">{fieldErrors.name}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -152,8 +170,12 @@ export function EditRiderDialog({ open, onOpenChange, rider, onRiderUpdated }: E
               placeholder="+91 98765 43210"
               value={formData.phone}
               onChange={handleChange}
+              className={fieldErrors.phone ? "border-red-500 focus:border-red-500" : ""}
               required
             />
+            {fieldErrors.phone && (
+              <p className="text-sm text-red-500">{fieldErrors.phone}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -166,8 +188,39 @@ export function EditRiderDialog({ open, onOpenChange, rider, onRiderUpdated }: E
               placeholder="rider@example.com"
               value={formData.email}
               onChange={handleChange}
+              className={fieldErrors.email ? "border-red-500 focus:border-red-500" : ""}
               required
             />
+            {fieldErrors.email && (
+              <p className="text-sm text-red-500">{fieldErrors.email}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="areas">Delivery Areas</Label>
+            <Input
+              id="areas"
+              placeholder="e.g. Model Town, Civil Lines"
+              value={formData.areas}
+              onChange={handleChange}
+            />
+            <p className="text-xs text-muted-foreground">Leave empty if the rider covers every area</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tripCapacity">Bottles per Trip</Label>
+            <Input
+              id="tripCapacity"
+              type="number"
+              min="1"
+              placeholder="No limit"
+              value={formData.tripCapacity}
+              onChange={handleChange}
+              className={fieldErrors.tripCapacity ? "border-red-500 focus:border-red-500" : ""}
+            />
+            {fieldErrors.tripCapacity && (
+              <p className="text-sm text-red-500">{fieldErrors.tripCapacity}</p>
+            )}
           </div>
 
           <div className="space-y-2">
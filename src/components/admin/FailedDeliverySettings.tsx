@@ -0,0 +1,71 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2, PackageX } from "lucide-react";
+import { toast } from "sonner";
+import { useDeliverySettings, useUpdateDeliverySettings } from "@/hooks/use-delivery-settings";
+import { reportError } from "@/lib/errors";
+import { FAILED_DELIVERY_POLICY_LABELS } from "@/services/orderLifecycle";
+import { FAILED_DELIVERY_POLICIES, type FailedDeliveryPolicy } from "@/services/apiSchemas";
+
+const POLICY_DESCRIPTIONS: Record<FailedDeliveryPolicy, string> = {
+  RESCHEDULE_NEXT_SLOT:
+    "The same rider tries again in the next time slot, or the next morning after an evening or any-time attempt.",
+  RETURN_TO_POOL: "The rider is taken off the order so it can be reassigned from the orders list.",
+};
+
+/**
+ * Settings card for what happens to an order after a rider reports a
+ * failed delivery. Admins are notified either way.
+ */
+export function FailedDeliverySettings() {
+  const { data: settings, isLoading } = useDeliverySettings();
+  const updateSettings = useUpdateDeliverySettings();
+
+  const handleChange = async (value: string) => {
+    try {
+      await updateSettings.mutateAsync({ ...settings, failedDeliveryPolicy: value as FailedDeliveryPolicy });
+      toast.success("Failed delivery policy saved");
+    } catch (error) {
+      reportError(error, "Failed to save the failed delivery policy");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PackageX className="h-5 w-5" />
+          Failed Deliveries
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          When a rider cannot deliver an order, it is handled automatically and admins are notified.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <RadioGroup
+            value={settings?.failedDeliveryPolicy}
+            onValueChange={handleChange}
+            disabled={updateSettings.isPending}
+            className="gap-4"
+          >
+            {FAILED_DELIVERY_POLICIES.map((policy) => (
+              <div key={policy} className="flex items-start gap-3">
+                <RadioGroupItem value={policy} id={`policy-${policy}`} className="mt-1" />
+                <Label htmlFor={`policy-${policy}`} className="space-y-1 font-normal">
+                  <span className="block font-medium">{FAILED_DELIVERY_POLICY_LABELS[policy]}</span>
+                  <span className="block text-sm text-muted-foreground">{POLICY_DESCRIPTIONS[policy]}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
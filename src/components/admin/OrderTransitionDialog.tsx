@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useUpdateOrderStatus } from "@/hooks/use-orders";
+import { useFormErrors } from "@/hooks/use-form-errors";
+import { slotLabel } from "@/lib/slots";
+import { todayKey } from "@/lib/subscriptions";
+import { ORDER_ACTION_LABELS, ORDER_EVENT_LABELS, REASON_REQUIRED } from "@/services/orderLifecycle";
+import { DELIVERY_SLOTS, type DeliverySlot, type Order, type OrderAction } from "@/services/apiSchemas";
+
+// Rider changes go through AssignRiderDialog, and deliveries are completed
+// by the rider so payment and bottles are recorded with them
+export type TransitionDialogAction = Exclude<OrderAction, "ASSIGN" | "REASSIGN" | "DELIVER">;
+
+interface OrderTransitionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: Order;
+  action: TransitionDialogAction | null;
+}
+
+const DESCRIPTIONS: Record<TransitionDialogAction, string> = {
+  UNASSIGN: "Take the order off its rider and put it back in the pool",
+  START: "Mark the order as out for delivery",
+  FAIL: "Record that the delivery could not be made",
+  CANCEL: "Cancel the order. This cannot be undone.",
+  RESCHEDULE: "Move the order to another day or time slot",
+};
+
+/**
+ * Confirms one lifecycle step for an order, asking for a reason (and a new
+ * date when rescheduling) so it is recorded in the order's timeline
+ */
+export function OrderTransitionDialog({ open, onOpenChange, order, action }: OrderTransitionDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const updateOrderStatus = useUpdateOrderStatus();
+  const { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError } = useFormErrors();
+  const [reason, setReason] = useState("");
+  const [scheduledDate, setScheduledDate] = useState("");
+  const [deliverySlot, setDeliverySlot] = useState<string>("any");
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setScheduledDate(order.scheduledDate && order.scheduledDate >= todayKey() ? order.scheduledDate : todayKey());
+      setDeliverySlot(order.deliverySlot ?? "any");
+      resetFieldErrors();
+    }
+  }, [open, order.scheduledDate, order.deliverySlot, resetFieldErrors]);
+
+  if (!action) return null;
+
+  const reasonRequired = REASON_REQUIRED.includes(action);
+  const rescheduling = action === "RESCHEDULE";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (rescheduling && scheduledDate < todayKey()) {
+      toast.error("The new date cannot be in the past");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await updateOrderStatus.mutateAsync({
+        id: order.id,
+        from: order.status,
+        action,
+        reason: reason || undefined,
+        ...(rescheduling && {
+          scheduledDate,
+          deliverySlot: deliverySlot === "any" ? null : (deliverySlot as DeliverySlot),
+        }),
+      });
+      toast.success(ORDER_EVENT_LABELS[action]);
+      onOpenChange(false);
+    } catch (error) {
+      // A missing reason or date comes back on its field
+      handleSubmitError(error, `Failed to ${ORDER_ACTION_LABELS[action].toLowerCase()}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{ORDER_ACTION_LABELS[action]}</DialogTitle>
+          <DialogDescription>{DESCRIPTIONS[action]}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {rescheduling && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="scheduledDate">
+                  New Date <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="scheduledDate"
+                  type="date"
+                  min={todayKey()}
+                  value={scheduledDate}
+                  onChange={(e) => {
+                    setScheduledDate(e.target.value);
+                    clearFieldError("scheduledDate");
+                  }}
+                  className={fieldErrors.scheduledDate ? "border-red-500 focus:border-red-500" : ""}
+                  required
+                />
+                {fieldErrors.scheduledDate && (
+                  <p className="text-sm text-red-500">{fieldErrors.scheduledDate}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deliverySlot">Time Slot</Label>
+                <Select value={deliverySlot} onValueChange={setDeliverySlot}>
+                  <SelectTrigger id="deliverySlot">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any time</SelectItem>
+                    {DELIVERY_SLOTS.map((slot) => (
+                      <SelectItem key={slot} value={slot}>
+                        {slotLabel(slot)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">
+              Reason {reasonRequired ? <span className="text-destructive">*</span> : "(optional)"}
+            </Label>
+            <Textarea
+              id="reason"
+              placeholder={action === "CANCEL" ? "e.g. Customer no longer needs it" : "Add a note for the timeline"}
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value);
+                clearFieldError("reason");
+              }}
+              className={fieldErrors.reason ? "border-red-500 focus:border-red-500" : ""}
+              rows={3}
+              required={reasonRequired}
+            />
+            {fieldErrors.reason && (
+              <p className="text-sm text-red-500">{fieldErrors.reason}</p>
+            )}
+          </div>
+
+          <div className="flex gap-3 justify-end pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Back
+            </Button>
+            <Button
+              type="submit"
+              variant={action === "CANCEL" || action === "FAIL" ? "destructive" : "default"}
+              disabled={loading}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {ORDER_ACTION_LABELS[action]}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, Package, Pencil, Plus } from "lucide-react";
+import { useProducts } from "@/hooks/use-products";
+import { ProductDialog } from "./ProductDialog";
+import type { Product } from "@/services/apiSchemas";
+
+/**
+ * Settings card listing the product catalog orders are built from
+ */
+export function ProductCatalog() {
+  const { data: products = [], isLoading } = useProducts();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Product | null>(null);
+
+  const openDialog = (product: Product | null) => {
+    setEditing(product);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            Product Catalog
+          </span>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Product
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Jars, bottles and rentals you sell, with the unit price used when creating orders
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No products yet</p>
+        ) : (
+          <div className="space-y-2">
+            {products.map((product) => (
+              <div key={product.id} className="flex items-center justify-between p-2 border rounded">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className={product.isActive ? "font-medium" : "font-medium text-muted-foreground"}>
+                      {product.name}
+                    </span>
+                    {product.isReturnable && <Badge variant="secondary">Returnable</Badge>}
+                    {!product.isActive && <Badge variant="outline">Archived</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {product.sku ? `${product.sku} · ` : ""}₹{product.unitPrice.toFixed(2)}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => openDialog(product)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ProductDialog open={dialogOpen} onOpenChange={setDialogOpen} product={editing} />
+    </Card>
+  );
+}
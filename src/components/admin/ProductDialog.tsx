@@ -0,0 +1,200 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCreateProduct, useUpdateProduct } from "@/hooks/use-products";
+import { useFormErrors } from "@/hooks/use-form-errors";
+import type { Product } from "@/services/apiSchemas";
+
+interface ProductDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit this product, or add a new one when null
+  product: Product | null;
+}
+
+export function ProductDialog({ open, onOpenChange, product }: ProductDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const createProduct = useCreateProduct();
+  const updateProduct = useUpdateProduct();
+  const { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError } = useFormErrors();
+  const [formData, setFormData] = useState({
+    name: "",
+    sku: "",
+    unitPrice: "",
+    isReturnable: false,
+    isActive: true,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setFormData({
+        name: product?.name || "",
+        sku: product?.sku || "",
+        unitPrice: product ? String(product.unitPrice) : "",
+        isReturnable: product?.isReturnable ?? false,
+        isActive: product?.isActive ?? true,
+      });
+      resetFieldErrors();
+    }
+  }, [open, product, resetFieldErrors]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.id]: e.target.value,
+    });
+    clearFieldError(e.target.id);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error("Please enter product name");
+      return;
+    }
+
+    const unitPrice = parseFloat(formData.unitPrice);
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      toast.error("Please enter a valid unit price");
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const input = {
+        name: formData.name.trim(),
+        sku: formData.sku.trim() || null,
+        unitPrice,
+        isReturnable: formData.isReturnable,
+        isActive: formData.isActive,
+      };
+
+      if (product) {
+        await updateProduct.mutateAsync({ id: product.id, input });
+        toast.success(`Product "${input.name}" updated successfully!`);
+      } else {
+        await createProduct.mutateAsync(input);
+        toast.success(`Product "${input.name}" added successfully!`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      // Duplicate name/SKU and validation errors land on their fields
+      handleSubmitError(error, "Failed to save product. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{product ? "Edit Product" : "Add Product"}</DialogTitle>
+          <DialogDescription>
+            Products and their unit prices are used to build orders
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">
+              Product Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="name"
+              placeholder="e.g. 19L Water Jar"
+              value={formData.name}
+              onChange={handleChange}
+              className={fieldErrors.name ? "border-red-500 focus:border-red-500" : ""}
+              required
+            />
+            {fieldErrors.name && (
+              <p className="text-sm text-red-500">{fieldErrors.name}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sku">SKU</Label>
+            <Input
+              id="sku"
+              placeholder="e.g. JAR-19L"
+              value={formData.sku}
+              onChange={handleChange}
+              className={fieldErrors.sku ? "border-red-500 focus:border-red-500" : ""}
+            />
+            {fieldErrors.sku && (
+              <p className="text-sm text-red-500">{fieldErrors.sku}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="unitPrice">
+              Unit Price (₹) <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="unitPrice"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={formData.unitPrice}
+              onChange={handleChange}
+              className={fieldErrors.unitPrice ? "border-red-500 focus:border-red-500" : ""}
+              required
+            />
+            {fieldErrors.unitPrice && (
+              <p className="text-sm text-red-500">{fieldErrors.unitPrice}</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="isReturnable">Returnable container</Label>
+              <p className="text-sm text-muted-foreground">Counts towards the customer's bottle balance</p>
+            </div>
+            <Switch
+              id="isReturnable"
+              checked={formData.isReturnable}
+              onCheckedChange={(isReturnable) => setFormData({ ...formData, isReturnable })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="isActive">Available for new orders</Label>
+              <p className="text-sm text-muted-foreground">Archived products stay on past orders</p>
+            </div>
+            <Switch
+              id="isActive"
+              checked={formData.isActive}
+              onCheckedChange={(isActive) => setFormData({ ...formData, isActive })}
+            />
+          </div>
+
+          <div className="flex gap-3 justify-end pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {loading ? "Saving..." : product ? "Update Product" : "Add Product"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CalendarClock, Loader2, Plus } from "lucide-react";
+import { CreateOrderDialog } from "./CreateOrderDialog";
+import { useRefillWorklist } from "@/hooks/use-refill-worklist";
+
+/**
+ * Dashboard card listing customers predicted to need a refill, with
+ * one-step order creation for the ones the admin ticks
+ */
+export function RefillWorklist() {
+  const { worklist, isLoading } = useRefillWorklist();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Customers drop off the list once an order is placed for them
+  const selected = worklist.filter((prediction) => selectedIds.has(prediction.customer.id));
+  const allSelected = worklist.length > 0 && selected.length === worklist.length;
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(worklist.map((prediction) => prediction.customer.id)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Due for Refill
+            {worklist.length > 0 && <Badge variant="secondary">{worklist.length}</Badge>}
+          </span>
+          <CreateOrderDialog
+            presetCustomers={selected.map((prediction) => prediction.customer)}
+            onOrderCreated={() => setSelectedIds(new Set())}
+            trigger={
+              <Button size="sm" disabled={selected.length === 0}>
+                <Plus className="mr-2 h-4 w-4" />
+                Create Orders{selected.length > 0 ? ` (${selected.length})` : ""}
+              </Button>
+            }
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : worklist.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No customers are due for a refill
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <label className="flex items-center gap-3 px-3 text-sm text-muted-foreground">
+              <Checkbox checked={allSelected} onCheckedChange={toggleAll} />
+              Select all
+            </label>
+            {worklist.map((prediction) => (
+              <div key={prediction.customer.id} className="flex items-center gap-3 rounded-lg border p-3">
+                <Checkbox
+                  checked={selectedIds.has(prediction.customer.id)}
+                  onCheckedChange={() => toggle(prediction.customer.id)}
+                  aria-label={`Select ${prediction.customer.name}`}
+                />
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Link to={`/admin/customers/${prediction.customer.id}`} className="font-medium hover:underline">
+                      {prediction.customer.name}
+                    </Link>
+                    <Badge variant={prediction.status === "overdue" ? "destructive" : "secondary"}>
+                      {prediction.status === "overdue"
+                        ? `${Math.abs(prediction.daysUntilRefill)}d overdue`
+                        : prediction.daysUntilRefill === 0
+                        ? "Due today"
+                        : "Due tomorrow"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Every ~{prediction.intervalDays} days
+                    {prediction.source === "history"
+                      ? ` (learned from ${prediction.deliveriesUsed} deliveries)`
+                      : " (from customer profile)"}
+                    {" · last delivered "}
+                    {prediction.lastDeliveredAt.toLocaleDateString()}
+                  </p>
+                </div>
+                <span className="text-sm text-muted-foreground">{prediction.customer.phone}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
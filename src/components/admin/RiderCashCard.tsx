@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { HandCoins, Loader2, Wallet } from "lucide-react";
+import { format } from "date-fns";
+import { useRiderCash } from "@/hooks/use-rider-cash";
+import { SettleCashDialog } from "./SettleCashDialog";
+
+interface RiderCashCardProps {
+  riderId: string;
+  riderName: string;
+}
+
+/**
+ * Cash the rider is carrying, delivery by delivery, with the handover that
+ * settles it
+ */
+export function RiderCashCard({ riderId, riderName }: RiderCashCardProps) {
+  const { data: wallet, isLoading } = useRiderCash(riderId);
+  const [settling, setSettling] = useState(false);
+  const hasCash = !!wallet && (wallet.balance !== 0 || wallet.collections.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Cash in Hand
+          </span>
+          <Button size="sm" onClick={() => setSettling(true)} disabled={!hasCash}>
+            <HandCoins className="mr-2 h-4 w-4" />
+            Settle Cash
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !wallet ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div>
+              <div className="text-2xl font-bold">₹{wallet.balance.toFixed(2)}</div>
+              <p className="text-xs text-muted-foreground">
+                {wallet.collections.length} {wallet.collections.length === 1 ? "collection" : "collections"}
+                {wallet.lastSettledAt
+                  ? ` since the last settlement on ${format(new Date(wallet.lastSettledAt), "MMM d, h:mm a")}`
+                  : " not yet settled"}
+              </p>
+            </div>
+            {wallet.collections.length > 0 && (
+              <div className="space-y-2">
+                {wallet.collections.map((collection) => (
+                  <div key={collection.orderId} className="flex items-center justify-between p-2 border rounded">
+                    <div>
+                      <p className="text-sm font-medium">
+                        #{collection.orderNumber || collection.orderId.slice(-4)}
+                        {collection.customer && ` · ${collection.customer.name}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(collection.collectedAt), "MMM d, h:mm a")}
+                      </p>
+                    </div>
+                    <span className="font-medium">₹{collection.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {wallet && (
+        <SettleCashDialog open={settling} onOpenChange={setSettling} riderName={riderName} wallet={wallet} />
+      )}
+    </Card>
+  );
+}
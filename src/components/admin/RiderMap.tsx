@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react";
+import { Navigation2 } from "lucide-react";
+import type { MapSource } from "@/config/map";
+import { mapView, TILE_SIZE } from "@/lib/mapView";
+import type { LatLng } from "@/lib/routePlanner";
+
+export interface MapMarker {
+  id: string;
+  kind: "rider" | "stop";
+  position: LatLng;
+  label: string;
+  color: string;
+  // Riders only: direction of travel in degrees from north
+  heading?: number | null;
+  // Riders only: the last position is too old to trust
+  stale?: boolean;
+}
+
+interface RiderMapProps {
+  source: MapSource;
+  markers: MapMarker[];
+  height?: number;
+}
+
+/**
+ * Riders and their stops drawn over the configured map background,
+ * zoomed to fit every marker
+ */
+export function RiderMap({ source, markers, height = 520 }: RiderMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const view = mapView(source, markers.map(({ position }) => position), width, height);
+  // Riders are drawn over their stops
+  const ordered = [...markers].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === "stop" ? -1 : 1));
+
+  return (
+    <div ref={containerRef} className="relative w-full overflow-hidden rounded-lg border bg-muted" style={{ height }}>
+      {width > 0 && (
+        <>
+          {view.imageUrl && (
+            <img src={view.imageUrl} alt="" className="absolute inset-0 h-full w-full object-fill" draggable={false} />
+          )}
+          {view.tiles.map((tile) => (
+            <img
+              key={tile.key}
+              src={tile.url}
+              alt=""
+              draggable={false}
+              className="absolute max-w-none select-none"
+              style={{ left: tile.x, top: tile.y, width: TILE_SIZE, height: TILE_SIZE }}
+            />
+          ))}
+
+          {ordered.map((marker) => {
+            const { x, y } = view.project(marker.position);
+            if (marker.kind === "stop") {
+              return (
+                <div
+                  key={marker.id}
+                  title={marker.label}
+                  className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow"
+                  style={{ left: x, top: y, backgroundColor: marker.color }}
+                />
+              );
+            }
+            return (
+              <div
+                key={marker.id}
+                className="absolute flex -translate-x-1/2 -translate-y-1/2 flex-col items-center"
+                style={{ left: x, top: y, opacity: marker.stale ? 0.5 : 1 }}
+              >
+                <div
+                  className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-white shadow-md"
+                  style={{ backgroundColor: marker.color }}
+                >
+                  {marker.heading != null ? (
+                    <Navigation2
+                      className="h-4 w-4 fill-white text-white"
+                      style={{ transform: `rotate(${marker.heading}deg)` }}
+                    />
+                  ) : (
+                    <div className="h-2.5 w-2.5 rounded-full bg-white" />
+                  )}
+                </div>
+                <span className="mt-1 whitespace-nowrap rounded bg-background/90 px-1.5 text-xs font-medium shadow">
+                  {marker.label}
+                </span>
+              </div>
+            );
+          })}
+        </>
+      )}
+
+      {source.attribution && (
+        <span className="absolute bottom-0 right-0 bg-background/80 px-1.5 text-[10px] text-muted-foreground">
+          {source.attribution}
+        </span>
+      )}
+    </div>
+  );
+}
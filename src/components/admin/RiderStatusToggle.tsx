@@ -3,31 +3,28 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
-import { apiService } from "@/services/api";
+import { useUpdateRiderStatus } from "@/hooks/use-riders";
+import { reportError } from "@/lib/errors";
 
 interface RiderStatusToggleProps {
   riderId: string;
   isActive: boolean;
-  onStatusChange: (isActive: boolean) => void;
+  onStatusChange?: (isActive: boolean) => void;
 }
 
 export function RiderStatusToggle({ riderId, isActive, onStatusChange }: RiderStatusToggleProps) {
   const [loading, setLoading] = useState(false);
+  const updateStatus = useUpdateRiderStatus();
 
   const handleToggle = async () => {
     try {
       setLoading(true);
       
-      const response = await apiService.updateRiderStatus(riderId, !isActive);
-      
-      if (response.success) {
-        onStatusChange(!isActive);
-        toast.success(`Rider ${!isActive ? 'activated' : 'deactivated'} successfully`);
-      }
-    } catch (error: any) {
-      console.error('Error updating rider status:', error);
-      const errorMessage = error.message || 'Failed to update rider status';
-      toast.error(errorMessage);
+      await updateStatus.mutateAsync({ id: riderId, isActive: !isActive });
+      onStatusChange?.(!isActive);
+      toast.success(`Rider ${!isActive ? 'activated' : 'deactivated'} successfully`);
+    } catch (error) {
+      reportError(error, 'Failed to update rider status');
     } finally {
       setLoading(false);
     }
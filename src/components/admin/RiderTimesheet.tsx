@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Timer } from "lucide-react";
+import { format } from "date-fns";
+import { useRiderShifts } from "@/hooks/use-shifts";
+import { addDays, todayKey } from "@/lib/subscriptions";
+import { breakMs, deliveriesPerHour, formatDuration, odometerKm, timesheetTotals, workedMs } from "@/lib/shifts";
+
+interface RiderTimesheetProps {
+  riderId: string;
+}
+
+const RANGE_DAYS = ["7", "14", "30"];
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : rate.toFixed(1));
+
+/**
+ * A rider's shifts over the last few days with hours worked, breaks and
+ * deliveries per hour
+ */
+export function RiderTimesheet({ riderId }: RiderTimesheetProps) {
+  const [days, setDays] = useState("7");
+  const to = todayKey();
+  const from = addDays(to, 1 - Number(days));
+  const { data: shifts = [], isLoading } = useRiderShifts(riderId, { from, to });
+  const now = Date.now();
+  const totals = timesheetTotals(shifts, now);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Timesheet
+          </span>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_DAYS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  Last {value} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Shifts</p>
+            <p className="text-2xl font-bold">{totals.shifts}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Hours Worked</p>
+            <p className="text-2xl font-bold">{formatDuration(totals.workedMs)}</p>
+            <p className="text-xs text-muted-foreground">{formatDuration(totals.breakMs)} on breaks</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Deliveries</p>
+            <p className="text-2xl font-bold">{totals.deliveries}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Deliveries / Hour</p>
+            <p className="text-2xl font-bold">{formatRate(totals.deliveriesPerHour)}</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : shifts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No shifts in the last {days} days</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Start</TableHead>
+                  <TableHead>End</TableHead>
+                  <TableHead>Breaks</TableHead>
+                  <TableHead>Worked</TableHead>
+                  <TableHead>Deliveries</TableHead>
+                  <TableHead>Per Hour</TableHead>
+                  <TableHead>Distance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shifts.map((shift) => {
+                  const worked = workedMs(shift, now);
+                  const distance = odometerKm(shift);
+                  return (
+                    <TableRow key={shift.id}>
+                      <TableCell>{format(new Date(shift.startedAt), "EEE, MMM d")}</TableCell>
+                      <TableCell>{format(new Date(shift.startedAt), "h:mm a")}</TableCell>
+                      <TableCell>
+                        {shift.endedAt ? (
+                          format(new Date(shift.endedAt), "h:mm a")
+                        ) : (
+                          <Badge variant="secondary">On shift</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {shift.breaks.length === 0
+                          ? "—"
+                          : `${shift.breaks.length} · ${formatDuration(breakMs(shift, now))}`}
+                      </TableCell>
+                      <TableCell>{formatDuration(worked)}</TableCell>
+                      <TableCell>{shift.deliveries}</TableCell>
+                      <TableCell>{formatRate(deliveriesPerHour(shift.deliveries, worked))}</TableCell>
+                      <TableCell>{distance === null ? "—" : `${distance.toFixed(1)} km`}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useSettleRiderCash } from "@/hooks/use-rider-cash";
+import { useFormErrors } from "@/hooks/use-form-errors";
+import { cashDifference, settlementOutcome } from "@/lib/payments";
+import type { RiderCashWallet } from "@/services/apiSchemas";
+
+interface SettleCashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  riderName: string;
+  wallet: RiderCashWallet;
+}
+
+/**
+ * End-of-day handover: the admin counts the rider's cash and confirms it
+ * against what their deliveries collected. Any shortage or excess needs a
+ * note explaining it.
+ */
+export function SettleCashDialog({ open, onOpenChange, riderName, wallet }: SettleCashDialogProps) {
+  const settleCash = useSettleRiderCash(wallet.riderId);
+  const { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError } = useFormErrors();
+  const [counted, setCounted] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setCounted("");
+      setNotes("");
+      resetFieldErrors();
+    }
+  }, [open, resetFieldErrors]);
+
+  const countedAmount = counted ? parseFloat(counted) : null;
+  const counting = countedAmount !== null && !isNaN(countedAmount) && countedAmount >= 0;
+  const difference = counting ? cashDifference(countedAmount, wallet.balance) : 0;
+  const outcome = settlementOutcome(difference);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!counting) {
+      toast.error("Please enter the cash you counted");
+      return;
+    }
+    if (outcome !== "EXACT" && !notes.trim()) {
+      toast.error(`Please note why the cash is ${outcome === "SHORT" ? "short" : "over"}`);
+      return;
+    }
+
+    try {
+      await settleCash.mutateAsync({ expectedAmount: wallet.balance, countedAmount, notes });
+      toast.success(`Cash settled for ${riderName}`);
+      onOpenChange(false);
+    } catch (error) {
+      handleSubmitError(error, "Failed to settle cash. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !settleCash.isPending && onOpenChange(next)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Settle Cash</DialogTitle>
+          <DialogDescription>
+            Count the cash {riderName} hands over and confirm it against their {wallet.collections.length}{" "}
+            {wallet.collections.length === 1 ? "collection" : "collections"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex justify-between rounded-md border p-3">
+            <span className="text-sm text-muted-foreground">Expected</span>
+            <span className="font-medium">₹{wallet.balance.toFixed(2)}</span>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="countedAmount">
+              Counted (₹) <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="countedAmount"
+              type="number"
+              inputMode="decimal"
+              step="0.01"
+              min="0"
+              placeholder={wallet.balance.toFixed(2)}
+              value={counted}
+              onChange={(e) => {
+                setCounted(e.target.value);
+                clearFieldError("countedAmount");
+              }}
+              className={fieldErrors.countedAmount ? "border-red-500 focus:border-red-500" : ""}
+              autoFocus
+            />
+            {fieldErrors.countedAmount && <p className="text-sm text-red-500">{fieldErrors.countedAmount}</p>}
+            {counting && (
+              <p
+                className={
+                  outcome === "SHORT"
+                    ? "text-sm text-destructive"
+                    : outcome === "EXCESS"
+                      ? "text-sm text-orange-600"
+                      : "text-sm text-green-600"
+                }
+              >
+                {outcome === "SHORT" && `Short by ₹${Math.abs(difference).toFixed(2)}`}
+                {outcome === "EXCESS" && `Over by ₹${difference.toFixed(2)}`}
+                {outcome === "EXACT" && "Matches the collections"}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">
+              Notes {outcome !== "EXACT" && <span className="text-destructive">*</span>}
+            </Label>
+            <Textarea
+              id="notes"
+              rows={2}
+              placeholder={outcome === "EXACT" ? "Optional" : "What accounts for the difference?"}
+              value={notes}
+              onChange={(e) => {
+                setNotes(e.target.value);
+                clearFieldError("notes");
+              }}
+              className={fieldErrors.notes ? "border-red-500 focus:border-red-500" : ""}
+            />
+            {fieldErrors.notes && <p className="text-sm text-red-500">{fieldErrors.notes}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={settleCash.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={settleCash.isPending}>
+              {settleCash.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm Handover
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
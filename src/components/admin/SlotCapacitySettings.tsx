@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Clock, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useSlotCapacities, useUpdateSlotCapacities } from "@/hooks/use-slot-capacities";
+import { reportError } from "@/lib/errors";
+import { SLOT_HOURS, SLOT_LABELS } from "@/lib/slots";
+import { DELIVERY_SLOTS, type DeliverySlot, type SlotCapacity } from "@/services/apiSchemas";
+
+// One editable row per area; an empty cell means no limit
+type CapacityRow = { area: string } & Record<DeliverySlot, string>;
+
+const toRows = (capacities: SlotCapacity[]): CapacityRow[] => {
+  const rows = new Map<string, CapacityRow>();
+  for (const { area, slot, capacity } of capacities) {
+    const row = rows.get(area) ?? { area, MORNING: "", AFTERNOON: "", EVENING: "" };
+    row[slot] = String(capacity);
+    rows.set(area, row);
+  }
+  return [...rows.values()];
+};
+
+const fromRows = (rows: CapacityRow[]): SlotCapacity[] =>
+  rows.flatMap((row) =>
+    DELIVERY_SLOTS.filter((slot) => row[slot] !== "").map((slot) => ({
+      area: row.area,
+      slot,
+      capacity: parseInt(row[slot]),
+    }))
+  );
+
+/**
+ * Settings card for how many orders each area can take per slot per day
+ */
+export function SlotCapacitySettings() {
+  const { data: capacities, isLoading } = useSlotCapacities();
+  const updateCapacities = useUpdateSlotCapacities();
+  const [rows, setRows] = useState<CapacityRow[]>([]);
+  const [newArea, setNewArea] = useState("");
+
+  useEffect(() => {
+    if (capacities) setRows(toRows(capacities));
+  }, [capacities]);
+
+  const updateCell = (index: number, slot: DeliverySlot, value: string) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, [slot]: value } : row)));
+  };
+
+  const addArea = () => {
+    const area = newArea.trim();
+    if (!area) return;
+
+    if (rows.some((row) => row.area.toLowerCase() === area.toLowerCase())) {
+      toast.error(`"${area}" is already listed`);
+      return;
+    }
+    setRows([...rows, { area, MORNING: "", AFTERNOON: "", EVENING: "" }]);
+    setNewArea("");
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateCapacities.mutateAsync(fromRows(rows));
+      toast.success("Slot capacities saved");
+    } catch (error) {
+      reportError(error, "Failed to save slot capacities");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Delivery Slots
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Maximum orders per area in each slot per day. Leave a cell empty for no limit.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="pb-2 font-medium">Area</th>
+                  {DELIVERY_SLOTS.map((slot) => (
+                    <th key={slot} className="pb-2 font-medium">
+                      {SLOT_LABELS[slot]}
+                      <span className="block text-xs font-normal">{SLOT_HOURS[slot]}</span>
+                    </th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={row.area}>
+                    <td className="py-1 pr-2 font-medium">{row.area}</td>
+                    {DELIVERY_SLOTS.map((slot) => (
+                      <td key={slot} className="py-1 pr-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder="∞"
+                          aria-label={`${row.area} ${SLOT_LABELS[slot]} capacity`}
+                          value={row[slot]}
+                          onChange={(e) => updateCell(index, slot, e.target.value)}
+                        />
+                      </td>
+                    ))}
+                    <td className="py-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove ${row.area}`}
+                        onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            placeholder="Add area"
+            value={newArea}
+            onChange={(e) => setNewArea(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addArea();
+              }
+            }}
+          />
+          <Button variant="outline" onClick={addArea}>Add Area</Button>
+        </div>
+        <Button onClick={handleSave} disabled={updateCapacities.isPending}>
+          {updateCapacities.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Capacities
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useProducts } from "@/hooks/use-products";
+import { useCreateSubscription, useUpdateSubscription } from "@/hooks/use-subscriptions";
+import { useFormErrors } from "@/hooks/use-form-errors";
+import { todayKey, WEEKDAY_LABELS } from "@/lib/subscriptions";
+import type { DeliverySlot, Subscription, SubscriptionFrequency } from "@/services/apiSchemas";
+
+interface SubscriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: string;
+  // Edit this plan, or add a new one when null
+  subscription: Subscription | null;
+}
+
+const ANY_SLOT = "any";
+
+export function SubscriptionDialog({ open, onOpenChange, customerId, subscription }: SubscriptionDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const { data: products = [] } = useProducts({ enabled: open });
+  const createSubscription = useCreateSubscription();
+  const updateSubscription = useUpdateSubscription();
+  const { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError } = useFormErrors();
+  const [formData, setFormData] = useState({
+    productId: "",
+    quantity: "1",
+    frequency: "WEEKLY" as SubscriptionFrequency,
+    weekdays: [] as number[],
+    intervalDays: "",
+    preferredSlot: ANY_SLOT,
+    startDate: "",
+    endDate: "",
+  });
+
+  useEffect(() => {
+    if (open) {
+      setFormData({
+        productId: subscription?.productId || "",
+        quantity: subscription ? String(subscription.quantity) : "1",
+        frequency: subscription?.frequency || "WEEKLY",
+        weekdays: subscription?.weekdays || [],
+        intervalDays: subscription?.intervalDays ? String(subscription.intervalDays) : "",
+        preferredSlot: subscription?.preferredSlot || ANY_SLOT,
+        startDate: subscription?.startDate || todayKey(),
+        endDate: subscription?.endDate || "",
+      });
+      resetFieldErrors();
+    }
+  }, [open, subscription, resetFieldErrors]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.id]: e.target.value,
+    });
+    clearFieldError(e.target.id);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setFormData({
+      ...formData,
+      weekdays: formData.weekdays.includes(day)
+        ? formData.weekdays.filter((d) => d !== day)
+        : [...formData.weekdays, day].sort(),
+    });
+    clearFieldError("weekdays");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.productId) {
+      toast.error("Please select a product");
+      return;
+    }
+
+    const quantity = parseInt(formData.quantity);
+    if (!quantity || quantity <= 0) {
+      toast.error("Please enter a valid quantity");
+      return;
+    }
+
+    if (formData.frequency === "WEEKLY" && formData.weekdays.length === 0) {
+      toast.error("Please pick at least one delivery day");
+      return;
+    }
+
+    const intervalDays = parseInt(formData.intervalDays);
+    if (formData.frequency === "INTERVAL" && (!intervalDays || intervalDays <= 0)) {
+      toast.error("Please enter how many days apart deliveries are");
+      return;
+    }
+
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      toast.error("End date must be after the start date");
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const input = {
+        customerId,
+        productId: formData.productId,
+        quantity,
+        frequency: formData.frequency,
+        weekdays: formData.frequency === "WEEKLY" ? formData.weekdays : [],
+        intervalDays: formData.frequency === "INTERVAL" ? intervalDays : null,
+        preferredSlot: formData.preferredSlot === ANY_SLOT ? null : (formData.preferredSlot as DeliverySlot),
+        startDate: formData.startDate,
+        endDate: formData.endDate || null,
+        // Editing keeps any pause in place
+        pausedFrom: subscription?.pausedFrom ?? null,
+        pausedUntil: subscription?.pausedUntil ?? null,
+      };
+
+      if (subscription) {
+        await updateSubscription.mutateAsync({ id: subscription.id, input });
+        toast.success("Subscription updated successfully!");
+      } else {
+        await createSubscription.mutateAsync(input);
+        toast.success("Subscription added successfully!");
+      }
+      onOpenChange(false);
+    } catch (error) {
+      handleSubmitError(error, "Failed to save subscription. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{subscription ? "Edit Subscription" : "Add Subscription"}</DialogTitle>
+          <DialogDescription>
+            Orders are generated ahead of time on each delivery day
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="productId">
+                Product <span className="text-destructive">*</span>
+              </Label>
+              <Select
+                value={formData.productId}
+                onValueChange={(productId) => setFormData({ ...formData, productId })}
+              >
+                <SelectTrigger id="productId">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products
+                    .filter((product) => product.isActive || product.id === formData.productId)
+                    .map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quantity">
+                Quantity <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="quantity"
+                type="number"
+                min="1"
+                value={formData.quantity}
+                onChange={handleChange}
+                className={fieldErrors.quantity ? "border-red-500 focus:border-red-500" : ""}
+                required
+              />
+            </div>
+          </div>
+          {fieldErrors.quantity && (
+            <p className="text-sm text-red-500">{fieldErrors.quantity}</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="frequency">Schedule</Label>
+            <Select
+              value={formData.frequency}
+              onValueChange={(frequency) => setFormData({ ...formData, frequency: frequency as SubscriptionFrequency })}
+            >
+              <SelectTrigger id="frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="WEEKLY">On set days of the week</SelectItem>
+                <SelectItem value="INTERVAL">Every few days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.frequency === "WEEKLY" ? (
+            <div className="space-y-2">
+              <Label>Delivery Days</Label>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={formData.weekdays.includes(day) ? "default" : "outline"}
+                    onClick={() => toggleWeekday(day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              {fieldErrors.weekdays && (
+                <p className="text-sm text-red-500">{fieldErrors.weekdays}</p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="intervalDays">Every how many days</Label>
+              <Input
+                id="intervalDays"
+                type="number"
+                min="1"
+                placeholder="3"
+                value={formData.intervalDays}
+                onChange={handleChange}
+                className={fieldErrors.intervalDays ? "border-red-500 focus:border-red-500" : ""}
+              />
+              {fieldErrors.intervalDays && (
+                <p className="text-sm text-red-500">{fieldErrors.intervalDays}</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="preferredSlot">Preferred Slot</Label>
+            <Select
+              value={formData.preferredSlot}
+              onValueChange={(preferredSlot) => setFormData({ ...formData, preferredSlot })}
+            >
+              <SelectTrigger id="preferredSlot">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_SLOT}>Any time</SelectItem>
+                <SelectItem value="MORNING">Morning</SelectItem>
+                <SelectItem value="AFTERNOON">Afternoon</SelectItem>
+                <SelectItem value="EVENING">Evening</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="startDate">Starts</Label>
+              <Input id="startDate" type="date" value={formData.startDate} onChange={handleChange} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="endDate">Ends</Label>
+              <Input id="endDate" type="date" value={formData.endDate} onChange={handleChange} />
+            </div>
+          </div>
+
+          <div className="flex gap-3 justify-end pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {loading ? "Saving..." : subscription ? "Update Subscription" : "Add Subscription"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
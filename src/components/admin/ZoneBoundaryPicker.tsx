@@ -0,0 +1,199 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Minus, Plus, Undo2, X } from "lucide-react";
+import { MAP_DEFAULT_CENTER, MAP_SOURCE } from "@/config/map";
+import { centeredMapView, MIN_ZOOM, TILE_SIZE, type MapView } from "@/lib/mapView";
+import { MIN_BOUNDARY_POINTS } from "@/lib/zones";
+import type { LatLng } from "@/lib/routePlanner";
+import type { ZonePoint } from "@/services/apiSchemas";
+
+interface ZoneBoundaryPickerProps {
+  value: ZonePoint[];
+  onChange: (value: ZonePoint[]) => void;
+  // Other zones' boundaries, drawn faintly so zones can be lined up
+  others?: ZonePoint[][];
+  height?: number;
+}
+
+// Neighbourhood level, enough to follow the streets a zone ends at
+const ZONE_ZOOM = 14;
+const AREA_ZOOM = 12;
+// Pointer travel that turns a click into a drag
+const DRAG_THRESHOLD_PX = 4;
+
+const centroid = (points: ZonePoint[]): LatLng => ({
+  latitude: points.reduce((sum, point) => sum + point.latitude, 0) / points.length,
+  longitude: points.reduce((sum, point) => sum + point.longitude, 0) / points.length,
+});
+
+/**
+ * Map for drawing a zone's boundary. Each click adds a corner and dragging
+ * moves the map; the shape closes itself between the last and first corner.
+ */
+export function ZoneBoundaryPicker({ value, onChange, others = [], height = 300 }: ZoneBoundaryPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; y: number; moved: boolean; view: MapView } | null>(null);
+  const [width, setWidth] = useState(0);
+  // Follows the boundary until the map is first moved, since an existing
+  // boundary may arrive after the picker mounts
+  const [movedCenter, setCenter] = useState<LatLng | null>(null);
+  const [movedZoom, setZoom] = useState<number | null>(null);
+  const center = movedCenter ?? (value.length > 0 ? centroid(value) : MAP_DEFAULT_CENTER ?? { latitude: 0, longitude: 0 });
+  const zoom = movedZoom ?? (value.length > 0 ? ZONE_ZOOM : MAP_DEFAULT_CENTER ? AREA_ZOOM : MIN_ZOOM);
+  const maxZoom = MAP_SOURCE.kind === "tiles" ? MAP_SOURCE.maxZoom : MIN_ZOOM;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const view = centeredMapView(MAP_SOURCE, center, zoom, width, height);
+  const toPoints = (points: ZonePoint[]) =>
+    points
+      .map((point) => view.project(point))
+      .map(({ x, y }) => `${x},${y}`)
+      .join(" ");
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    drag.current = { x: e.clientX, y: e.clientY, moved: false, view };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = drag.current;
+    if (!start) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    if (!start.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+    start.moved = true;
+    setZoom(zoom);
+    // Measured from where the drag began so the map follows the pointer exactly
+    setCenter(start.view.unproject({ x: width / 2 - dx, y: height / 2 - dy }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = drag.current;
+    drag.current = null;
+    if (!start || start.moved) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    setCenter(center);
+    setZoom(zoom);
+    onChange([...value, view.unproject({ x: e.clientX - bounds.left, y: e.clientY - bounds.top })]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div ref={containerRef} className="relative w-full overflow-hidden rounded-md border bg-muted" style={{ height }}>
+        <div
+          className="absolute inset-0 cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => (drag.current = null)}
+        >
+          {width > 0 && (
+            <>
+              {view.imageUrl && (
+                <img src={view.imageUrl} alt="" className="absolute inset-0 h-full w-full object-fill" draggable={false} />
+              )}
+              {view.tiles.map((tile) => (
+                <img
+                  key={tile.key}
+                  src={tile.url}
+                  alt=""
+                  draggable={false}
+                  className="absolute max-w-none select-none"
+                  style={{ left: tile.x, top: tile.y, width: TILE_SIZE, height: TILE_SIZE }}
+                />
+              ))}
+              <svg className="pointer-events-none absolute inset-0 h-full w-full">
+                {others
+                  .filter((boundary) => boundary.length >= MIN_BOUNDARY_POINTS)
+                  .map((boundary, index) => (
+                    <polygon
+                      key={index}
+                      points={toPoints(boundary)}
+                      className="fill-muted-foreground/10 stroke-muted-foreground"
+                      strokeWidth={1}
+                      strokeDasharray="4 4"
+                    />
+                  ))}
+                {value.length >= MIN_BOUNDARY_POINTS ? (
+                  <polygon points={toPoints(value)} className="fill-primary/20 stroke-primary" strokeWidth={2} />
+                ) : (
+                  <polyline points={toPoints(value)} className="fill-none stroke-primary" strokeWidth={2} />
+                )}
+                {value.map((point, index) => {
+                  const { x, y } = view.project(point);
+                  return <circle key={index} cx={x} cy={y} r={4} className="fill-white stroke-primary" strokeWidth={2} />;
+                })}
+              </svg>
+            </>
+          )}
+        </div>
+        {MAP_SOURCE.kind === "tiles" && (
+          <div className="absolute right-2 top-2 flex flex-col gap-1">
+            <Button
+              type="button"
+              size="icon"
+              variant="secondary"
+              className="h-7 w-7"
+              aria-label="Zoom in"
+              disabled={zoom >= maxZoom}
+              onClick={() => {
+                setCenter(center);
+                setZoom(Math.min(zoom + 1, maxZoom));
+              }}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="secondary"
+              className="h-7 w-7"
+              aria-label="Zoom out"
+              disabled={zoom <= MIN_ZOOM}
+              onClick={() => {
+                setCenter(center);
+                setZoom(Math.max(zoom - 1, MIN_ZOOM));
+              }}
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {MAP_SOURCE.attribution && (
+          <span className="absolute bottom-0 right-0 bg-background/80 px-1.5 text-[10px] text-muted-foreground">
+            {MAP_SOURCE.attribution}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="flex-1">
+          {value.length === 0
+            ? "Click the map to add the zone's corners; drag to move around"
+            : value.length < MIN_BOUNDARY_POINTS
+              ? `${value.length} of at least ${MIN_BOUNDARY_POINTS} corners`
+              : `${value.length} corners`}
+        </span>
+        {value.length > 0 && (
+          <>
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange(value.slice(0, -1))}>
+              <Undo2 className="mr-1 h-3 w-3" />
+              Undo
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange([])}>
+              <X className="mr-1 h-3 w-3" />
+              Clear
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
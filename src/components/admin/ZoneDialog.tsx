@@ -0,0 +1,223 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { ZoneBoundaryPicker } from "./ZoneBoundaryPicker";
+import { useCreateZone, useUpdateZone } from "@/hooks/use-zones";
+import { useFormErrors } from "@/hooks/use-form-errors";
+import { MIN_BOUNDARY_POINTS } from "@/lib/zones";
+import type { DeliveryZone, DeliveryZoneInput, Rider, ZonePoint } from "@/services/apiSchemas";
+
+interface ZoneDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit this zone, or add a new one when null
+  zone: DeliveryZone | null;
+  // Every zone, so the others can be shown while drawing
+  zones: DeliveryZone[];
+  riders: Rider[];
+}
+
+const NO_RIDER = "none";
+
+export function ZoneDialog({ open, onOpenChange, zone, zones, riders }: ZoneDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const createZone = useCreateZone();
+  const updateZone = useUpdateZone();
+  const { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError } = useFormErrors();
+  const [formData, setFormData] = useState({
+    name: "",
+    deliveryCharge: "",
+    defaultRiderId: NO_RIDER,
+    isActive: true,
+  });
+  const [boundary, setBoundary] = useState<ZonePoint[]>([]);
+  const activeRiders = riders.filter((rider) => rider.isActive || rider.id === zone?.defaultRiderId);
+
+  useEffect(() => {
+    if (open) {
+      setFormData({
+        name: zone?.name || "",
+        deliveryCharge: zone ? String(zone.deliveryCharge) : "",
+        defaultRiderId: zone?.defaultRiderId || NO_RIDER,
+        isActive: zone?.isActive ?? true,
+      });
+      setBoundary(zone?.boundary ?? []);
+      resetFieldErrors();
+    }
+  }, [open, zone, resetFieldErrors]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.id]: e.target.value,
+    });
+    clearFieldError(e.target.id);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error("Please enter zone name");
+      return;
+    }
+
+    const deliveryCharge = formData.deliveryCharge ? parseFloat(formData.deliveryCharge) : 0;
+    if (isNaN(deliveryCharge) || deliveryCharge < 0) {
+      toast.error("Please enter a valid delivery charge");
+      return;
+    }
+
+    if (boundary.length > 0 && boundary.length < MIN_BOUNDARY_POINTS) {
+      toast.error(`A boundary needs at least ${MIN_BOUNDARY_POINTS} corners, or clear it to match by area name`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const input: DeliveryZoneInput = {
+        name: formData.name.trim(),
+        boundary,
+        deliveryCharge,
+        defaultRiderId: formData.defaultRiderId === NO_RIDER ? null : formData.defaultRiderId,
+        isActive: formData.isActive,
+      };
+
+      if (zone) {
+        await updateZone.mutateAsync({ id: zone.id, input });
+        toast.success(`Zone "${input.name}" updated successfully!`);
+      } else {
+        await createZone.mutateAsync(input);
+        toast.success(`Zone "${input.name}" added successfully!`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      // Duplicate names and validation errors land on their fields
+      handleSubmitError(error, "Failed to save zone. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{zone ? "Edit Zone" : "Add Zone"}</DialogTitle>
+          <DialogDescription>
+            Customers are filed into the zone their pin falls in, or by area name when it has no boundary
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="name">
+                Zone Name <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="name"
+                placeholder="e.g. Sector 15"
+                value={formData.name}
+                onChange={handleChange}
+                className={fieldErrors.name ? "border-red-500 focus:border-red-500" : ""}
+                required
+              />
+              {fieldErrors.name && (
+                <p className="text-sm text-red-500">{fieldErrors.name}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deliveryCharge">Delivery Charge (₹)</Label>
+              <Input
+                id="deliveryCharge"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={formData.deliveryCharge}
+                onChange={handleChange}
+                className={fieldErrors.deliveryCharge ? "border-red-500 focus:border-red-500" : ""}
+              />
+              {fieldErrors.deliveryCharge && (
+                <p className="text-sm text-red-500">{fieldErrors.deliveryCharge}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="defaultRiderId">Default Rider</Label>
+            <Select
+              value={formData.defaultRiderId}
+              onValueChange={(defaultRiderId) => setFormData({ ...formData, defaultRiderId })}
+            >
+              <SelectTrigger id="defaultRiderId">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_RIDER}>No default rider</SelectItem>
+                {activeRiders.map((rider) => (
+                  <SelectItem key={rider.id} value={rider.id}>
+                    {rider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">Suggested first when assigning the zone's orders</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Boundary</Label>
+            <ZoneBoundaryPicker
+              value={boundary}
+              onChange={setBoundary}
+              others={zones.filter((other) => other.id !== zone?.id).map((other) => other.boundary)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="isActive">Accepting deliveries</Label>
+              <p className="text-sm text-muted-foreground">Inactive zones no longer take new customers</p>
+            </div>
+            <Switch
+              id="isActive"
+              checked={formData.isActive}
+              onCheckedChange={(isActive) => setFormData({ ...formData, isActive })}
+            />
+          </div>
+
+          <div className="flex gap-3 justify-end pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {loading ? "Saving..." : zone ? "Update Zone" : "Add Zone"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,8 +2,12 @@ import { useEffect } from "react";
 import { Outlet } from "react-router-dom";
 import { RiderHeader } from "@/components/rider/RiderHeader";
 import { RiderMobileNav } from "@/components/rider/RiderMobileNav";
+import { ShiftControls } from "@/components/rider/ShiftControls";
 import { apiService } from "@/services/api";
 import { useNotifications } from "@/hooks/use-notifications";
+import { useRider } from "@/hooks/use-riders";
+import { useLocationSharing } from "@/hooks/use-rider-locations";
+import { riderShiftState } from "@/lib/shifts";
 
 const RiderLayout = () => {
   const user = apiService.getCurrentUser();
@@ -12,6 +16,11 @@ const RiderLayout = () => {
   // Initialize notifications for rider
   const { isInitialized, isConnected } = useNotifications(userId);
 
+  // Share position with the office only while on shift and not on a break
+  const riderId = user?.riderProfile?.id;
+  const { data: rider } = useRider(riderId);
+  useLocationSharing(riderId, isInitialized && !!rider?.isActive && riderShiftState(rider) === "ON");
+
   useEffect(() => {
     if (isInitialized) {
       console.log('✅ Notifications initialized for rider');
@@ -23,6 +32,7 @@ const RiderLayout = () => {
       <RiderHeader />
       
       <main className="flex-1 p-4 pb-20 md:pb-6 max-w-7xl mx-auto w-full">
+        {rider && <ShiftControls rider={rider} />}
         <Outlet />
       </main>
 
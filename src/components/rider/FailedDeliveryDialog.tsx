@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Camera, Loader2, PackageX } from "lucide-react";
+import { toast } from "sonner";
+import { useOutbox } from "@/hooks/use-outbox";
+import { reportError } from "@/lib/errors";
+import { compressImage } from "@/lib/image";
+import { getCurrentFix } from "@/lib/geolocation";
+import { FAILURE_REASON_LABELS } from "@/services/orderLifecycle";
+import { DELIVERY_FAILURE_REASONS, type DeliveryFailureReason } from "@/services/apiSchemas";
+
+interface FailedDeliveryDialogProps {
+  orderId: string;
+  orderLabel: string;
+  disabled?: boolean;
+  onReported?: () => void;
+}
+
+/**
+ * "Could not deliver" report for the rider: a reason, optional notes and an
+ * optional photo of the door or gate. Queued like a delivery so it survives
+ * a lost signal; the admin's failed-delivery policy decides what happens next.
+ */
+export function FailedDeliveryDialog({ orderId, orderLabel, disabled, onReported }: FailedDeliveryDialogProps) {
+  const { enqueue, isOnline } = useOutbox();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<DeliveryFailureReason | "">("");
+  const [notes, setNotes] = useState("");
+  const [photo, setPhoto] = useState<Blob | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [processingPhoto, setProcessingPhoto] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    return () => {
+      if (photoPreview) URL.revokeObjectURL(photoPreview);
+    };
+  }, [photoPreview]);
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setProcessingPhoto(true);
+      const compressed = await compressImage(file);
+      setPhoto(compressed);
+      setPhotoPreview(URL.createObjectURL(compressed));
+    } catch (error) {
+      reportError(error, "Could not process the photo. Please try again.");
+    } finally {
+      setProcessingPhoto(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason) {
+      toast.error("Please choose why the order could not be delivered");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const capturedAt = new Date().toISOString();
+      const location = await getCurrentFix();
+
+      await enqueue({
+        type: "DELIVERY_FAILED",
+        orderId,
+        input: { reason, notes: notes.trim() || undefined },
+      });
+      // The photo and GPS fix show the attempt was made
+      await enqueue({
+        type: "DELIVERY_PROOF",
+        orderId,
+        proof: { photo, signature: null, location, capturedAt },
+      });
+
+      // Only queued so far; the outbox on the dashboard reports a rejection
+      toast.success(`Report for order ${orderLabel} saved`, {
+        description: isOnline
+          ? "Syncing now. Your dashboard will show it if the office can't accept it."
+          : "It will sync automatically when you're back online",
+      });
+      setOpen(false);
+      onReported?.();
+    } catch (error) {
+      reportError(error, "Failed to save the report. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full" size="lg" disabled={disabled}>
+          <PackageX className="mr-2 h-4 w-4" />
+          Could Not Deliver
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Could Not Deliver</DialogTitle>
+          <DialogDescription>Tell the office why order {orderLabel} could not be delivered</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>
+              Reason <span className="text-destructive">*</span>
+            </Label>
+            <RadioGroup value={reason} onValueChange={(value) => setReason(value as DeliveryFailureReason)}>
+              {DELIVERY_FAILURE_REASONS.map((option) => (
+                <div key={option} className="flex items-center gap-3 rounded-md border p-3">
+                  <RadioGroupItem value={option} id={`reason-${option}`} />
+                  <Label htmlFor={`reason-${option}`} className="flex-1 font-normal">
+                    {FAILURE_REASON_LABELS[option]}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="failureNotes">Notes</Label>
+            <Textarea
+              id="failureNotes"
+              placeholder="e.g. Called twice, no answer"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="failurePhoto" className="flex items-center gap-2">
+              <Camera className="h-4 w-4" />
+              Photo (optional)
+            </Label>
+            {photoPreview && (
+              <img src={photoPreview} alt="Delivery attempt" className="max-h-48 w-full rounded-md object-cover" />
+            )}
+            <Input
+              id="failurePhoto"
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={handlePhotoChange}
+              disabled={processingPhoto}
+            />
+            {processingPhoto && <p className="text-sm text-muted-foreground">Compressing photo...</p>}
+          </div>
+
+          <div className="flex gap-3 justify-end pt-4">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={submitting || processingPhoto}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Report
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
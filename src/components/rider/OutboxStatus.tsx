@@ -0,0 +1,82 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, CloudOff, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { useOutbox } from "@/hooks/use-outbox";
+import type { OutboxEntry } from "@/services/offlineOutbox";
+
+/**
+ * Shows rider changes that have not reached the server yet, with a
+ * manual sync and per-entry retry/discard for rejected ones
+ */
+export function OutboxStatus() {
+  const { entries, pending, failed, isOnline, syncing, syncNow, retry, discard } = useOutbox();
+
+  // Discarding an entry also drops the later changes to its order
+  const laterChanges = (entry: OutboxEntry) =>
+    entries.filter((other) => other.orderId === entry.orderId && other.createdAt > entry.createdAt).length;
+
+  if (isOnline && pending.length === 0 && failed.length === 0) return null;
+
+  return (
+    <Card className={failed.length > 0 ? "border-destructive" : "border-orange-300"}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-sm font-medium">
+          <span className="flex items-center gap-2">
+            <CloudOff className="h-4 w-4" />
+            {isOnline ? "Waiting to sync" : "You're offline"}
+          </span>
+          {isOnline && pending.length > 0 && (
+            <Button size="sm" variant="outline" onClick={syncNow} disabled={syncing}>
+              {syncing ? <Loader2 className="mr-2 h-3 w-3 animate-spin" /> : <RefreshCw className="mr-2 h-3 w-3" />}
+              Sync now
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {pending.length === 0
+            ? "Changes you make will be saved and synced when you're back online."
+            : `${pending.length} ${pending.length === 1 ? "change" : "changes"} will sync automatically when the connection returns.`}
+        </p>
+
+        {pending.map((entry) => (
+          <div key={entry.id} className="flex items-center justify-between text-sm">
+            <span>{entry.label}</span>
+            <Badge variant="secondary">Pending</Badge>
+          </div>
+        ))}
+
+        {failed.map((entry) => (
+          <div key={entry.id} className="space-y-2 rounded-md border border-destructive/50 p-3">
+            <div className="flex items-start justify-between gap-2 text-sm">
+              <span className="font-medium">{entry.label}</span>
+              <Badge variant="destructive">
+                <AlertCircle className="mr-1 h-3 w-3" />
+                Failed
+              </Badge>
+            </div>
+            {entry.lastError && <p className="text-sm text-muted-foreground">{entry.lastError}</p>}
+            {laterChanges(entry) > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Discarding also drops {laterChanges(entry)} later{" "}
+                {laterChanges(entry) === 1 ? "change" : "changes"} to this order.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => retry(entry.id)} disabled={!isOnline}>
+                <RefreshCw className="mr-2 h-3 w-3" />
+                Retry
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => discard(entry.id)}>
+                <Trash2 className="mr-2 h-3 w-3" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
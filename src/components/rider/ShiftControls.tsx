@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Coffee, Loader2, LogIn, LogOut, Play } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { useShiftAction } from "@/hooks/use-shifts";
+import { getCurrentFix } from "@/lib/geolocation";
+import { reportError } from "@/lib/errors";
+import { formatDuration, openBreak, shiftState, workedMs } from "@/lib/shifts";
+import type { Rider } from "@/services/apiSchemas";
+
+interface ShiftControlsProps {
+  rider: Rider;
+}
+
+// Refreshes the running clock
+const TICK_MS = 60 * 1000;
+
+/**
+ * Clock in and out and take breaks. Starting and ending a shift records
+ * the odometer, if the rider enters it, and where they are.
+ */
+export function ShiftControls({ rider }: ShiftControlsProps) {
+  const shiftAction = useShiftAction(rider.id);
+  const [now, setNow] = useState(Date.now);
+  const [checkpoint, setCheckpoint] = useState<"START" | "END" | null>(null);
+  const [odometer, setOdometer] = useState("");
+  const [locating, setLocating] = useState(false);
+  const shift = rider.currentShift;
+  const state = shiftState(shift);
+  const busy = shiftAction.isPending || locating;
+
+  useEffect(() => {
+    if (state === "OFF") return;
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  const openCheckpoint = (action: "START" | "END") => {
+    setOdometer("");
+    setCheckpoint(action);
+  };
+
+  const handleCheckpoint = async () => {
+    const odometerKm = odometer ? parseFloat(odometer) : null;
+    if (odometerKm !== null && (isNaN(odometerKm) || odometerKm < 0)) {
+      toast.error("Please enter a valid odometer reading");
+      return;
+    }
+    if (checkpoint === "END" && odometerKm !== null && shift?.start?.odometerKm != null && odometerKm < shift.start.odometerKm) {
+      toast.error(`The reading can't be below the ${shift.start.odometerKm} km you started at`);
+      return;
+    }
+
+    setLocating(true);
+    // Clocking in or out never waits on a GPS fix for long
+    const location = await getCurrentFix(5000);
+    setLocating(false);
+
+    try {
+      await shiftAction.mutateAsync({ action: checkpoint, odometerKm, location });
+      toast.success(checkpoint === "START" ? "Shift started" : "Shift ended");
+      setCheckpoint(null);
+    } catch (error) {
+      reportError(error, checkpoint === "START" ? "Failed to start shift" : "Failed to end shift");
+    }
+  };
+
+  const handleBreak = async (action: "BREAK_START" | "BREAK_END") => {
+    try {
+      await shiftAction.mutateAsync({ action });
+      toast.success(action === "BREAK_START" ? "Enjoy your break" : "Welcome back");
+    } catch (error) {
+      reportError(error, action === "BREAK_START" ? "Failed to start break" : "Failed to end break");
+    }
+  };
+
+  if (!rider.isActive) return null;
+
+  const currentBreak = openBreak(shift);
+
+  return (
+    <Card className={state === "OFF" ? "mb-4 border-dashed" : "mb-4"}>
+      <CardContent className="flex items-center justify-between gap-3 p-3">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">
+            {state === "OFF" && "You're off shift"}
+            {state === "ON" && `On shift since ${format(new Date(shift.startedAt), "h:mm a")}`}
+            {state === "BREAK" && `On break since ${format(new Date(currentBreak.startedAt), "h:mm a")}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {state === "OFF"
+              ? "Start your shift when you're ready to take deliveries"
+              : `${formatDuration(workedMs(shift, now))} worked · ${shift.deliveries} delivered`}
+          </p>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          {state === "OFF" && (
+            <Button size="sm" onClick={() => openCheckpoint("START")} disabled={busy}>
+              <LogIn className="mr-2 h-4 w-4" />
+              Start Shift
+            </Button>
+          )}
+          {state === "ON" && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => handleBreak("BREAK_START")} disabled={busy}>
+                {shiftAction.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Coffee className="mr-2 h-4 w-4" />}
+                Break
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => openCheckpoint("END")} disabled={busy}>
+                <LogOut className="mr-2 h-4 w-4" />
+                End
+              </Button>
+            </>
+          )}
+          {state === "BREAK" && (
+            <Button size="sm" onClick={() => handleBreak("BREAK_END")} disabled={busy}>
+              {shiftAction.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+              End Break
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={checkpoint !== null} onOpenChange={(open) => !open && !busy && setCheckpoint(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{checkpoint === "START" ? "Start Shift" : "End Shift"}</DialogTitle>
+            <DialogDescription>
+              Your location is recorded with the time. Add the odometer reading if your vehicle has one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="odometer">Odometer (km)</Label>
+            <Input
+              id="odometer"
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.1"
+              placeholder={shift?.start?.odometerKm != null ? `Started at ${shift.start.odometerKm}` : "Optional"}
+              value={odometer}
+              onChange={(e) => setOdometer(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCheckpoint(null)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onClick={handleCheckpoint} disabled={busy}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {locating ? "Getting location..." : checkpoint === "START" ? "Start Shift" : "End Shift"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser } from "lucide-react";
+import { canvasToBlob } from "@/lib/image";
+
+interface SignaturePadProps {
+  // Called with a PNG after every stroke, or null once cleared
+  onChange: (signature: Blob | null) => void;
+}
+
+/**
+ * Finger/stylus signature capture on a canvas
+ */
+export function SignaturePad({ onChange }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Match the backing store to the rendered size so strokes are not blurred
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+
+    const context = canvas.getContext("2d")!;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+  }, []);
+
+  const pointFor = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d")!;
+    const { x, y } = pointFor(event);
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+
+    const context = event.currentTarget.getContext("2d")!;
+    const { x, y } = pointFor(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = async (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+
+    drawing.current = false;
+    setIsEmpty(false);
+    onChange(await canvasToBlob(event.currentTarget, "image/png"));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          className="h-40 w-full touch-none rounded-md border bg-white"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+        {isEmpty && (
+          <p className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            Ask the customer to sign here
+          </p>
+        )}
+      </div>
+      <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={isEmpty}>
+        <Eraser className="mr-2 h-4 w-4" />
+        Clear
+      </Button>
+    </div>
+  );
+}
@@ -26,6 +26,12 @@ export const API_BASE_URL = getApiBaseUrl();
 
 // Export individual API endpoints for easy access
 export const API_ENDPOINTS = {
+  // Authentication
+  AUTH_LOGIN: '/auth/login',
+  AUTH_VERIFY: '/auth/verify',
+  AUTH_REFRESH: '/auth/refresh',
+  AUTH_UPDATE_PASSWORD: '/auth/update-password',
+  
   // Dashboard
   DASHBOARD_STATS: '/dashboard/stats',
   DASHBOARD_ACTIVITIES: '/dashboard/activities',
@@ -34,15 +40,37 @@ export const API_ENDPOINTS = {
   CUSTOMERS: '/customers',
   CUSTOMER_BY_ID: (id: string) => `/customers/${id}`,
   CUSTOMER_STATUS: (id: string) => `/customers/${id}/status`,
+  CUSTOMER_SUBSCRIPTIONS: (id: string) => `/customers/${id}/subscriptions`,
   
   // Orders
   ORDERS: '/orders',
   ORDER_BY_ID: (id: string) => `/orders/${id}`,
+  ORDER_DELIVERY: (id: string) => `/orders/${id}/deliver`,
+  ORDER_PROOF: (id: string) => `/orders/${id}/proof`,
+  ORDER_FAILURE: (id: string) => `/orders/${id}/fail`,
+  
+  // Products
+  PRODUCTS: '/products',
+  PRODUCT_BY_ID: (id: string) => `/products/${id}`,
+  PRICE_LISTS: '/price-lists',
+  
+  // Subscriptions
+  SUBSCRIPTIONS: '/subscriptions',
+  SUBSCRIPTION_BY_ID: (id: string) => `/subscriptions/${id}`,
+  HOLIDAYS: '/holidays',
+  SLOT_CAPACITIES: '/slot-capacities',
+  DELIVERY_SETTINGS: '/settings/delivery',
+  ZONES: '/zones',
+  ZONE_BY_ID: (id: string) => `/zones/${id}`,
   
   // Riders
   RIDERS: '/riders',
   RIDER_BY_ID: (id: string) => `/riders/${id}`,
   RIDER_DASHBOARD: (id: string) => `/riders/${id}/dashboard`,
+  RIDER_LOCATIONS: '/riders/locations',
+  RIDER_SHIFTS: (id: string) => `/riders/${id}/shifts`,
+  RIDER_CASH: (id: string) => `/riders/${id}/cash`,
+  RIDER_SETTLEMENTS: (id: string) => `/riders/${id}/settlements`,
   
   // Payments
   PAYMENTS: '/payments',
@@ -53,6 +81,16 @@ export const API_ENDPOINTS = {
   HEALTH: '/health'
 };
 
+// Request resilience defaults; timeout can be raised for slow networks via env
+export const API_REQUEST_DEFAULTS = {
+  TIMEOUT_MS: Number(import.meta.env.VITE_API_TIMEOUT_MS) || 15000,
+  // Photo uploads over a weak mobile signal need far longer than JSON calls
+  UPLOAD_TIMEOUT_MS: 60000,
+  MAX_RETRIES: 2,
+  RETRY_BASE_DELAY_MS: 500,
+  RETRY_MAX_DELAY_MS: 10000,
+};
+
 // Log current configuration (for debugging)
 console.log('API Configuration:', {
   apiBaseUrl: API_BASE_URL,
@@ -0,0 +1,73 @@
+// Map Configuration
+// Where the admin map gets its background from. Any XYZ tile server works,
+// and a single static image with known bounds can stand in when there is
+// no tile server, e.g. offline development.
+
+export interface TileMapSource {
+  kind: 'tiles';
+  // URL template with {z}, {x} and {y}
+  urlTemplate: string;
+  attribution?: string;
+  maxZoom: number;
+}
+
+export interface ImageMapSource {
+  kind: 'image';
+  url: string;
+  // Edges of the image in degrees
+  bounds: { north: number; south: number; east: number; west: number };
+  attribution?: string;
+}
+
+export type MapSource = TileMapSource | ImageMapSource;
+
+const DEFAULT_TILES: TileMapSource = {
+  kind: 'tiles',
+  urlTemplate: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '© OpenStreetMap contributors',
+  maxZoom: 19,
+};
+
+// "north,south,east,west"
+const parseBounds = (value: string | undefined): ImageMapSource['bounds'] | null => {
+  const parts = value?.split(',').map(Number);
+  if (!parts || parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+  const [north, south, east, west] = parts;
+  return { north, south, east, west };
+};
+
+export const getMapSource = (): MapSource => {
+  const env = import.meta.env;
+
+  if (env.VITE_MAP_IMAGE_URL) {
+    const bounds = parseBounds(env.VITE_MAP_IMAGE_BOUNDS);
+    if (bounds) {
+      return { kind: 'image', url: env.VITE_MAP_IMAGE_URL, bounds, attribution: env.VITE_MAP_ATTRIBUTION };
+    }
+    console.warn('⚠️ VITE_MAP_IMAGE_BOUNDS must be "north,south,east,west"; using map tiles instead');
+  }
+
+  if (env.VITE_MAP_TILE_URL) {
+    return {
+      kind: 'tiles',
+      urlTemplate: env.VITE_MAP_TILE_URL,
+      attribution: env.VITE_MAP_ATTRIBUTION,
+      maxZoom: Number(env.VITE_MAP_MAX_ZOOM) || DEFAULT_TILES.maxZoom,
+    };
+  }
+
+  return DEFAULT_TILES;
+};
+
+export const MAP_SOURCE = getMapSource();
+
+// "lat,lng"
+const parseCenter = (value: string | undefined): { latitude: number; longitude: number } | null => {
+  const parts = value?.split(',').map(Number);
+  if (!parts || parts.length !== 2 || parts.some((part) => !Number.isFinite(part))) return null;
+  const [latitude, longitude] = parts;
+  return { latitude, longitude };
+};
+
+// Where the address pin picker starts before a pin is dropped
+export const MAP_DEFAULT_CENTER = parseCenter(import.meta.env.VITE_MAP_CENTER);
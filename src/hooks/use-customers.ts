@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { Customer, CustomerDetail, CustomerInput } from '@/services/apiSchemas';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * Customer list, optionally filtered by status on the backend.
+ * Pass `enabled: false` to defer loading, e.g. until a dialog opens.
+ */
+export function useCustomers(status?: string, { enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.customers.list(status),
+    queryFn: async ({ signal }) => unwrap(await apiService.getCustomers(status, { signal })),
+    enabled,
+  });
+}
+
+/**
+ * Single customer with order history and stats
+ */
+export function useCustomer(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.customers.detail(id),
+    queryFn: async ({ signal }) => unwrap(await apiService.getCustomerById(id, { signal })),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Create a customer and refresh the lists and dashboard counters
+ */
+export function useCreateCustomer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CustomerInput) => apiService.createCustomer(input),
+    onSuccess: (response) => {
+      if (!response.success) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all });
+    },
+  });
+}
+
+// Merge a changed customer into every cached list and its detail entry
+const patchCustomerCaches = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  id: string,
+  changes: Partial<Customer>
+) => {
+  queryClient.setQueriesData<Customer[]>({ queryKey: queryKeys.customers.lists() }, (customers) =>
+    customers?.map((customer) => (customer.id === id ? { ...customer, ...changes } : customer))
+  );
+  queryClient.setQueryData<CustomerDetail>(queryKeys.customers.detail(id), (customer) =>
+    customer ? { ...customer, ...changes } : customer
+  );
+};
+
+/**
+ * Update a customer's details. The response is written straight into
+ * the caches so the list and detail pages update without a refetch.
+ */
+export function useUpdateCustomer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: CustomerInput }) => apiService.updateCustomer(id, input),
+    onSuccess: (response, { id }) => {
+      if (!response.success) return;
+      patchCustomerCaches(queryClient, id, response.data);
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+/**
+ * Activate or deactivate a customer, optimistically
+ */
+export function useUpdateCustomerStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiService.updateCustomerStatus(id, isActive),
+    onMutate: async ({ id, isActive }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.customers.all });
+
+      const previousLists = queryClient.getQueriesData<Customer[]>({ queryKey: queryKeys.customers.lists() });
+      const previousDetail = queryClient.getQueryData<CustomerDetail>(queryKeys.customers.detail(id));
+      patchCustomerCaches(queryClient, id, { isActive });
+
+      return { previousLists, previousDetail };
+    },
+    onError: (_error, { id }, context) => {
+      context?.previousLists.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      if (context?.previousDetail) {
+        queryClient.setQueryData(queryKeys.customers.detail(id), context.previousDetail);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
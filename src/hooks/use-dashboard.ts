@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * Admin dashboard headline numbers
+ */
+export function useDashboardStats() {
+  return useQuery({
+    queryKey: queryKeys.dashboard.stats(),
+    queryFn: async ({ signal }) => unwrap(await apiService.getDashboardStats({ signal })),
+  });
+}
+
+/**
+ * Recent activity feed shown on the admin dashboard
+ */
+export function useRecentActivities() {
+  return useQuery({
+    queryKey: queryKeys.dashboard.activities(),
+    queryFn: async ({ signal }) => unwrap(await apiService.getRecentActivities({ signal })),
+  });
+}
@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { DeliverySettings } from '@/services/apiSchemas';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * Delivery rules the backend applies, such as what happens after a failed attempt
+ */
+export function useDeliverySettings({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.deliverySettings.all,
+    queryFn: async ({ signal }) => unwrap(await apiService.getDeliverySettings({ signal })),
+    enabled,
+  });
+}
+
+/**
+ * Save the delivery settings
+ */
+export function useUpdateDeliverySettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (settings: DeliverySettings) => apiService.updateDeliverySettings(settings),
+    onSuccess: (response) => {
+      if (!response.success) return;
+      queryClient.setQueryData(queryKeys.deliverySettings.all, response.data);
+    },
+  });
+}
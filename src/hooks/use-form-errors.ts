@@ -0,0 +1,24 @@
+import { useCallback, useState } from 'react';
+import { getFieldErrors, reportError } from '@/lib/errors';
+
+/**
+ * Inline field errors for a form backed by ApiService. Validation and
+ * conflict errors from the backend land on the matching inputs (keyed by
+ * request field name); the error is also toasted per the shared policy.
+ */
+export function useFormErrors() {
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string | null>>({});
+
+  const clearFieldError = useCallback((field: string) => {
+    setFieldErrors((prev) => (prev[field] ? { ...prev, [field]: null } : prev));
+  }, []);
+
+  const resetFieldErrors = useCallback(() => setFieldErrors({}), []);
+
+  const handleSubmitError = useCallback((error: unknown, fallback?: string) => {
+    setFieldErrors(getFieldErrors(error));
+    reportError(error, fallback);
+  }, []);
+
+  return { fieldErrors, clearFieldError, resetFieldErrors, handleSubmitError };
+}
@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import notificationManager, { type Notification, type NotificationType } from '@/services/notificationManager';
+import { queryKeys } from '@/lib/queryKeys';
+
+// Notifications that mean an order changed somewhere else
+const ORDER_NOTIFICATIONS: NotificationType[] = ['order_assigned', 'order_completed', 'order_cancelled', 'delivery_failed'];
+
+/**
+ * Refetch orders and riders whenever an order notification arrives, so
+ * admin screens follow riders' progress without a reload
+ */
+export function useLiveOrderUpdates() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const handleNotification = (notification: Notification) => {
+      if (!ORDER_NOTIFICATIONS.includes(notification.type)) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.riders.all });
+    };
+
+    notificationManager.on('notification', handleNotification);
+    return () => notificationManager.off('notification', handleNotification);
+  }, [queryClient]);
+}
@@ -0,0 +1,112 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { CreateOrderInput, Order, OrderStatus, OrderTransitionInput } from '@/services/apiSchemas';
+import { nextStatus } from '@/services/orderLifecycle';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * Order list, optionally filtered by status.
+ * Pass `enabled: false` to defer loading, e.g. until a dialog opens, and
+ * `refetchInterval` (ms) to keep a live board fresh.
+ */
+export function useOrders(
+  status?: OrderStatus,
+  { enabled = true, refetchInterval }: { enabled?: boolean; refetchInterval?: number } = {}
+) {
+  return useQuery({
+    queryKey: queryKeys.orders.list(status),
+    queryFn: async ({ signal }) => unwrap(await apiService.getOrders(status, { signal })),
+    enabled,
+    refetchInterval,
+  });
+}
+
+/**
+ * Single order with customer and rider
+ */
+export function useOrder(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.orders.detail(id),
+    queryFn: async ({ signal }) => unwrap(await apiService.getOrderById(id, { signal })),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Create an order. New orders show up in order lists, the dashboard
+ * counters and the customer's history, so all of those are refetched.
+ */
+export function useCreateOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateOrderInput) => apiService.createOrder(input),
+    onSuccess: (response, input) => {
+      if (!response.success) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.detail(input.customerId) });
+    },
+  });
+}
+
+interface UpdateOrderStatusInput extends OrderTransitionInput {
+  id: string;
+  // Status the order was in when the user chose the action
+  from: OrderStatus;
+}
+
+/**
+ * Move an order through its lifecycle (assign, cancel, reschedule, ...).
+ * The cached order is updated optimistically and rolled back if the
+ * request fails; the refetch afterwards brings in the recorded event.
+ */
+export function useUpdateOrderStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, from, ...transition }: UpdateOrderStatusInput) =>
+      apiService.updateOrderStatus(id, from, transition),
+    onMutate: async ({ id, from, action, riderId, scheduledDate, deliverySlot }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.orders.all });
+
+      const previousLists = queryClient.getQueriesData<Order[]>({ queryKey: queryKeys.orders.lists() });
+      const previousDetail = queryClient.getQueryData<Order>(queryKeys.orders.detail(id));
+
+      const status = nextStatus(from, action) ?? from;
+      // Back in the pool means no rider
+      const unassigned = status === 'PENDING';
+      const patch = (order: Order): Order =>
+        order.id === id
+          ? {
+              ...order,
+              status,
+              riderId: unassigned ? null : riderId ?? order.riderId,
+              rider: unassigned || (riderId && riderId !== order.riderId) ? null : order.rider,
+              scheduledDate: scheduledDate ?? order.scheduledDate,
+              deliverySlot: action === 'RESCHEDULE' ? deliverySlot ?? null : order.deliverySlot,
+            }
+          : order;
+
+      queryClient.setQueriesData<Order[]>({ queryKey: queryKeys.orders.lists() }, (orders) => orders?.map(patch));
+      if (previousDetail) {
+        queryClient.setQueryData(queryKeys.orders.detail(id), patch(previousDetail));
+      }
+
+      return { previousLists, previousDetail };
+    },
+    onError: (_error, { id }, context) => {
+      context?.previousLists.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      if (context?.previousDetail) {
+        queryClient.setQueryData(queryKeys.orders.detail(id), context.previousDetail);
+      }
+    },
+    onSettled: (_response, _error, { id }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.detail(id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.riders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all });
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { offlineOutbox, type OutboxEntry, type OutboxMutation } from '@/services/offlineOutbox';
+
+/**
+ * Live view of the rider's offline outbox: what is still waiting to
+ * sync, what the server rejected, and whether the device is online
+ */
+export function useOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    const load = () => {
+      offlineOutbox
+        .getEntries()
+        .then((next) => active && setEntries(next))
+        .catch((error) => console.error('Failed to read outbox:', error));
+    };
+
+    load();
+    offlineOutbox.on('changed', load);
+    return () => {
+      active = false;
+      offlineOutbox.off('changed', load);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setSyncing(true);
+    try {
+      await offlineOutbox.replay();
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  const enqueue = useCallback((mutation: OutboxMutation) => offlineOutbox.enqueue(mutation), []);
+  const retry = useCallback((id: string) => offlineOutbox.retry(id), []);
+  const discard = useCallback((id: string) => offlineOutbox.discard(id), []);
+
+  return {
+    entries,
+    pending: entries.filter((entry) => entry.status === 'pending'),
+    failed: entries.filter((entry) => entry.status === 'failed'),
+    isOnline,
+    syncing,
+    syncNow,
+    enqueue,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * Price lists customers can be put on (standard, wholesale, corporate, ...)
+ */
+export function usePriceLists({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.priceLists.list(),
+    queryFn: async ({ signal }) => unwrap(await apiService.getPriceLists({ signal })),
+    staleTime: 5 * 60 * 1000,
+    enabled,
+  });
+}
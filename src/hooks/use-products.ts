@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { Product, ProductInput } from '@/services/apiSchemas';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * The product catalog, including archived products. Pass `enabled: false`
+ * to defer loading, e.g. until the order dialog opens.
+ */
+export function useProducts({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.products.list(),
+    queryFn: async ({ signal }) => unwrap(await apiService.getProducts({ signal })),
+    // The catalog rarely changes during a session
+    staleTime: 5 * 60 * 1000,
+    enabled,
+  });
+}
+
+/**
+ * Add a product to the catalog
+ */
+export function useCreateProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ProductInput) => apiService.createProduct(input),
+    onSuccess: (response) => {
+      if (!response.success) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.lists() });
+    },
+  });
+}
+
+/**
+ * Edit or archive a catalog product
+ */
+export function useUpdateProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: ProductInput }) => apiService.updateProduct(id, input),
+    onSuccess: (response, { id }) => {
+      if (!response.success) return;
+      queryClient.setQueryData<Product[]>(queryKeys.products.list(), (products) =>
+        products?.map((product) => (product.id === id ? response.data : product))
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.lists() });
+    },
+  });
+}
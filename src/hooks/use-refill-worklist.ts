@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { useCustomers } from '@/hooks/use-customers';
+import { useOrders } from '@/hooks/use-orders';
+import { refillWorklist } from '@/lib/refill';
+
+/**
+ * Customers due or overdue for a refill, predicted from their delivery
+ * history. Reuses the cached customer and order lists.
+ */
+export function useRefillWorklist() {
+  const customersQuery = useCustomers();
+  const ordersQuery = useOrders();
+
+  const worklist = useMemo(
+    () => refillWorklist(customersQuery.data ?? [], ordersQuery.data ?? []),
+    [customersQuery.data, ordersQuery.data]
+  );
+
+  return {
+    worklist,
+    isLoading: customersQuery.isLoading || ordersQuery.isLoading,
+  };
+}
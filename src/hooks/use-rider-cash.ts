@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { CashSettlement, CashSettlementInput, RiderCashWallet } from '@/services/apiSchemas';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * Cash a rider is holding: the collections since their last settlement
+ */
+export function useRiderCash(riderId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.riders.cash(riderId),
+    queryFn: async ({ signal }) => unwrap(await apiService.getRiderCash(riderId, { signal })),
+    enabled: !!riderId,
+  });
+}
+
+/**
+ * A rider's past cash handovers, newest first
+ */
+export function useRiderSettlements(riderId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.riders.settlements(riderId),
+    queryFn: async ({ signal }) => unwrap(await apiService.getRiderSettlements(riderId, { signal })),
+    enabled: !!riderId,
+  });
+}
+
+/**
+ * Confirm the cash counted at handover. The wallet empties and the
+ * settlement goes to the top of the history straight away.
+ */
+export function useSettleRiderCash(riderId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CashSettlementInput) => unwrap(await apiService.settleRiderCash(riderId, input)),
+    onSuccess: (settlement) => {
+      queryClient.setQueryData<RiderCashWallet>(queryKeys.riders.cash(riderId), (wallet) =>
+        wallet ? { ...wallet, balance: 0, collections: [], lastSettledAt: settlement.settledAt } : wallet
+      );
+      queryClient.setQueryData<CashSettlement[]>(queryKeys.riders.settlements(riderId), (settlements) =>
+        settlements ? [settlement, ...settlements] : settlements
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.riders.cash(riderId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.riders.settlements(riderId) });
+    },
+    // The usual failure is cash collected since the count began
+    onError: () => queryClient.invalidateQueries({ queryKey: queryKeys.riders.cash(riderId) }),
+  });
+}
@@ -0,0 +1,80 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import notificationManager from '@/services/notificationManager';
+import type { RiderLocation } from '@/services/apiSchemas';
+import { distanceKm } from '@/lib/routePlanner';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+// Battery budget: a fix at most every 15s, and only that often while moving
+const MIN_INTERVAL_MS = 15 * 1000;
+// Standing still still checks in so admins can tell the app is alive
+const MAX_INTERVAL_MS = 60 * 1000;
+const MIN_MOVE_KM = 0.05;
+
+const worthSending = (last: RiderLocation | null, next: RiderLocation): boolean => {
+  if (!last) return true;
+  const elapsed = Date.parse(next.recordedAt) - Date.parse(last.recordedAt);
+  if (elapsed >= MAX_INTERVAL_MS) return true;
+  return elapsed >= MIN_INTERVAL_MS && distanceKm(last, next) >= MIN_MOVE_KM;
+};
+
+/**
+ * Last known position of every rider, kept current by the positions
+ * riders stream over the notification socket
+ */
+export function useRiderLocations() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const handleLocation = (location: RiderLocation) => {
+      queryClient.setQueryData<RiderLocation[]>(queryKeys.riders.locations(), (current = []) => [
+        ...current.filter((known) => known.riderId !== location.riderId),
+        location,
+      ]);
+    };
+
+    notificationManager.on('rider-location', handleLocation);
+    return () => notificationManager.off('rider-location', handleLocation);
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: queryKeys.riders.locations(),
+    queryFn: async ({ signal }) => unwrap(await apiService.getRiderLocations({ signal })),
+  });
+}
+
+/**
+ * Streams the signed-in rider's position while `enabled`, throttled by
+ * time and distance. Fixes taken while the socket is down are dropped;
+ * only the latest position matters.
+ */
+export function useLocationSharing(riderId: string | undefined, enabled: boolean) {
+  useEffect(() => {
+    if (!riderId || !enabled || !('geolocation' in navigator)) return;
+
+    let last: RiderLocation | null = null;
+    const watchId = navigator.geolocation.watchPosition(
+      ({ coords, timestamp }) => {
+        const next: RiderLocation = {
+          riderId,
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          accuracy: coords.accuracy,
+          heading: Number.isFinite(coords.heading) ? coords.heading : null,
+          speed: Number.isFinite(coords.speed) ? coords.speed : null,
+          recordedAt: new Date(timestamp).toISOString(),
+        };
+        if (worthSending(last, next) && notificationManager.sendLocation(next)) {
+          last = next;
+        }
+      },
+      (error) => console.warn('Location sharing unavailable:', error.message),
+      // Network-grade accuracy is plenty for a map and spares the GPS
+      { enableHighAccuracy: false, maximumAge: MIN_INTERVAL_MS, timeout: MAX_INTERVAL_MS }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [riderId, enabled]);
+}
@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { Rider, RiderDetail, RiderInput } from '@/services/apiSchemas';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * All riders with their delivery counters. Pass `enabled: false` to
+ * defer loading, e.g. until a picker dialog opens.
+ */
+export function useRiders({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.riders.list(),
+    queryFn: async ({ signal }) => unwrap(await apiService.getRiders({ signal })),
+    enabled,
+  });
+}
+
+/**
+ * Single rider with their order history
+ */
+export function useRider(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.riders.detail(id),
+    queryFn: async ({ signal }) => unwrap(await apiService.getRiderById(id, { signal })),
+    enabled: !!id,
+  });
+}
+
+/**
+ * The signed-in rider's delivery dashboard
+ */
+export function useRiderDashboard(riderId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.riders.dashboard(riderId),
+    queryFn: async ({ signal }) => unwrap(await apiService.getRiderDashboard(riderId, { signal })),
+    enabled: !!riderId,
+  });
+}
+
+/**
+ * Create a rider account
+ */
+export function useCreateRider() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RiderInput) => apiService.createRider(input),
+    onSuccess: (response) => {
+      if (!response.success) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.riders.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all });
+    },
+  });
+}
+
+// Merge a changed rider into the cached list and its detail entry
+const patchRiderCaches = (queryClient: ReturnType<typeof useQueryClient>, id: string, changes: Partial<Rider>) => {
+  queryClient.setQueriesData<Rider[]>({ queryKey: queryKeys.riders.lists() }, (riders) =>
+    riders?.map((rider) => (rider.id === id ? { ...rider, ...changes } : rider))
+  );
+  queryClient.setQueryData<RiderDetail>(queryKeys.riders.detail(id), (rider) =>
+    rider ? { ...rider, ...changes } : rider
+  );
+};
+
+/**
+ * Update a rider's profile
+ */
+export function useUpdateRider() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: RiderInput }) => apiService.updateRider(id, input),
+    onSuccess: (response, { id }) => {
+      if (!response.success) return;
+      patchRiderCaches(queryClient, id, response.data);
+      queryClient.invalidateQueries({ queryKey: queryKeys.riders.all });
+    },
+  });
+}
+
+/**
+ * Activate or deactivate a rider, optimistically
+ */
+export function useUpdateRiderStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => apiService.updateRiderStatus(id, isActive),
+    onMutate: async ({ id, isActive }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.riders.all });
+
+      const previousLists = queryClient.getQueriesData<Rider[]>({ queryKey: queryKeys.riders.lists() });
+      const previousDetail = queryClient.getQueryData<RiderDetail>(queryKeys.riders.detail(id));
+      patchRiderCaches(queryClient, id, { isActive });
+
+      return { previousLists, previousDetail };
+    },
+    onError: (_error, { id }, context) => {
+      context?.previousLists.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      if (context?.previousDetail) {
+        queryClient.setQueryData(queryKeys.riders.detail(id), context.previousDetail);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.riders.all });
+    },
+  });
+}
+
+/**
+ * Delete a rider. Their orders may become unassigned, so orders are refetched too.
+ */
+export function useDeleteRider() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiService.deleteRider(id),
+    onSuccess: (response, id) => {
+      if (!response.success) return;
+      queryClient.setQueriesData<Rider[]>({ queryKey: queryKeys.riders.lists() }, (riders) =>
+        riders?.filter((rider) => rider.id !== id)
+      );
+      queryClient.removeQueries({ queryKey: queryKeys.riders.detail(id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.riders.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all });
+    },
+  });
+}
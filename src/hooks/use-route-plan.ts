@@ -0,0 +1,72 @@
+import { useCallback, useState } from 'react';
+import { getCurrentFix } from '@/lib/geolocation';
+import { planRoute } from '@/lib/routePlanner';
+import { todayKey } from '@/lib/subscriptions';
+import type { RiderDelivery } from '@/services/apiSchemas';
+
+const ROUTE_KEY = 'riderRoute';
+
+export interface SavedRoute {
+  riderId: string;
+  date: string;
+  distanceKm: number;
+  // Snapshot of the stops so the route still works without a signal
+  stops: RiderDelivery[];
+}
+
+const loadRoute = (riderId?: string): SavedRoute | null => {
+  try {
+    const route: SavedRoute | null = JSON.parse(localStorage.getItem(ROUTE_KEY) ?? 'null');
+    // Yesterday's route or another rider's is no use
+    return route && route.riderId === riderId && route.date === todayKey() ? route : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveRoute = (route: SavedRoute | null) => {
+  if (route) {
+    localStorage.setItem(ROUTE_KEY, JSON.stringify(route));
+  } else {
+    localStorage.removeItem(ROUTE_KEY);
+  }
+};
+
+/**
+ * The rider's planned route for today, kept on the device so it survives
+ * a reload or a lost signal
+ */
+export function useRoutePlan(riderId?: string) {
+  const [route, setRoute] = useState<SavedRoute | null>(() => loadRoute(riderId));
+
+  const update = useCallback((next: SavedRoute | null) => {
+    saveRoute(next);
+    setRoute(next);
+  }, []);
+
+  // Plans from where the rider is now, or from the first stop without a fix
+  const start = useCallback(
+    async (deliveries: RiderDelivery[]) => {
+      if (!riderId) return;
+      const position = await getCurrentFix();
+      const plan = planRoute(deliveries, position);
+      update({ riderId, date: todayKey(), distanceKm: plan.distanceKm, stops: plan.stops });
+    },
+    [riderId, update]
+  );
+
+  // Moves a stop to the end of the route to come back to later
+  const skip = useCallback(
+    (id: string) => {
+      if (!route) return;
+      const stop = route.stops.find((s) => s.id === id);
+      if (!stop) return;
+      update({ ...route, stops: [...route.stops.filter((s) => s.id !== id), stop] });
+    },
+    [route, update]
+  );
+
+  const finish = useCallback(() => update(null), [update]);
+
+  return { route, start, skip, finish };
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { Rider, RiderDetail, ShiftActionInput } from '@/services/apiSchemas';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * A rider's shifts that started within a range of calendar days
+ */
+export function useRiderShifts(riderId: string | undefined, range: { from: string; to: string }) {
+  return useQuery({
+    queryKey: queryKeys.riders.shifts(riderId, range),
+    queryFn: async ({ signal }) => unwrap(await apiService.getRiderShifts(riderId, range, { signal })),
+    enabled: !!riderId,
+  });
+}
+
+/**
+ * Clock in or out, or start or end a break. The rider's cached profile is
+ * updated straight away so the layout and admin lists reflect the change.
+ */
+export function useShiftAction(riderId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ShiftActionInput) => unwrap(await apiService.updateShift(riderId, input)),
+    onSuccess: (shift) => {
+      const changes: Partial<Rider> = shift.endedAt
+        ? { onShift: false, currentShift: null }
+        : { onShift: true, currentShift: shift };
+      queryClient.setQueriesData<Rider[]>({ queryKey: queryKeys.riders.lists() }, (riders) =>
+        riders?.map((rider) => (rider.id === riderId ? { ...rider, ...changes } : rider))
+      );
+      queryClient.setQueryData<RiderDetail>(queryKeys.riders.detail(riderId), (rider) =>
+        rider ? { ...rider, ...changes } : rider
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.riders.all });
+    },
+  });
+}
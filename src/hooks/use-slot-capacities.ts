@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { SlotCapacity } from '@/services/apiSchemas';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * Per-area delivery slot capacities
+ */
+export function useSlotCapacities({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.slotCapacities.all,
+    queryFn: async ({ signal }) => unwrap(await apiService.getSlotCapacities({ signal })),
+    enabled,
+  });
+}
+
+/**
+ * Save the full capacity table
+ */
+export function useUpdateSlotCapacities() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (capacities: SlotCapacity[]) => apiService.updateSlotCapacities(capacities),
+    onSuccess: (response) => {
+      if (!response.success) return;
+      queryClient.setQueryData(queryKeys.slotCapacities.all, response.data);
+    },
+  });
+}
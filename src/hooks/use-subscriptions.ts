@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { SubscriptionInput } from '@/services/apiSchemas';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+import { planSubscriptionOrders, SUBSCRIPTION_HORIZON_DAYS, todayKey } from '@/lib/subscriptions';
+
+/**
+ * A customer's subscription plans
+ */
+export function useCustomerSubscriptions(customerId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.subscriptions.byCustomer(customerId),
+    queryFn: async ({ signal }) => unwrap(await apiService.getCustomerSubscriptions(customerId, { signal })),
+    enabled: !!customerId,
+  });
+}
+
+/**
+ * Add a subscription plan to a customer
+ */
+export function useCreateSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: SubscriptionInput) => apiService.createSubscription(input),
+    onSuccess: (response) => {
+      if (!response.success) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.subscriptions.all });
+    },
+  });
+}
+
+/**
+ * Edit, pause or resume a subscription plan
+ */
+export function useUpdateSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: SubscriptionInput }) => apiService.updateSubscription(id, input),
+    onSuccess: (response) => {
+      if (!response.success) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.subscriptions.all });
+    },
+  });
+}
+
+/**
+ * Create the orders every active customer's subscriptions need over the next
+ * SUBSCRIPTION_HORIZON_DAYS days. Safe to run repeatedly: deliveries that
+ * already have an order are skipped, and each create carries an idempotency
+ * key so two admins generating at once cannot double up.
+ */
+export function useGenerateSubscriptionOrders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const [subscriptions, holidays, orders, customers] = await Promise.all([
+        apiService.getSubscriptions().then(unwrap),
+        apiService.getHolidays().then(unwrap),
+        apiService.getOrders().then(unwrap),
+        apiService.getCustomers().then(unwrap),
+      ]);
+
+      const activeCustomerIds = new Set(
+        customers.filter((customer) => customer.isActive !== false).map((customer) => customer.id)
+      );
+      const planned = planSubscriptionOrders(subscriptions, orders, activeCustomerIds, {
+        from: todayKey(),
+        days: SUBSCRIPTION_HORIZON_DAYS,
+        holidays: new Set(holidays.map((holiday) => holiday.date)),
+      });
+
+      // One at a time so a failure leaves a clear point to resume from
+      for (const { subscription, date } of planned) {
+        await apiService.createOrder(
+          {
+            customerId: subscription.customerId,
+            items: [{ productId: subscription.productId, quantity: subscription.quantity }],
+            priority: 'NORMAL',
+            scheduledDate: date,
+            deliverySlot: subscription.preferredSlot ?? undefined,
+            subscriptionId: subscription.id,
+          },
+          { idempotencyKey: `subscription-${subscription.id}-${date}` }
+        ).then(unwrap);
+      }
+
+      return planned.length;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.details() });
+    },
+  });
+}
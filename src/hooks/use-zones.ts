@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '@/services/api';
+import type { DeliveryZone, DeliveryZoneInput } from '@/services/apiSchemas';
+import { queryKeys } from '@/lib/queryKeys';
+import { unwrap } from '@/lib/queryClient';
+
+/**
+ * Every delivery zone, including inactive ones. Pass `enabled: false` to
+ * defer loading, e.g. until a dialog opens.
+ */
+export function useZones({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.zones.all,
+    queryFn: async ({ signal }) => unwrap(await apiService.getZones({ signal })),
+    // Zones change about as often as the catalog
+    staleTime: 5 * 60 * 1000,
+    enabled,
+  });
+}
+
+/**
+ * Add a delivery zone. Customers inside its boundary are filed into it,
+ * so customer lists are refetched too.
+ */
+export function useCreateZone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: DeliveryZoneInput) => apiService.createZone(input),
+    onSuccess: (response) => {
+      if (!response.success) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.zones.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+/**
+ * Edit a zone's name, boundary, charge or default rider
+ */
+export function useUpdateZone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: DeliveryZoneInput }) => apiService.updateZone(id, input),
+    onSuccess: (response, { id }) => {
+      if (!response.success) return;
+      queryClient.setQueryData<DeliveryZone[]>(queryKeys.zones.all, (zones) =>
+        zones?.map((zone) => (zone.id === id ? response.data : zone))
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.zones.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+/**
+ * Delete a zone; its customers and orders are left without one
+ */
+export function useDeleteZone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiService.deleteZone(id),
+    onSuccess: (response, id) => {
+      if (!response.success) return;
+      queryClient.setQueryData<DeliveryZone[]>(queryKeys.zones.all, (zones) =>
+        zones?.filter((zone) => zone.id !== id)
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
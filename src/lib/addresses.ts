@@ -0,0 +1,144 @@
+/**
+ * Addresses
+ * Customers' delivery addresses and the copy each order keeps. Customers
+ * and orders from before structured addresses only have the flat
+ * houseNo/streetNo/area/city fields, which stand in as a single home address.
+ */
+
+import type {
+  AddressLabel,
+  Customer,
+  CustomerAddress,
+  CustomerInput,
+  CustomerRef,
+  Order,
+} from '@/services/apiSchemas';
+import type { LatLng } from './routePlanner';
+
+export const ADDRESS_LABEL_NAMES: Record<AddressLabel, string> = {
+  HOME: 'Home',
+  OFFICE: 'Office',
+  OTHER: 'Other',
+};
+
+type AddressLines = Pick<CustomerAddress, 'houseNo' | 'streetNo' | 'area' | 'city'>;
+
+export const formatAddress = (address: AddressLines | null | undefined): string =>
+  address ? [address.houseNo, address.streetNo, address.area, address.city].filter(Boolean).join(', ') : '';
+
+const legacyAddress = (customer: Customer | CustomerRef): CustomerAddress | null =>
+  (formatAddress(customer) || customer.latitude != null)
+    ? {
+        label: 'HOME',
+        houseNo: customer.houseNo,
+        streetNo: customer.streetNo,
+        area: customer.area,
+        city: customer.city,
+        latitude: customer.latitude,
+        longitude: customer.longitude,
+        isDefault: true,
+      }
+    : null;
+
+export const customerAddresses = (customer: Customer): CustomerAddress[] => {
+  if (customer.addresses.length > 0) return customer.addresses;
+  const legacy = legacyAddress(customer);
+  return legacy ? [legacy] : [];
+};
+
+export const defaultAddress = (customer: Customer): CustomerAddress | null => {
+  const addresses = customerAddresses(customer);
+  return addresses.find((address) => address.isDefault) ?? addresses[0] ?? null;
+};
+
+// Where an order goes: its own copy, or its customer's address for older orders
+export const orderAddress = (order: Order): CustomerAddress | null =>
+  order.deliveryAddress ?? (order.customer ? legacyAddress(order.customer) : null);
+
+export const orderArea = (order: Order): string | null => orderAddress(order)?.area ?? null;
+
+export const addressLocation = (address: CustomerAddress | null | undefined): LatLng | null =>
+  address?.latitude != null && address.longitude != null
+    ? { latitude: address.latitude, longitude: address.longitude }
+    : null;
+
+// Kept as strings while editing so inputs can be cleared
+export interface AddressFormValue {
+  id?: string;
+  label: AddressLabel;
+  houseNo: string;
+  streetNo: string;
+  area: string;
+  city: string;
+  landmark: string;
+  instructions: string;
+  location: LatLng | null;
+  isDefault: boolean;
+}
+
+export const emptyAddressForm = (label: AddressLabel, isDefault: boolean): AddressFormValue => ({
+  label,
+  houseNo: '',
+  streetNo: '',
+  area: '',
+  city: '',
+  landmark: '',
+  instructions: '',
+  location: null,
+  isDefault,
+});
+
+export const toAddressForm = (address: CustomerAddress): AddressFormValue => ({
+  id: address.id,
+  label: address.label,
+  houseNo: address.houseNo || '',
+  streetNo: address.streetNo || '',
+  area: address.area || '',
+  city: address.city || '',
+  landmark: address.landmark || '',
+  instructions: address.instructions || '',
+  location: addressLocation(address),
+  isDefault: address.isDefault,
+});
+
+// Blank rows are dropped; if the default one was among them, the first
+// remaining address takes over
+export const fromAddressForms = (forms: AddressFormValue[]): CustomerAddress[] => {
+  const addresses = forms
+    .filter(
+      (form) =>
+        [form.houseNo, form.streetNo, form.area, form.city, form.landmark].some((field) => field.trim()) ||
+        form.location
+    )
+    .map((form) => ({
+      id: form.id,
+      label: form.label,
+      houseNo: form.houseNo.trim() || null,
+      streetNo: form.streetNo.trim() || null,
+      area: form.area.trim() || null,
+      city: form.city.trim() || null,
+      landmark: form.landmark.trim() || null,
+      instructions: form.instructions.trim() || null,
+      latitude: form.location?.latitude ?? null,
+      longitude: form.location?.longitude ?? null,
+      isDefault: form.isDefault,
+    }));
+  const defaultIndex = Math.max(addresses.findIndex((address) => address.isDefault), 0);
+  return addresses.map((address, i) => ({ ...address, isDefault: i === defaultIndex }));
+};
+
+// The default address in the customer's flat fields, for screens and
+// reports that have not moved to addresses
+export const flatAddressFields = (
+  addresses: CustomerAddress[]
+): Pick<CustomerInput, 'houseNo' | 'streetNo' | 'area' | 'city' | 'latitude' | 'longitude'> => {
+  const address = addresses.find((candidate) => candidate.isDefault);
+  return {
+    houseNo: address?.houseNo ?? null,
+    streetNo: address?.streetNo ?? null,
+    area: address?.area ?? null,
+    city: address?.city ?? null,
+    latitude: address?.latitude ?? null,
+    longitude: address?.longitude ?? null,
+  };
+};
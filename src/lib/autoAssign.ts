@@ -0,0 +1,151 @@
+/**
+ * Auto-assignment
+ * Scores riders for an order by delivery area and zone, open orders,
+ * vehicle capacity and shift, and plans a balanced assignment for a batch of
+ * pending orders. Proposals are only suggestions; the admin applies them.
+ */
+
+import type { DeliveryZone, Order, OrderPriority, Rider } from '@/services/apiSchemas';
+import { orderArea } from './addresses';
+import { isOnRoute, riderLoad, type RiderLoad } from './dispatch';
+import { returnableQuantity } from './pricing';
+import { riderShiftState } from './shifts';
+import { sameArea } from './slots';
+import { orderZone } from './zones';
+
+// Score weights: one open order costs about a fifth of an area match
+const AREA_MATCH = 50;
+const AREA_MISMATCH = -30;
+// The zone's own rider edges out an equally loaded rider who merely covers the area
+const ZONE_DEFAULT_RIDER = 30;
+const PER_OPEN_ORDER = -10;
+// Going over the vehicle's capacity means an extra trip back to the plant
+const EXTRA_TRIP = -40;
+
+const PRIORITY_RANK: Record<OrderPriority, number> = { URGENT: 0, HIGH: 1, NORMAL: 2, LOW: 3 };
+
+// What the engine needs to know about an order, so orders that are still
+// being created can be scored too
+export interface AssignmentJob {
+  area?: string | null;
+  bottles: number;
+  // The delivery zone's preferred rider
+  defaultRiderId?: string | null;
+}
+
+export interface RiderScore {
+  rider: Rider;
+  score: number;
+  // Short explanations, e.g. "covers Model Town"
+  reasons: string[];
+}
+
+export interface AssignmentProposal {
+  order: Order;
+  // Null when no rider can take the order
+  best: RiderScore | null;
+}
+
+const EMPTY_LOAD: RiderLoad = { orders: 0, bottles: 0 };
+
+export const jobFor = (order: Order, zones: DeliveryZone[] = []): AssignmentJob => ({
+  area: orderArea(order),
+  bottles: returnableQuantity(order.items),
+  defaultRiderId: orderZone(order, zones)?.defaultRiderId,
+});
+
+/**
+ * Current load of each rider from the orders on their route
+ */
+export const loadsByRider = (orders: Order[]): Map<string, RiderLoad> => {
+  const onRoute = new Map<string, Order[]>();
+  for (const order of orders) {
+    if (!order.riderId || !isOnRoute(order)) continue;
+    onRoute.set(order.riderId, [...(onRoute.get(order.riderId) ?? []), order]);
+  }
+  return new Map([...onRoute].map(([riderId, riderOrders]) => [riderId, riderLoad(riderOrders)]));
+};
+
+/**
+ * How well a rider suits a job given what they already carry, or null
+ * when they cannot take it (inactive, off shift or on a break)
+ */
+export const scoreRider = (rider: Rider, job: AssignmentJob, load: RiderLoad = EMPTY_LOAD): RiderScore | null => {
+  if (!rider.isActive || riderShiftState(rider) !== 'ON') return null;
+
+  let score = PER_OPEN_ORDER * load.orders;
+  const reasons: string[] = [];
+
+  // Riders without areas cover everywhere and get neither bonus nor penalty
+  if (rider.areas.length > 0 && job.area) {
+    if (rider.areas.some((area) => sameArea(area, job.area))) {
+      score += AREA_MATCH;
+      reasons.push(`covers ${job.area}`);
+    } else {
+      score += AREA_MISMATCH;
+      reasons.push('outside their areas');
+    }
+  }
+
+  if (job.defaultRiderId && rider.id === job.defaultRiderId) {
+    score += ZONE_DEFAULT_RIDER;
+    reasons.push('default rider for the zone');
+  }
+
+  reasons.push(load.orders === 0 ? 'no open orders' : `${load.orders} open ${load.orders === 1 ? 'order' : 'orders'}`);
+
+  if (rider.tripCapacity != null) {
+    const spare = rider.tripCapacity - load.bottles - job.bottles;
+    if (spare < 0) {
+      score += EXTRA_TRIP;
+      reasons.push('needs another trip');
+    } else {
+      reasons.push(`${spare} bottles spare`);
+    }
+  }
+
+  return { rider, score, reasons };
+};
+
+/**
+ * Riders who can take a job, best first
+ */
+export const rankRiders = (job: AssignmentJob, riders: Rider[], loads: Map<string, RiderLoad>): RiderScore[] =>
+  riders
+    .map((rider) => scoreRider(rider, job, loads.get(rider.id)))
+    .filter((score): score is RiderScore => score !== null)
+    .sort((a, b) => b.score - a.score);
+
+/**
+ * Balanced plan for a batch of pending orders. Urgent and larger orders
+ * are placed first, and each placement adds to that rider's load before
+ * the next order is scored, so work spreads out instead of piling onto
+ * whoever looked best at the start. Proposals come back in input order.
+ */
+export const proposeBatch = (
+  pending: Order[],
+  riders: Rider[],
+  orders: Order[],
+  zones: DeliveryZone[] = []
+): AssignmentProposal[] => {
+  const loads = loadsByRider(orders);
+  const best = new Map<string, RiderScore | null>();
+
+  const queue = [...pending].sort(
+    (a, b) =>
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || returnableQuantity(b.items) - returnableQuantity(a.items)
+  );
+
+  for (const order of queue) {
+    const job = jobFor(order, zones);
+    const [top] = rankRiders(job, riders, loads);
+    best.set(order.id, top ?? null);
+
+    if (top) {
+      const load = loads.get(top.rider.id) ?? EMPTY_LOAD;
+      loads.set(top.rider.id, { orders: load.orders + 1, bottles: load.bottles + job.bottles });
+    }
+  }
+
+  return pending.map((order) => ({ order, best: best.get(order.id) ?? null }));
+};
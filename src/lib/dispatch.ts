@@ -0,0 +1,34 @@
+/**
+ * Dispatch helpers
+ * How the dispatch board sizes up each rider's load and turns dropping an
+ * order on a column into a lifecycle action.
+ */
+
+import { nextStatus } from '@/services/orderLifecycle';
+import type { Order, OrderAction } from '@/services/apiSchemas';
+import { returnableQuantity } from './pricing';
+
+// Orders a rider is carrying or about to set out with
+export const isOnRoute = (order: Order): boolean => order.status === 'ASSIGNED' || order.status === 'IN_PROGRESS';
+
+export interface RiderLoad {
+  orders: number;
+  // Full returnable jars to load onto the vehicle
+  bottles: number;
+}
+
+export const riderLoad = (orders: Order[]): RiderLoad => ({
+  orders: orders.length,
+  bottles: orders.reduce((sum, order) => sum + returnableQuantity(order.items), 0),
+});
+
+/**
+ * Action that moves an order to `riderId`, or back to the pool when null.
+ * Null when the order is already there or cannot move from its status.
+ */
+export const dropAction = (order: Order, riderId: string | null): OrderAction | null => {
+  if ((order.riderId ?? null) === riderId) return null;
+
+  const candidates: OrderAction[] = riderId === null ? ['UNASSIGN'] : ['ASSIGN', 'REASSIGN'];
+  return candidates.find((action) => nextStatus(order.status, action) !== null) ?? null;
+};
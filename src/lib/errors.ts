@@ -0,0 +1,51 @@
+/**
+ * Error Policy
+ * One place that decides what the user is told about a failed request
+ */
+
+import { toast } from 'sonner';
+import {
+  ApiError,
+  ConflictError,
+  NetworkError,
+  ResponseValidationError,
+  SessionExpiredError,
+  TimeoutError,
+  ValidationError,
+  isAbortError,
+  type FieldErrors,
+} from '@/services/apiErrors';
+
+/**
+ * Whether the user should hear about this error at all. Cancelled
+ * requests are intentional and expired sessions already redirect to login.
+ */
+export const isReportable = (error: unknown): boolean =>
+  !isAbortError(error) && !(error instanceof SessionExpiredError);
+
+/**
+ * A user-facing sentence for any error, falling back to `fallback`
+ * when the error carries nothing better
+ */
+export const getErrorMessage = (error: unknown, fallback = 'Something went wrong. Please try again.'): string => {
+  if (error instanceof NetworkError) return 'You appear to be offline. Check your connection and try again.';
+  if (error instanceof TimeoutError) return 'The server is taking too long to respond. Please try again.';
+  if (error instanceof ResponseValidationError) return 'The server sent an unexpected response. Please refresh the page.';
+  if (error instanceof ApiError) return error.message || fallback;
+  return fallback;
+};
+
+/**
+ * Per-field messages carried by a validation or conflict error, if any
+ */
+export const getFieldErrors = (error: unknown): FieldErrors =>
+  error instanceof ValidationError || error instanceof ConflictError ? error.fieldErrors : {};
+
+/**
+ * Log and toast an error according to the shared policy
+ */
+export const reportError = (error: unknown, fallback?: string): void => {
+  if (!isReportable(error)) return;
+  console.error(error);
+  toast.error(getErrorMessage(error, fallback));
+};
@@ -0,0 +1,27 @@
+/**
+ * Geolocation helpers
+ */
+
+import type { GeoFix } from '@/services/apiSchemas';
+
+/**
+ * One GPS fix for tagging a delivery. Resolves to null instead of
+ * rejecting when location is denied, unavailable or too slow, since
+ * a delivery must never be blocked on it.
+ */
+export const getCurrentFix = (timeout = 10000): Promise<GeoFix | null> =>
+  new Promise((resolve) => {
+    if (!('geolocation' in navigator)) {
+      resolve(null);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy }),
+      (error) => {
+        console.warn('Location unavailable:', error.message);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, timeout, maximumAge: 60000 }
+    );
+  });
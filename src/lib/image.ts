@@ -0,0 +1,40 @@
+/**
+ * Image helpers
+ * Client-side compression so proof photos upload quickly on mobile data
+ */
+
+interface CompressOptions {
+  // Longest edge of the output in pixels
+  maxDimension?: number;
+  // JPEG quality between 0 and 1
+  quality?: number;
+}
+
+/**
+ * Promise wrapper around canvas.toBlob
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), type, quality);
+  });
+
+/**
+ * Downscale and re-encode a camera photo as JPEG. Phone cameras produce
+ * 3-5 MB images; this typically brings them under 300 KB.
+ */
+export const compressImage = async (file: Blob, options: CompressOptions = {}): Promise<Blob> => {
+  const { maxDimension = 1280, quality = 0.7 } = options;
+
+  // createImageBitmap honours EXIF orientation, so portrait shots stay upright
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const compressed = await canvasToBlob(canvas, 'image/jpeg', quality);
+  return compressed.size < file.size ? compressed : file;
+};
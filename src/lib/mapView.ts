@@ -0,0 +1,159 @@
+/**
+ * Map view
+ * Lays out a map background and projects positions onto it, for whichever
+ * source is configured in config/map. Tile sources use Web Mercator and
+ * either zoom to fit the points or centre on one at a given zoom; an image
+ * source is stretched over its bounds.
+ */
+
+import type { ImageMapSource, MapSource, TileMapSource } from '@/config/map';
+import type { LatLng } from './routePlanner';
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+// How close to zoom in on a single point
+const CLOSE_ZOOM = 16;
+// Keeps markers clear of the edges
+const PADDING = 40;
+// Web Mercator stops short of the poles
+const MAX_LATITUDE = 85.0511;
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapTile {
+  key: string;
+  url: string;
+  // Top-left corner in the container
+  x: number;
+  y: number;
+}
+
+export interface MapView {
+  tiles: MapTile[];
+  // Set for image sources, which cover the whole container
+  imageUrl?: string;
+  project: (point: LatLng) => ScreenPoint;
+  // Position under a point in the container, e.g. where it was clicked
+  unproject: (point: ScreenPoint) => LatLng;
+}
+
+const worldPixel = ({ latitude, longitude }: LatLng, zoom: number): ScreenPoint => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude));
+  const sin = Math.sin((clamped * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+const fromWorldPixel = ({ x, y }: ScreenPoint, zoom: number): LatLng => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  return {
+    latitude: (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / scale))) * 180) / Math.PI,
+    longitude: (x / scale) * 360 - 180,
+  };
+};
+
+const extent = (pixels: ScreenPoint[]) => {
+  const xs = pixels.map(({ x }) => x);
+  const ys = pixels.map(({ y }) => y);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+};
+
+// Closest zoom at which every point fits inside the padded container
+const fitZoom = (points: LatLng[], width: number, height: number, maxZoom: number): number => {
+  for (let zoom = Math.min(maxZoom, CLOSE_ZOOM); zoom > MIN_ZOOM; zoom--) {
+    const { minX, maxX, minY, maxY } = extent(points.map((point) => worldPixel(point, zoom)));
+    if (maxX - minX <= width - 2 * PADDING && maxY - minY <= height - 2 * PADDING) return zoom;
+  }
+  return MIN_ZOOM;
+};
+
+// `center` is in world pixels at `zoom`
+const tileView = (
+  source: TileMapSource,
+  center: ScreenPoint,
+  zoom: number,
+  width: number,
+  height: number
+): MapView => {
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: MapTile[] = [];
+  for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + height) / TILE_SIZE); ty++) {
+    if (ty < 0 || ty >= tileCount) continue;
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+      // Wrap around the antimeridian
+      const wrapped = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${zoom}/${tx}/${ty}`,
+        url: source.urlTemplate
+          .replace('{z}', String(zoom))
+          .replace('{x}', String(wrapped))
+          .replace('{y}', String(ty)),
+        x: tx * TILE_SIZE - left,
+        y: ty * TILE_SIZE - top,
+      });
+    }
+  }
+
+  return {
+    tiles,
+    project: (point) => {
+      const pixel = worldPixel(point, zoom);
+      return { x: pixel.x - left, y: pixel.y - top };
+    },
+    unproject: ({ x, y }) => fromWorldPixel({ x: x + left, y: y + top }, zoom),
+  };
+};
+
+const imageView = (source: ImageMapSource, width: number, height: number): MapView => {
+  const { north, south, east, west } = source.bounds;
+  return {
+    tiles: [],
+    imageUrl: source.url,
+    project: ({ latitude, longitude }) => ({
+      x: ((longitude - west) / (east - west)) * width,
+      y: ((north - latitude) / (north - south)) * height,
+    }),
+    unproject: ({ x, y }) => ({
+      latitude: north - (y / height) * (north - south),
+      longitude: west + (x / width) * (east - west),
+    }),
+  };
+};
+
+/**
+ * Background and projection for a `width` x `height` container showing
+ * `points`
+ */
+export const mapView = (source: MapSource, points: LatLng[], width: number, height: number): MapView => {
+  if (source.kind === 'image') return imageView(source, width, height);
+  if (points.length === 0) return centeredMapView(source, { latitude: 0, longitude: 0 }, MIN_ZOOM, width, height);
+
+  const zoom = fitZoom(points, width, height, source.maxZoom);
+  const { minX, maxX, minY, maxY } = extent(points.map((point) => worldPixel(point, zoom)));
+  return tileView(source, { x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, zoom, width, height);
+};
+
+/**
+ * Background and projection centred on `center` at `zoom`; an image source
+ * always shows all of itself
+ */
+export const centeredMapView = (
+  source: MapSource,
+  center: LatLng,
+  zoom: number,
+  width: number,
+  height: number
+): MapView =>
+  source.kind === 'image'
+    ? imageView(source, width, height)
+    : tileView(source, worldPixel(center, zoom), zoom, width, height);
+
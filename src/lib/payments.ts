@@ -0,0 +1,62 @@
+/**
+ * Payment helpers
+ * Shared rules for turning amounts collected into payment state, and for
+ * squaring the cash riders hand back with what they collected
+ */
+
+import type { CashSettlement, PaymentStatus } from '@/services/apiSchemas';
+
+// Compare in paise so 0.1 + 0.2 style rounding never flips a status
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Payment status of an order given what was collected against its total
+ */
+export const derivePaymentStatus = (paidAmount: number, totalAmount: number): PaymentStatus => {
+  const paid = toPaise(paidAmount);
+  const total = toPaise(totalAmount);
+
+  if (paid <= 0) return 'NOT_PAID';
+  if (paid < total) return 'PARTIAL';
+  if (paid === total) return 'PAID';
+  return 'OVERPAID';
+};
+
+/**
+ * Customer balance after settling an order: negative is due, positive is credit
+ */
+export const balanceAfterPayment = (currentBalance: number, paidAmount: number, totalAmount: number): number =>
+  (toPaise(currentBalance) + toPaise(paidAmount) - toPaise(totalAmount)) / 100;
+
+export type SettlementOutcome = 'EXACT' | 'SHORT' | 'EXCESS';
+
+export const SETTLEMENT_OUTCOME_LABELS: Record<SettlementOutcome, string> = {
+  EXACT: 'Exact',
+  SHORT: 'Short',
+  EXCESS: 'Excess',
+};
+
+/**
+ * Counted cash less what the rider should have handed back: negative when
+ * short, positive when over
+ */
+export const cashDifference = (countedAmount: number, expectedAmount: number): number =>
+  (toPaise(countedAmount) - toPaise(expectedAmount)) / 100;
+
+export const settlementOutcome = (difference: number): SettlementOutcome => {
+  const paise = toPaise(difference);
+  if (paise < 0) return 'SHORT';
+  if (paise > 0) return 'EXCESS';
+  return 'EXACT';
+};
+
+/**
+ * Shortages and excesses across settlements, each as a positive amount
+ */
+export const settlementTotals = (settlements: CashSettlement[]): { shortage: number; excess: number } => {
+  const differences = settlements.map((settlement) => toPaise(settlement.difference));
+  return {
+    shortage: Math.abs(differences.filter((paise) => paise < 0).reduce((sum, paise) => sum + paise, 0)) / 100,
+    excess: differences.filter((paise) => paise > 0).reduce((sum, paise) => sum + paise, 0) / 100,
+  };
+};
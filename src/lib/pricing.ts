@@ -0,0 +1,127 @@
+/**
+ * Pricing helpers
+ * Client-side order totals for previews. The backend prices the order
+ * from the customer's pricing when it is created, so these only need to
+ * agree with it: an override beats the customer's price list, which beats
+ * the catalog, and the best volume discount comes off the subtotal.
+ */
+
+import type { Customer, OrderItem, PriceList, Product, VolumeDiscount } from '@/services/apiSchemas';
+
+export interface DraftLine {
+  productId: string;
+  quantity: number;
+}
+
+export type PriceSource = 'catalog' | 'priceList' | 'override';
+
+export interface PricedLine extends DraftLine {
+  product: Product;
+  unitPrice: number;
+  lineTotal: number;
+  priceSource: PriceSource;
+}
+
+// What a customer is charged, resolved from their record
+export interface CustomerPricing {
+  priceList: PriceList | null;
+  overrides: Customer['priceOverrides'];
+  volumeDiscounts: VolumeDiscount[];
+}
+
+export interface OrderQuote {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: VolumeDiscount | null;
+  discountAmount: number;
+  deliveryCharge: number;
+  total: number;
+}
+
+// Round to the paisa so line totals add up the way the backend does
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * The customer's price list, or the default one when none is assigned
+ */
+export const customerPricing = (customer: Customer | null, priceLists: PriceList[]): CustomerPricing => ({
+  priceList:
+    priceLists.find((list) => list.id === customer?.priceListId) ??
+    priceLists.find((list) => list.isDefault) ??
+    null,
+  overrides: customer?.priceOverrides ?? [],
+  volumeDiscounts: customer?.volumeDiscounts ?? [],
+});
+
+/**
+ * What one unit of a product costs under the given pricing
+ */
+export const resolveUnitPrice = (
+  product: Product,
+  pricing?: CustomerPricing
+): { unitPrice: number; priceSource: PriceSource } => {
+  const override = pricing?.overrides.find((price) => price.productId === product.id);
+  if (override) return { unitPrice: override.unitPrice, priceSource: 'override' };
+
+  const listed = pricing?.priceList?.prices.find((price) => price.productId === product.id);
+  if (listed) return { unitPrice: listed.unitPrice, priceSource: 'priceList' };
+
+  return { unitPrice: product.unitPrice, priceSource: 'catalog' };
+};
+
+/**
+ * Attach prices to draft lines, dropping lines whose product is unknown
+ * or whose quantity is not positive
+ */
+export const priceLines = (lines: DraftLine[], products: Product[], pricing?: CustomerPricing): PricedLine[] =>
+  lines.flatMap((line) => {
+    const product = products.find((p) => p.id === line.productId);
+    if (!product || line.quantity <= 0) return [];
+
+    const { unitPrice, priceSource } = resolveUnitPrice(product, pricing);
+    return [{ ...line, product, unitPrice, priceSource, lineTotal: roundMoney(unitPrice * line.quantity) }];
+  });
+
+/**
+ * The largest discount whose threshold the order's total quantity reaches
+ */
+export const applicableDiscount = (quantity: number, discounts: VolumeDiscount[]): VolumeDiscount | null =>
+  discounts
+    .filter((discount) => quantity >= discount.minQuantity)
+    .reduce<VolumeDiscount | null>((best, discount) => (!best || discount.percentOff > best.percentOff ? discount : best), null);
+
+/**
+ * Subtotal, volume discount and total for priced lines, plus the delivery
+ * zone's charge, which the discount does not apply to
+ */
+export const quoteOrder = (
+  lines: PricedLine[],
+  volumeDiscounts: VolumeDiscount[] = [],
+  deliveryCharge = 0
+): OrderQuote => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const discount = applicableDiscount(quantity, volumeDiscounts);
+  const discountAmount = discount ? roundMoney((subtotal * discount.percentOff) / 100) : 0;
+
+  return {
+    lines,
+    subtotal,
+    discount,
+    discountAmount,
+    deliveryCharge,
+    total: roundMoney(subtotal - discountAmount + deliveryCharge),
+  };
+};
+
+/**
+ * One-line description of an order's items, e.g. "2 × 19L Jar, 1 × Dispenser"
+ */
+export const summarizeItems = (items: OrderItem[]): string =>
+  items.map((item) => `${item.quantity} × ${item.productName}`).join(', ');
+
+/**
+ * How many returnable containers an order sends out
+ */
+export const returnableQuantity = (items: OrderItem[]): number =>
+  items.reduce((sum, item) => sum + (item.isReturnable ? item.quantity : 0), 0);
@@ -0,0 +1,48 @@
+/**
+ * Query Client
+ * Shared TanStack Query client and helpers for building hooks on ApiService
+ */
+
+import { QueryCache, QueryClient } from '@tanstack/react-query';
+import type { ApiResponse } from '@/services/apiSchemas';
+import { sessionManager } from '@/services/sessionManager';
+import { offlineOutbox } from '@/services/offlineOutbox';
+import { queryKeys } from '@/lib/queryKeys';
+import { reportError } from '@/lib/errors';
+
+export const queryClient = new QueryClient({
+  // Failed loads are reported once here instead of by every page
+  queryCache: new QueryCache({
+    onError: (error) => reportError(error, 'Failed to load data. Please try again.'),
+  }),
+  defaultOptions: {
+    queries: {
+      // Serve cached lists instantly when navigating back, refetching in the background
+      staleTime: 30 * 1000,
+      // ApiService already retries network errors and 5xx with backoff
+      retry: false,
+    },
+  },
+});
+
+// Never show one user's cached data to the next user on this device
+sessionManager.on('ended', () => queryClient.clear());
+
+// Queued rider changes reached the server; pick up their effects
+offlineOutbox.on('synced', () => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+  queryClient.invalidateQueries({ queryKey: queryKeys.riders.all });
+  queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+  queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all });
+});
+
+/**
+ * Unwrap the `{ success, data, message }` envelope, turning an
+ * unsuccessful response into a query error
+ */
+export const unwrap = <T>(response: ApiResponse<T>): T => {
+  if (!response.success) {
+    throw new Error(response.message || response.error || 'Request failed');
+  }
+  return response.data;
+};
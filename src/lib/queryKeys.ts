@@ -0,0 +1,80 @@
+/**
+ * Query Keys
+ * Central registry of TanStack Query keys. Keys are hierarchical so a
+ * mutation can invalidate e.g. every order list with `queryKeys.orders.lists()`.
+ */
+
+import type { OrderStatus } from '@/services/apiSchemas';
+
+export const queryKeys = {
+  dashboard: {
+    all: ['dashboard'] as const,
+    stats: () => [...queryKeys.dashboard.all, 'stats'] as const,
+    activities: () => [...queryKeys.dashboard.all, 'activities'] as const,
+  },
+
+  orders: {
+    all: ['orders'] as const,
+    lists: () => [...queryKeys.orders.all, 'list'] as const,
+    list: (status?: OrderStatus) => [...queryKeys.orders.lists(), { status }] as const,
+    details: () => [...queryKeys.orders.all, 'detail'] as const,
+    detail: (id: string) => [...queryKeys.orders.details(), id] as const,
+  },
+
+  customers: {
+    all: ['customers'] as const,
+    lists: () => [...queryKeys.customers.all, 'list'] as const,
+    list: (status?: string) => [...queryKeys.customers.lists(), { status }] as const,
+    details: () => [...queryKeys.customers.all, 'detail'] as const,
+    detail: (id: string) => [...queryKeys.customers.details(), id] as const,
+  },
+
+  products: {
+    all: ['products'] as const,
+    lists: () => [...queryKeys.products.all, 'list'] as const,
+    list: () => [...queryKeys.products.lists()] as const,
+  },
+
+  subscriptions: {
+    all: ['subscriptions'] as const,
+    lists: () => [...queryKeys.subscriptions.all, 'list'] as const,
+    list: () => [...queryKeys.subscriptions.lists()] as const,
+    byCustomer: (customerId: string) => [...queryKeys.subscriptions.lists(), { customerId }] as const,
+  },
+
+  holidays: {
+    all: ['holidays'] as const,
+  },
+
+  slotCapacities: {
+    all: ['slotCapacities'] as const,
+  },
+
+  deliverySettings: {
+    all: ['deliverySettings'] as const,
+  },
+
+  zones: {
+    all: ['zones'] as const,
+  },
+
+  priceLists: {
+    all: ['priceLists'] as const,
+    lists: () => [...queryKeys.priceLists.all, 'list'] as const,
+    list: () => [...queryKeys.priceLists.lists()] as const,
+  },
+
+  riders: {
+    all: ['riders'] as const,
+    lists: () => [...queryKeys.riders.all, 'list'] as const,
+    list: () => [...queryKeys.riders.lists()] as const,
+    details: () => [...queryKeys.riders.all, 'detail'] as const,
+    detail: (id: string) => [...queryKeys.riders.details(), id] as const,
+    dashboard: (riderId: string) => [...queryKeys.riders.all, 'dashboard', riderId] as const,
+    locations: () => [...queryKeys.riders.all, 'locations'] as const,
+    shifts: (riderId: string, range?: { from: string; to: string }) =>
+      [...queryKeys.riders.all, 'shifts', riderId, { range }] as const,
+    cash: (riderId: string) => [...queryKeys.riders.all, 'cash', riderId] as const,
+    settlements: (riderId: string) => [...queryKeys.riders.all, 'settlements', riderId] as const,
+  },
+};
@@ -0,0 +1,116 @@
+/**
+ * Refill prediction
+ * Learns how often each customer actually runs out from their delivered
+ * orders and predicts the next refill. Falls back to the avgDaysToRefill
+ * entered on the customer until there is enough history to learn from.
+ */
+
+import type { Customer, Order } from '@/services/apiSchemas';
+
+// Only recent gaps count, so a change in habits shows up within a few orders
+const HISTORY_INTERVALS = 5;
+// Flag customers this many days before their predicted refill
+export const REFILL_DUE_WINDOW_DAYS = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A failed order is still owed to the customer until it is rescheduled or cancelled
+const OPEN_STATUSES = ['PENDING', 'ASSIGNED', 'IN_PROGRESS', 'FAILED'];
+
+export type RefillStatus = 'overdue' | 'due' | 'upcoming';
+
+export interface RefillPrediction {
+  customer: Customer;
+  lastDeliveredAt: Date;
+  intervalDays: number;
+  // 'history' once at least one gap between deliveries is known
+  source: 'history' | 'profile';
+  deliveriesUsed: number;
+  nextRefillAt: Date;
+  // Calendar days away: 0 on the day itself, negative when overdue
+  daysUntilRefill: number;
+  status: RefillStatus;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Typical days between deliveries. The median keeps one skipped week or a
+ * same-day top-up from skewing the estimate.
+ */
+export const learnInterval = (deliveryTimes: number[]): number | null => {
+  const gaps = deliveryTimes
+    .slice(1)
+    .map((time, index) => (time - deliveryTimes[index]) / DAY_MS)
+    // Two drops on the same day are one refill
+    .filter((gap) => gap >= 0.5)
+    .slice(-HISTORY_INTERVALS);
+
+  return gaps.length > 0 ? median(gaps) : null;
+};
+
+// Local midnight, so day counts agree with the dates shown beside them
+const startOfDay = (time: number) => new Date(time).setHours(0, 0, 0, 0);
+
+// Rounded because a day across a DST change is not exactly DAY_MS long
+const calendarDaysBetween = (from: number, to: number) => Math.round((startOfDay(to) - startOfDay(from)) / DAY_MS);
+
+/**
+ * Predict the next refill for one customer, or null when there is neither
+ * a delivery to count from nor an interval to count with
+ */
+export const predictRefill = (customer: Customer, deliveredOrders: Order[], now = Date.now()): RefillPrediction | null => {
+  const deliveryTimes = deliveredOrders
+    .map((order) => Date.parse(order.deliveredAt ?? order.updatedAt ?? order.createdAt))
+    .filter((time) => !Number.isNaN(time))
+    .sort((a, b) => a - b);
+  if (deliveryTimes.length === 0) return null;
+
+  const learned = learnInterval(deliveryTimes);
+  const intervalDays = learned ?? customer.avgDaysToRefill;
+  if (!intervalDays) return null;
+
+  const lastDeliveredAt = deliveryTimes[deliveryTimes.length - 1];
+  const nextRefillAt = lastDeliveredAt + intervalDays * DAY_MS;
+  const daysUntilRefill = calendarDaysBetween(now, nextRefillAt);
+
+  return {
+    customer,
+    lastDeliveredAt: new Date(lastDeliveredAt),
+    intervalDays: Math.round(intervalDays * 10) / 10,
+    source: learned !== null ? 'history' : 'profile',
+    deliveriesUsed: deliveryTimes.length,
+    nextRefillAt: new Date(nextRefillAt),
+    daysUntilRefill,
+    status: daysUntilRefill < 0 ? 'overdue' : daysUntilRefill <= REFILL_DUE_WINDOW_DAYS ? 'due' : 'upcoming',
+  };
+};
+
+/**
+ * Active customers who are due or overdue and have nothing on the way,
+ * most overdue first
+ */
+export const refillWorklist = (customers: Customer[], orders: Order[], now = Date.now()): RefillPrediction[] => {
+  const delivered = new Map<string, Order[]>();
+  const withOpenOrder = new Set<string>();
+
+  for (const order of orders) {
+    const customerId = order.customerId ?? order.customer?.id;
+    if (!customerId) continue;
+
+    if (order.status === 'DELIVERED') {
+      delivered.set(customerId, [...(delivered.get(customerId) ?? []), order]);
+    } else if (OPEN_STATUSES.includes(order.status)) {
+      withOpenOrder.add(customerId);
+    }
+  }
+
+  return customers
+    .filter((customer) => customer.isActive && !withOpenOrder.has(customer.id))
+    .map((customer) => predictRefill(customer, delivered.get(customer.id) ?? [], now))
+    .filter((prediction): prediction is RefillPrediction => prediction !== null && prediction.status !== 'upcoming')
+    .sort((a, b) => a.daysUntilRefill - b.daysUntilRefill);
+};
@@ -0,0 +1,146 @@
+/**
+ * Route planner
+ * Orders a rider's stops into a short visiting sequence on the device, so
+ * a route can be planned without a signal. Time slots are kept in order
+ * and urgent stops go first; within that, stops are chained by nearest
+ * neighbour and then tidied with 2-opt.
+ */
+
+import { DELIVERY_SLOTS, type DeliverySlot, type OrderPriority } from '@/services/apiSchemas';
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// What the planner needs to know about a stop
+export interface RouteStop {
+  priority?: OrderPriority;
+  deliverySlot?: DeliverySlot | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface PlannedRoute<T> {
+  stops: T[];
+  // Straight-line length of the legs between located stops
+  distanceKm: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+// Enough for a day's stops; stops once a pass finds nothing shorter
+const MAX_TWO_OPT_PASSES = 20;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export const distanceKm = (a: LatLng, b: LatLng): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+export const stopLocation = (stop: RouteStop): LatLng | null =>
+  stop.latitude != null && stop.longitude != null ? { latitude: stop.latitude, longitude: stop.longitude } : null;
+
+// Urgent any-time stops first, then each slot in time order with its
+// urgent stops ahead of the rest, then everything else
+const groupRank = (stop: RouteStop): number => {
+  const urgent = stop.priority === 'URGENT';
+  if (!stop.deliverySlot) return urgent ? 0 : 2 * DELIVERY_SLOTS.length + 1;
+  return 2 * DELIVERY_SLOTS.indexOf(stop.deliverySlot) + (urgent ? 1 : 2);
+};
+
+const pathLength = (start: LatLng | null, points: LatLng[]): number =>
+  points.reduce(
+    (total, point, i) => {
+      const from = i === 0 ? start : points[i - 1];
+      return from ? total + distanceKm(from, point) : total;
+    },
+    0
+  );
+
+const nearestNeighbour = <T>(start: LatLng | null, stops: { stop: T; at: LatLng }[]) => {
+  const remaining = [...stops];
+  const path: { stop: T; at: LatLng }[] = [];
+  let current = start;
+
+  while (remaining.length > 0) {
+    let best = 0;
+    if (current) {
+      remaining.forEach((candidate, i) => {
+        if (distanceKm(current!, candidate.at) < distanceKm(current!, remaining[best].at)) best = i;
+      });
+    }
+    const [next] = remaining.splice(best, 1);
+    path.push(next);
+    current = next.at;
+  }
+  return path;
+};
+
+// Reverses stretches of an open path while that shortens it. The first
+// stop stays tied to where the rider starts from.
+const twoOpt = <T>(start: LatLng | null, path: { stop: T; at: LatLng }[]) => {
+  let best = path;
+  let bestLength = pathLength(start, best.map(({ at }) => at));
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const length = pathLength(start, candidate.map(({ at }) => at));
+        if (length < bestLength - 1e-9) {
+          best = candidate;
+          bestLength = length;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+};
+
+/**
+ * Visiting order for `stops` starting from `start` (the rider's position,
+ * when known). Stops without coordinates keep their place at the end of
+ * their group so they are not lost from the route.
+ */
+export const planRoute = <T extends RouteStop>(stops: T[], start: LatLng | null = null): PlannedRoute<T> => {
+  const ranks = [...new Set(stops.map(groupRank))].sort((a, b) => a - b);
+  const ordered: T[] = [];
+  const legs: LatLng[] = [];
+  let position = start;
+
+  for (const rank of ranks) {
+    const group = stops.filter((stop) => groupRank(stop) === rank);
+    const located = group.flatMap((stop) => {
+      const at = stopLocation(stop);
+      return at ? [{ stop, at }] : [];
+    });
+
+    const path = twoOpt(position, nearestNeighbour(position, located));
+    ordered.push(...path.map(({ stop }) => stop), ...group.filter((stop) => !stopLocation(stop)));
+    legs.push(...path.map(({ at }) => at));
+    if (path.length > 0) position = path[path.length - 1].at;
+  }
+
+  return { stops: ordered, distanceKm: pathLength(start, legs) };
+};
+
+/**
+ * One-tap directions to a stop in the phone's maps app, by coordinates
+ * when known and by address otherwise
+ */
+export const directionsUrl = (stop: RouteStop & { address?: string }): string => {
+  const at = stopLocation(stop);
+  const destination = at ? `${at.latitude},${at.longitude}` : stop.address ?? '';
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`;
+};
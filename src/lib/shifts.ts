@@ -0,0 +1,81 @@
+/**
+ * Shift helpers
+ * Where a rider stands in their shift and the timesheet arithmetic for
+ * the admin's rider page. Hours worked leave out breaks; a shift or break
+ * that is still running counts up to now.
+ */
+
+import type { Rider, RiderShift, ShiftBreak } from '@/services/apiSchemas';
+
+export type ShiftState = 'OFF' | 'ON' | 'BREAK';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const SHIFT_STATE_LABELS: Record<ShiftState, string> = {
+  OFF: 'Off shift',
+  ON: 'On shift',
+  BREAK: 'On break',
+};
+
+export const openBreak = (shift: RiderShift | null | undefined): ShiftBreak | null =>
+  shift?.breaks.find((shiftBreak) => !shiftBreak.endedAt) ?? null;
+
+export const shiftState = (shift: RiderShift | null | undefined): ShiftState => {
+  if (!shift || shift.endedAt) return 'OFF';
+  return openBreak(shift) ? 'BREAK' : 'ON';
+};
+
+export const riderShiftState = (rider: Rider): ShiftState => shiftState(rider.currentShift);
+
+const span = (startedAt: string, endedAt: string | null | undefined, now: number) =>
+  Math.max((endedAt ? Date.parse(endedAt) : now) - Date.parse(startedAt), 0);
+
+export const breakMs = (shift: RiderShift, now = Date.now()): number =>
+  shift.breaks.reduce((sum, shiftBreak) => sum + span(shiftBreak.startedAt, shiftBreak.endedAt ?? shift.endedAt, now), 0);
+
+export const workedMs = (shift: RiderShift, now = Date.now()): number =>
+  Math.max(span(shift.startedAt, shift.endedAt, now) - breakMs(shift, now), 0);
+
+/**
+ * Distance on the odometer, when both ends were read
+ */
+export const odometerKm = (shift: RiderShift): number | null =>
+  shift.start?.odometerKm != null && shift.end?.odometerKm != null
+    ? Math.max(shift.end.odometerKm - shift.start.odometerKm, 0)
+    : null;
+
+/**
+ * Deliveries per hour worked, or null before there is an hour's work to
+ * divide by meaningfully
+ */
+export const deliveriesPerHour = (deliveries: number, worked: number): number | null =>
+  worked >= HOUR_MS / 4 ? deliveries / (worked / HOUR_MS) : null;
+
+export interface TimesheetTotals {
+  shifts: number;
+  workedMs: number;
+  breakMs: number;
+  deliveries: number;
+  deliveriesPerHour: number | null;
+}
+
+export const timesheetTotals = (shifts: RiderShift[], now = Date.now()): TimesheetTotals => {
+  const worked = shifts.reduce((sum, shift) => sum + workedMs(shift, now), 0);
+  const deliveries = shifts.reduce((sum, shift) => sum + shift.deliveries, 0);
+  return {
+    shifts: shifts.length,
+    workedMs: worked,
+    breakMs: shifts.reduce((sum, shift) => sum + breakMs(shift, now), 0),
+    deliveries,
+    deliveriesPerHour: deliveriesPerHour(deliveries, worked),
+  };
+};
+
+/**
+ * e.g. "7h 05m", or "45m" under an hour
+ */
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${String(minutes % 60).padStart(2, '0')}m` : `${minutes}m`;
+};
@@ -0,0 +1,63 @@
+/**
+ * Delivery slot helpers
+ * Labels for the fixed daily windows and the capacity arithmetic shared by
+ * order creation and the delivery calendar.
+ */
+
+import { DELIVERY_SLOTS, type DeliverySlot, type Order, type SlotCapacity } from '@/services/apiSchemas';
+import { orderArea } from './addresses';
+
+export const SLOT_LABELS: Record<DeliverySlot, string> = {
+  MORNING: 'Morning',
+  AFTERNOON: 'Afternoon',
+  EVENING: 'Evening',
+};
+
+export const SLOT_HOURS: Record<DeliverySlot, string> = {
+  MORNING: '8am – 12pm',
+  AFTERNOON: '12pm – 4pm',
+  EVENING: '4pm – 8pm',
+};
+
+export const slotLabel = (slot: DeliverySlot | null | undefined): string =>
+  slot ? `${SLOT_LABELS[slot]} (${SLOT_HOURS[slot]})` : 'Any time';
+
+export const sameArea = (a: string | null | undefined, b: string | null | undefined): boolean =>
+  (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+/**
+ * Orders an area can take in a slot, or null when unlimited
+ */
+export const capacityFor = (
+  capacities: SlotCapacity[],
+  area: string | null | undefined,
+  slot: DeliverySlot
+): number | null => capacities.find((entry) => entry.slot === slot && sameArea(entry.area, area))?.capacity ?? null;
+
+/**
+ * Orders already booked into a slot for an area on a day; cancelled and
+ * failed ones free their place
+ */
+export const bookedCount = (
+  orders: Order[],
+  { date, slot, area }: { date: string; slot: DeliverySlot; area: string | null | undefined }
+): number =>
+  orders.filter(
+    (order) =>
+      order.status !== 'CANCELLED' &&
+      order.status !== 'FAILED' &&
+      order.scheduledDate === date &&
+      order.deliverySlot === slot &&
+      sameArea(orderArea(order), area)
+  ).length;
+
+/**
+ * Split items into slot groups in day order, with unslotted ones last.
+ * Empty groups are left out.
+ */
+export const groupBySlot = <T extends { deliverySlot?: DeliverySlot | null }>(
+  items: T[]
+): { slot: DeliverySlot | null; items: T[] }[] =>
+  [...DELIVERY_SLOTS, null]
+    .map((slot) => ({ slot, items: items.filter((item) => (item.deliverySlot ?? null) === slot) }))
+    .filter((group) => group.items.length > 0);
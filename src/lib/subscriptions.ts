@@ -0,0 +1,107 @@
+/**
+ * Subscription helpers
+ * Works out which days a subscription delivers on and which of those still
+ * need an order. Dates are calendar-day keys (YYYY-MM-DD) and the arithmetic
+ * runs on UTC midnights so daylight-saving changes never skip or repeat a day.
+ */
+
+import type { Order, Subscription } from '@/services/apiSchemas';
+
+// How far ahead the generator materialises orders
+export const SUBSCRIPTION_HORIZON_DAYS = 7;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayNumber = (dateKey: string) => Math.round(Date.parse(`${dateKey}T00:00:00Z`) / DAY_MS);
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Today's date key in the device's timezone
+ */
+export const todayKey = (): string => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+export const addDays = (dateKey: string, days: number): string => fromDayNumber(dayNumber(dateKey) + days);
+
+export const isPausedOn = (subscription: Subscription, dateKey: string): boolean =>
+  !!subscription.pausedFrom &&
+  dateKey >= subscription.pausedFrom &&
+  (!subscription.pausedUntil || dateKey <= subscription.pausedUntil);
+
+/**
+ * Whether the schedule lands on a day, ignoring pauses and holidays
+ */
+const isScheduledOn = (subscription: Subscription, dateKey: string): boolean => {
+  if (dateKey < subscription.startDate) return false;
+  if (subscription.endDate && dateKey > subscription.endDate) return false;
+
+  if (subscription.frequency === 'WEEKLY') {
+    return subscription.weekdays.includes(new Date(dayNumber(dateKey) * DAY_MS).getUTCDay());
+  }
+
+  const interval = subscription.intervalDays ?? 0;
+  return interval > 0 && (dayNumber(dateKey) - dayNumber(subscription.startDate)) % interval === 0;
+};
+
+/**
+ * Delivery days for a subscription within `days` days of `from`,
+ * skipping holidays and paused periods
+ */
+export const deliveryDates = (
+  subscription: Subscription,
+  { from, days, holidays }: { from: string; days: number; holidays: Set<string> }
+): string[] => {
+  const dates: string[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const dateKey = addDays(from, offset);
+    if (isScheduledOn(subscription, dateKey) && !holidays.has(dateKey) && !isPausedOn(subscription, dateKey)) {
+      dates.push(dateKey);
+    }
+  }
+  return dates;
+};
+
+export interface PlannedOrder {
+  subscription: Subscription;
+  date: string;
+}
+
+/**
+ * Subscription deliveries in the window that have no order yet. Any existing
+ * order counts, including a cancelled one, so an admin's cancellation sticks.
+ * Customers who have been deactivated get nothing until they are active again.
+ */
+export const planSubscriptionOrders = (
+  subscriptions: Subscription[],
+  existingOrders: Order[],
+  activeCustomerIds: Set<string>,
+  window: { from: string; days: number; holidays: Set<string> }
+): PlannedOrder[] => {
+  const existing = new Set(
+    existingOrders
+      .filter((order) => order.subscriptionId && order.scheduledDate)
+      .map((order) => `${order.subscriptionId}:${order.scheduledDate}`)
+  );
+
+  return subscriptions
+    .filter((subscription) => activeCustomerIds.has(subscription.customerId))
+    .flatMap((subscription) =>
+      deliveryDates(subscription, window)
+        .filter((date) => !existing.has(`${subscription.id}:${date}`))
+        .map((date) => ({ subscription, date }))
+    );
+};
+
+/**
+ * Human-readable schedule, e.g. "Mon, Thu" or "Every 3 days"
+ */
+export const describeSchedule = (subscription: Subscription): string =>
+  subscription.frequency === 'WEEKLY'
+    ? [...subscription.weekdays].sort().map((day) => WEEKDAY_LABELS[day]).join(', ')
+    : `Every ${subscription.intervalDays} ${subscription.intervalDays === 1 ? 'day' : 'days'}`;
@@ -0,0 +1,73 @@
+/**
+ * Delivery zones
+ * Which zone a customer or order falls in. A pin inside a zone's boundary
+ * wins; otherwise a zone without a boundary is matched by the address's
+ * area name. The customer is filed when saved, and the filed zone is
+ * trusted over the address afterwards.
+ */
+
+import type { Customer, CustomerAddress, DeliveryZone, Order, ZonePoint } from '@/services/apiSchemas';
+import { addressLocation, defaultAddress, orderAddress } from './addresses';
+import type { LatLng } from './routePlanner';
+import { sameArea } from './slots';
+
+// A boundary needs at least a triangle
+export const MIN_BOUNDARY_POINTS = 3;
+
+export const hasBoundary = (zone: DeliveryZone): boolean => zone.boundary.length >= MIN_BOUNDARY_POINTS;
+
+/**
+ * Whether a point lies inside a polygon, by counting how many edges a ray
+ * running east from it crosses. Fine at city scale, where the earth's
+ * curvature does not matter.
+ */
+export const pointInPolygon = ({ latitude, longitude }: LatLng, polygon: ZonePoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.latitude > latitude !== b.latitude > latitude &&
+      longitude < ((b.longitude - a.longitude) * (latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * The active zone an address belongs in, or null when none covers it
+ */
+export const zoneForAddress = (
+  zones: DeliveryZone[],
+  address: CustomerAddress | null | undefined
+): DeliveryZone | null => {
+  if (!address) return null;
+  const active = zones.filter((zone) => zone.isActive);
+
+  const location = addressLocation(address);
+  const byBoundary = location && active.find((zone) => hasBoundary(zone) && pointInPolygon(location, zone.boundary));
+  if (byBoundary) return byBoundary;
+
+  return address.area?.trim()
+    ? active.find((zone) => !hasBoundary(zone) && sameArea(zone.name, address.area)) ?? null
+    : null;
+};
+
+// What a customer is filed under when saved: the zone of their default address
+export const zoneIdForAddresses = (zones: DeliveryZone[], addresses: CustomerAddress[]): string | null =>
+  zoneForAddress(zones, addresses.find((address) => address.isDefault))?.id ?? null;
+
+export const customerZone = (customer: Customer, zones: DeliveryZone[]): DeliveryZone | null =>
+  (customer.zoneId && zones.find((zone) => zone.id === customer.zoneId)) || zoneForAddress(zones, defaultAddress(customer));
+
+export const orderZone = (order: Order, zones: DeliveryZone[]): DeliveryZone | null =>
+  (order.zoneId && zones.find((zone) => zone.id === order.zoneId)) || zoneForAddress(zones, orderAddress(order));
+
+// Zone filters use these alongside zone ids
+export const ALL_ZONES = 'all';
+export const NO_ZONE = 'none';
+
+export const matchesZoneFilter = (zone: DeliveryZone | null, filter: string): boolean =>
+  filter === ALL_ZONES || (filter === NO_ZONE ? !zone : zone?.id === filter);
@@ -3,8 +3,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Droplet, Eye, EyeOff, TestTube } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Clock, Droplet, Eye, EyeOff, TestTube } from "lucide-react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { ConnectionTest } from "@/components/ConnectionTest";
 import { ErrorTest } from "@/components/ErrorTest";
@@ -14,6 +15,8 @@ import { toast } from "sonner";
 
 const Index = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const sessionExpired = Boolean(location.state?.sessionExpired);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
@@ -33,10 +36,6 @@ const Index = () => {
       const response = await apiService.login({ email, password });
       
       if (response.success) {
-        // Store token in localStorage
-        localStorage.setItem('token', response.data.token);
-        localStorage.setItem('user', JSON.stringify(response.data.user));
-        
         toast.success("Login successful!");
         
         // Redirect based on role
@@ -72,6 +71,15 @@ const Index = () => {
           </p>
         </div>
 
+        {sessionExpired && (
+          <Alert>
+            <Clock className="h-4 w-4" />
+            <AlertDescription>
+              Your session has expired. Please sign in again.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Login Form */}
         <Card>
           <CardHeader>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,6 +8,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { EditCustomerDialog } from '@/components/admin/EditCustomerDialog';
+import { CustomerSubscriptions } from '@/components/admin/CustomerSubscriptions';
 import { 
   ArrowLeft, 
   Phone, 
@@ -22,113 +23,40 @@ import {
   Trash2,
   MoreHorizontal
 } from 'lucide-react';
-import { apiService } from '@/services/api';
+import { useCustomer, useUpdateCustomerStatus } from '@/hooks/use-customers';
+import { reportError } from '@/lib/errors';
+import { summarizeItems } from '@/lib/pricing';
+import { ADDRESS_LABEL_NAMES, addressLocation, customerAddresses, formatAddress } from '@/lib/addresses';
 import { toast } from 'sonner';
 
-interface Customer {
-  id: string;
-  name: string;
-  phone: string;
-  whatsapp?: string;
-  bottleCount: number;
-  address: string;
-  currentBalance: number;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-  orders: Order[];
-  stats: {
-    totalOrders: number;
-    completedOrders: number;
-    pendingOrders: number;
-    totalSpent: number;
-    averageOrderValue: number;
-  };
-}
-
-interface Order {
-  id: string;
-  orderId: string;
-  status: string;
-  priority: string;
-  totalAmount: number;
-  paidAmount: number;
-  paymentStatus: string;
-  paymentMethod: string;
-  rider?: {
-    name: string;
-    phone: string;
-  };
-  notes?: string;
-  createdAt: string;
-  deliveredAt?: string;
-}
-
 const CustomerDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [customer, setCustomer] = useState<Customer | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data: customer, isLoading: loading, error: queryError } = useCustomer(id);
+  const updateStatus = useUpdateCustomerStatus();
   const [updatingStatus, setUpdatingStatus] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
-
-  useEffect(() => {
-    if (id) {
-      fetchCustomerDetails();
-    }
-  }, [id]);
-
-  const fetchCustomerDetails = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const response = await apiService.getCustomerById(id!);
-      
-      if (response.success) {
-        setCustomer(response.data);
-      } else {
-        setError(response.message || 'Failed to fetch customer details');
-        toast.error(response.message || 'Failed to fetch customer details');
-      }
-    } catch (error) {
-      console.error('Error fetching customer details:', error);
-      setError('Failed to fetch customer details');
-      toast.error('Failed to fetch customer details');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const error = queryError ? 'Failed to fetch customer details' : null;
 
   const handleStatusToggle = async (isActive: boolean) => {
     if (!customer) return;
     
     try {
       setUpdatingStatus(true);
-      const response = await apiService.updateCustomerStatus(customer.id, isActive);
-      
-      if (response.success) {
-        setCustomer(prev => prev ? { ...prev, isActive } : null);
-        toast.success(`Customer ${isActive ? 'activated' : 'deactivated'} successfully`);
-      } else {
-        toast.error(response.message || 'Failed to update customer status');
-      }
+      await updateStatus.mutateAsync({ id: customer.id, isActive });
+      toast.success(`Customer ${isActive ? 'activated' : 'deactivated'} successfully`);
     } catch (error) {
-      console.error('Error updating customer status:', error);
-      toast.error('Failed to update customer status');
+      reportError(error, 'Failed to update customer status');
     } finally {
       setUpdatingStatus(false);
     }
   };
 
   const handleEditCustomer = () => {
-    setSelectedCustomer({ id: customer.id });
     setEditDialogOpen(true);
   };
 
-  const handleCustomerUpdated = (updatedCustomer) => {
-    setCustomer(updatedCustomer);
+  const handleCustomerUpdated = () => {
     setEditDialogOpen(false);
   };
 
@@ -137,6 +65,7 @@ const CustomerDetail = () => {
       case 'delivered': return 'bg-green-100 text-green-800';
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'assigned': return 'bg-blue-100 text-blue-800';
+      case 'failed': return 'bg-orange-100 text-orange-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
@@ -249,12 +178,41 @@ const CustomerDetail = () => {
                 <span className="font-medium">{customer.whatsapp}</span>
               </div>
             )}
-            <div className="flex items-center gap-3">
-              <MapPin className="h-4 w-4 text-muted-foreground" />
-              <span className="text-sm text-muted-foreground">
-                {customer.address || 'No address provided'}
-              </span>
-            </div>
+            {customerAddresses(customer).length === 0 && (
+              <div className="flex items-center gap-3">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm text-muted-foreground">
+                  {customer.address || 'No address provided'}
+                </span>
+              </div>
+            )}
+            {customerAddresses(customer).map((address, index) => {
+              const location = addressLocation(address);
+              return (
+                <div key={address.id ?? index} className="flex items-start gap-3">
+                  <MapPin className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                  <div className="space-y-0.5 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{ADDRESS_LABEL_NAMES[address.label]}</span>
+                      {address.isDefault && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                    <p className="text-muted-foreground">{formatAddress(address) || 'No street address'}</p>
+                    {address.landmark && <p className="text-muted-foreground">Near {address.landmark}</p>}
+                    {address.instructions && <p className="text-xs italic text-muted-foreground">{address.instructions}</p>}
+                    {location && (
+                      <a
+                        href={`https://www.google.com/maps?q=${location.latitude},${location.longitude}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-primary hover:underline"
+                      >
+                        View on map
+                      </a>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
           </CardContent>
         </Card>
 
@@ -269,7 +227,17 @@ const CustomerDetail = () => {
           <CardContent>
             <div className="text-center">
               <div className="text-3xl font-bold text-primary">{customer.bottleCount}</div>
-              <div className="text-sm text-muted-foreground">Bottles</div>
+              <div className="text-sm text-muted-foreground">Bottles held</div>
+              <div className="mt-3 flex justify-center gap-6 text-sm">
+                <div>
+                  <div className="font-medium">{customer.stats.bottlesDelivered}</div>
+                  <div className="text-muted-foreground">Delivered</div>
+                </div>
+                <div>
+                  <div className="font-medium">{customer.stats.emptiesCollected}</div>
+                  <div className="text-muted-foreground">Returned</div>
+                </div>
+              </div>
               {customer.avgDaysToRefill && (
                 <div className="mt-2 text-sm text-muted-foreground">
                   Avg refill: {customer.avgDaysToRefill} days
@@ -381,6 +349,8 @@ const CustomerDetail = () => {
         </Card>
       </div>
 
+      <CustomerSubscriptions customerId={customer.id} />
+
       {/* Order History */}
       <Card>
         <CardHeader>
@@ -435,6 +405,20 @@ const CustomerDetail = () => {
                       <span className="text-muted-foreground">Paid:</span>
                       <div className="font-medium">Rs {order.paidAmount.toFixed(2)}</div>
                     </div>
+                    {order.items.length > 0 && (
+                      <div className="col-span-2">
+                        <span className="text-muted-foreground">Items:</span>
+                        <div className="font-medium">{summarizeItems(order.items)}</div>
+                      </div>
+                    )}
+                    {(order.bottlesDelivered != null || order.emptiesCollected != null) && (
+                      <div>
+                        <span className="text-muted-foreground">Bottles:</span>
+                        <div className="font-medium">
+                          {order.bottlesDelivered ?? 0} delivered / {order.emptiesCollected ?? 0} returned
+                        </div>
+                      </div>
+                    )}
                     {order.rider && (
                       <div>
                         <span className="text-muted-foreground">Rider:</span>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -24,41 +24,29 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { apiService } from "@/services/api";
+import type { Customer } from "@/services/apiSchemas";
+import { useCustomers } from "@/hooks/use-customers";
+import { useZones } from "@/hooks/use-zones";
+import { ALL_ZONES, NO_ZONE, customerZone, matchesZoneFilter } from "@/lib/zones";
 
 const Customers = () => {
   const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
-  const [customers, setCustomers] = useState([]);
-  const [loading, setLoading] = useState(true);
+  const [zoneFilter, setZoneFilter] = useState(ALL_ZONES);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
-  const [selectedCustomer, setSelectedCustomer] = useState(null);
-  const [error, setError] = useState(null);
-
-  useEffect(() => {
-    const fetchCustomers = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        const response = await apiService.getCustomers(statusFilter !== 'all' ? statusFilter : undefined);
-        
-        if (response.success) {
-          setCustomers(response.data);
-        } else {
-          setError(response.message || 'Failed to fetch customers');
-        }
-      } catch (error) {
-        console.error('Error fetching customers:', error);
-        setError('Failed to fetch customers. Please check your connection and try again.');
-        setCustomers([]);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchCustomers();
-  }, [statusFilter]);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const {
+    data: customers = [],
+    isLoading: loading,
+    isFetching,
+    error: queryError,
+    refetch,
+  } = useCustomers(statusFilter !== 'all' ? statusFilter : undefined);
+  const { data: zones = [] } = useZones();
+  const error = queryError
+    ? 'Failed to fetch customers. Please check your connection and try again.'
+    : null;
 
   const filteredCustomers = customers.filter((customer) => {
     const matchesSearch = 
@@ -72,20 +60,17 @@ const Customers = () => {
       (statusFilter === "payable" && customer.currentBalance < 0) ||
       (statusFilter === "receivable" && customer.currentBalance > 0);
     
-    return matchesSearch && matchesStatus;
+    const matchesZone = matchesZoneFilter(customerZone(customer, zones), zoneFilter);
+
+    return matchesSearch && matchesStatus && matchesZone;
   });
 
-  const handleEditCustomer = (customer) => {
-    setSelectedCustomer({ id: customer.id });
+  const handleEditCustomer = (customer: Customer) => {
+    setSelectedCustomer(customer);
     setEditDialogOpen(true);
   };
 
-  const handleCustomerUpdated = (updatedCustomer) => {
-    setCustomers(prev => 
-      prev.map(c => 
-        c.id === updatedCustomer.id ? updatedCustomer : c
-      )
-    );
+  const handleCustomerUpdated = () => {
     setEditDialogOpen(false);
     setSelectedCustomer(null);
   };
@@ -130,16 +115,29 @@ const Customers = () => {
                   <SelectItem value="receivable">Receivable (Positive Balance)</SelectItem>
                 </SelectContent>
               </Select>
+              {zones.length > 0 && (
+                <Select value={zoneFilter} onValueChange={setZoneFilter}>
+                  <SelectTrigger className="w-full md:w-[160px]">
+                    <SelectValue placeholder="Filter by zone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ZONES}>All Zones</SelectItem>
+                    {zones.map((zone) => (
+                      <SelectItem key={zone.id} value={zone.id}>
+                        {zone.name}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={NO_ZONE}>No Zone</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => {
-                  setLoading(true);
-                  fetchCustomers();
-                }}
-                disabled={loading}
+                onClick={() => refetch()}
+                disabled={isFetching}
               >
-                <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
                 Refresh
               </Button>
             </div>
@@ -157,13 +155,10 @@ const Customers = () => {
               <p className="text-muted-foreground text-center mb-4">{error}</p>
               <Button
                 variant="outline"
-                onClick={() => {
-                  setLoading(true);
-                  fetchCustomers();
-                }}
-                disabled={loading}
+                onClick={() => refetch()}
+                disabled={isFetching}
               >
-                <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
                 Try Again
               </Button>
             </div>
@@ -172,12 +167,12 @@ const Customers = () => {
               <Users className="h-12 w-12 text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">No customers found</h3>
               <p className="text-muted-foreground text-center mb-4">
-                {searchQuery || statusFilter !== 'all' 
+                {searchQuery || statusFilter !== 'all' || zoneFilter !== ALL_ZONES 
                   ? 'No customers match your current filters. Try adjusting your search or filter criteria.'
                   : 'No customers have been added yet. Click "Add Customer" to get started.'
                 }
               </p>
-              {(!searchQuery && statusFilter === 'all') && (
+              {(!searchQuery && statusFilter === 'all' && zoneFilter === ALL_ZONES) && (
                 <AddCustomerDialog />
               )}
             </div>
@@ -231,6 +226,11 @@ const Customers = () => {
                               {customer.address || "No address"}
                             </span>
                           </div>
+                          {customerZone(customer, zones) && (
+                            <Badge variant="outline" className="mt-1 text-xs">
+                              {customerZone(customer, zones).name}
+                            </Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -298,13 +298,6 @@ const Customers = () => {
                         <CustomerStatusToggle
                           customerId={customer.id}
                           isActive={customer.isActive !== false}
-                          onStatusChange={(isActive) => {
-                            setCustomers(prev => 
-                              prev.map(c => 
-                                c.id === customer.id ? { ...c, isActive } : c
-                              )
-                            );
-                          }}
                         />
                       </TableCell>
                       <TableCell>
@@ -1,139 +1,141 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Users, TruckIcon, Package, DollarSign, Plus } from "lucide-react";
+import { Users, TruckIcon, Package, DollarSign, Droplet, Plus } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { CreateOrderDialog } from "@/components/admin/CreateOrderDialog";
 import { AddCustomerDialog } from "@/components/admin/AddCustomerDialog";
-import { apiService } from "@/services/api";
-import { useEffect, useState } from "react";
+import { RefillWorklist } from "@/components/admin/RefillWorklist";
+import type { Activity, DashboardStats } from "@/services/apiSchemas";
+import { useDashboardStats, useRecentActivities } from "@/hooks/use-dashboard";
 
-const AdminDashboard = () => {
-  const [stats, setStats] = useState([
-    {
-      title: "Total Customers",
-      value: "0",
-      icon: Users,
-      trend: "Loading...",
-      color: "text-primary",
-    },
-    {
-      title: "Total Riders",
-      value: "0",
-      icon: TruckIcon,
-      trend: "Loading...",
-      color: "text-success",
-    },
-    {
-      title: "Orders Today",
-      value: "0",
-      icon: Package,
-      trend: "Loading...",
-      color: "text-warning",
-    },
-    {
-      title: "Pending Payments",
-      value: "₹0",
-      icon: DollarSign,
-      trend: "Loading...",
-      color: "text-destructive",
-    },
-  ]);
+const placeholderStats = [
+  {
+    title: "Total Customers",
+    value: "0",
+    icon: Users,
+    trend: "Loading...",
+    color: "text-primary",
+  },
+  {
+    title: "Total Riders",
+    value: "0",
+    icon: TruckIcon,
+    trend: "Loading...",
+    color: "text-success",
+  },
+  {
+    title: "Orders Today",
+    value: "0",
+    icon: Package,
+    trend: "Loading...",
+    color: "text-warning",
+  },
+  {
+    title: "Pending Payments",
+    value: "₹0",
+    icon: DollarSign,
+    trend: "Loading...",
+    color: "text-destructive",
+  },
+  {
+    title: "Bottles Outstanding",
+    value: "0",
+    icon: Droplet,
+    trend: "Loading...",
+    color: "text-primary",
+  },
+];
 
-  const [recentActivities, setRecentActivities] = useState([]);
-  const [loading, setLoading] = useState(true);
+// Mock data kept on screen when the backend is unreachable
+const sampleStats = [
+  {
+    title: "Total Customers",
+    value: "245",
+    icon: Users,
+    trend: "+12 this month",
+    color: "text-primary",
+  },
+  {
+    title: "Total Riders",
+    value: "18",
+    icon: TruckIcon,
+    trend: "3 active now",
+    color: "text-success",
+  },
+  {
+    title: "Orders Today",
+    value: "47",
+    icon: Package,
+    trend: "12 pending",
+    color: "text-warning",
+  },
+  {
+    title: "Pending Payments",
+    value: "₹12,450",
+    icon: DollarSign,
+    trend: "From 23 customers",
+    color: "text-destructive",
+  },
+  {
+    title: "Bottles Outstanding",
+    value: "612",
+    icon: Droplet,
+    trend: "Held by customers",
+    color: "text-primary",
+  },
+];
 
-  useEffect(() => {
-    const fetchDashboardData = async () => {
-      try {
-        setLoading(true);
-        const [statsResponse, activitiesResponse] = await Promise.all([
-          apiService.getDashboardStats(),
-          apiService.getRecentActivities()
-        ]);
+const sampleActivities: Activity[] = [
+  { id: 1, text: "New order #1234 from Ramesh Kumar", time: "2 mins ago", status: "new" },
+  { id: 2, text: "Payment received ₹500 from Priya Sharma", time: "15 mins ago", status: "success" },
+  { id: 3, text: "Rider Ali completed 3 deliveries", time: "1 hour ago", status: "info" },
+  { id: 4, text: "New customer added: Vikram Singh", time: "2 hours ago", status: "new" },
+];
 
-        if (statsResponse.success) {
-          const statsData = statsResponse.data;
-          setStats([
-            {
-              title: "Total Customers",
-              value: statsData.totalCustomers.toString(),
-              icon: Users,
-              trend: "+12 this month",
-              color: "text-primary",
-            },
-            {
-              title: "Total Riders",
-              value: statsData.totalRiders.toString(),
-              icon: TruckIcon,
-              trend: "3 active now",
-              color: "text-success",
-            },
-            {
-              title: "Orders Today",
-              value: statsData.ordersToday.toString(),
-              icon: Package,
-              trend: `${statsData.pendingOrders} pending`,
-              color: "text-warning",
-            },
-            {
-              title: "Pending Payments",
-              value: `₹${statsData.pendingPayments}`,
-              icon: DollarSign,
-              trend: "From customers",
-              color: "text-destructive",
-            },
-          ]);
-        }
+const buildStats = (statsData: DashboardStats) => [
+  {
+    title: "Total Customers",
+    value: statsData.totalCustomers.toString(),
+    icon: Users,
+    trend: "+12 this month",
+    color: "text-primary",
+  },
+  {
+    title: "Total Riders",
+    value: statsData.totalRiders.toString(),
+    icon: TruckIcon,
+    trend: "3 active now",
+    color: "text-success",
+  },
+  {
+    title: "Orders Today",
+    value: statsData.ordersToday.toString(),
+    icon: Package,
+    trend: `${statsData.pendingOrders} pending`,
+    color: "text-warning",
+  },
+  {
+    title: "Pending Payments",
+    value: `₹${statsData.pendingPayments}`,
+    icon: DollarSign,
+    trend: "From customers",
+    color: "text-destructive",
+  },
+  {
+    title: "Bottles Outstanding",
+    value: statsData.bottlesOutstanding.toString(),
+    icon: Droplet,
+    trend: "Held by customers",
+    color: "text-primary",
+  },
+];
 
-        if (activitiesResponse.success) {
-          setRecentActivities(activitiesResponse.data);
-        }
-      } catch (error) {
-        console.error('Error fetching dashboard data:', error);
-        // Keep mock data on error
-        setStats([
-          {
-            title: "Total Customers",
-            value: "245",
-            icon: Users,
-            trend: "+12 this month",
-            color: "text-primary",
-          },
-          {
-            title: "Total Riders",
-            value: "18",
-            icon: TruckIcon,
-            trend: "3 active now",
-            color: "text-success",
-          },
-          {
-            title: "Orders Today",
-            value: "47",
-            icon: Package,
-            trend: "12 pending",
-            color: "text-warning",
-          },
-          {
-            title: "Pending Payments",
-            value: "₹12,450",
-            icon: DollarSign,
-            trend: "From 23 customers",
-            color: "text-destructive",
-          },
-        ]);
-        setRecentActivities([
-          { id: 1, text: "New order #1234 from Ramesh Kumar", time: "2 mins ago", status: "new" },
-          { id: 2, text: "Payment received ₹500 from Priya Sharma", time: "15 mins ago", status: "success" },
-          { id: 3, text: "Rider Ali completed 3 deliveries", time: "1 hour ago", status: "info" },
-          { id: 4, text: "New customer added: Vikram Singh", time: "2 hours ago", status: "new" },
-        ]);
-      } finally {
-        setLoading(false);
-      }
-    };
+const AdminDashboard = () => {
+  const { data: statsData, isError: statsError } = useDashboardStats();
+  const { data: activities, isError: activitiesError } = useRecentActivities();
 
-    fetchDashboardData();
-  }, []);
+  const stats = statsData ? buildStats(statsData) : statsError ? sampleStats : placeholderStats;
+  const recentActivities = activities ?? (activitiesError ? sampleActivities : []);
 
   return (
     <div className="space-y-6">
@@ -154,7 +156,7 @@ const AdminDashboard = () => {
         </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
         {stats.map((stat) => (
           <Card key={stat.title}>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -169,6 +171,8 @@ const AdminDashboard = () => {
         ))}
       </div>
 
+      <RefillWorklist />
+
       <Card>
         <CardHeader>
           <CardTitle>Recent Activities</CardTitle>
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useOrders } from "@/hooks/use-orders";
+import { addDays, todayKey } from "@/lib/subscriptions";
+import { groupBySlot, SLOT_LABELS } from "@/lib/slots";
+
+// Weeks start on Monday
+const weekStart = (dateKey: string) => {
+  const weekday = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+  return addDays(dateKey, -((weekday + 6) % 7));
+};
+
+const formatDay = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" });
+
+const DeliveryCalendar = () => {
+  const today = todayKey();
+  const [start, setStart] = useState(() => weekStart(today));
+  const { data: orders = [], isLoading } = useOrders();
+  const days = Array.from({ length: 7 }, (_, offset) => addDays(start, offset));
+
+  const scheduled = orders.filter((order) => order.scheduledDate && order.status !== "CANCELLED");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Delivery Calendar</h1>
+          <p className="text-muted-foreground">Upcoming deliveries by day and time slot</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" aria-label="Previous week" onClick={() => setStart(addDays(start, -7))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setStart(weekStart(today))}>
+            This Week
+          </Button>
+          <Button variant="outline" size="icon" aria-label="Next week" onClick={() => setStart(addDays(start, 7))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-8">
+          <p className="text-muted-foreground">Loading deliveries...</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
+          {days.map((day) => {
+            const dayOrders = scheduled.filter((order) => order.scheduledDate === day);
+
+            return (
+              <Card key={day} className={day === today ? "border-primary" : undefined}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center justify-between text-sm font-medium">
+                    <span>{formatDay(day)}</span>
+                    {dayOrders.length > 0 && <Badge variant="secondary">{dayOrders.length}</Badge>}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {dayOrders.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No deliveries</p>
+                  ) : (
+                    groupBySlot(dayOrders).map((group) => (
+                      <div key={group.slot ?? "any"} className="space-y-1">
+                        <p className="text-xs font-medium text-muted-foreground">
+                          {group.slot ? SLOT_LABELS[group.slot] : "Any time"} ({group.items.length})
+                        </p>
+                        {group.items.map((order) => (
+                          <Link
+                            key={order.id}
+                            to={`/admin/orders/${order.id}`}
+                            className="block rounded border px-2 py-1 text-xs hover:bg-muted/50"
+                          >
+                            <span className="font-medium">{order.customer?.name || order.orderId}</span>
+                            <span className="block text-muted-foreground">
+                              {order.status.replace("_", " ")}
+                              {order.rider ? ` · ${order.rider.name}` : ""}
+                            </span>
+                          </Link>
+                        ))}
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryCalendar;
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, TruckIcon } from "lucide-react";
+import { toast } from "sonner";
+import { useOrders, useUpdateOrderStatus } from "@/hooks/use-orders";
+import { useRiders } from "@/hooks/use-riders";
+import { useZones } from "@/hooks/use-zones";
+import { useLiveOrderUpdates } from "@/hooks/use-live-orders";
+import { AutoAssignDialog } from "@/components/admin/AutoAssignDialog";
+import { dropAction, isOnRoute, riderLoad } from "@/lib/dispatch";
+import { orderArea } from "@/lib/addresses";
+import { summarizeItems } from "@/lib/pricing";
+import { SLOT_LABELS } from "@/lib/slots";
+import { todayKey } from "@/lib/subscriptions";
+import { reportError } from "@/lib/errors";
+import type { Order, OrderAction } from "@/services/apiSchemas";
+
+// Polling backs up the notification-driven refresh
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+interface BoardColumnProps {
+  title: string;
+  subtitle?: string;
+  orders: Order[];
+  selectedIds: Set<string>;
+  onToggle: (id: string) => void;
+  onDragStart: (order: Order) => void;
+  onDrop: () => void;
+}
+
+const BoardColumn = ({ title, subtitle, orders, selectedIds, onToggle, onDragStart, onDrop }: BoardColumnProps) => {
+  const [isOver, setIsOver] = useState(false);
+
+  return (
+    <Card
+      className={`w-72 shrink-0 ${isOver ? "border-primary bg-muted/50" : ""}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        onDrop();
+      }}
+    >
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span>{title}</span>
+          <Badge variant="secondary">{orders.length}</Badge>
+        </CardTitle>
+        {subtitle && <p className="text-xs text-muted-foreground">{subtitle}</p>}
+      </CardHeader>
+      <CardContent className="min-h-[200px] space-y-2">
+        {orders.length === 0 && <p className="py-6 text-center text-xs text-muted-foreground">Drop orders here</p>}
+        {orders.map((order) => (
+          <div
+            key={order.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData("text/plain", order.id);
+              onDragStart(order);
+            }}
+            className="flex cursor-grab items-start gap-2 rounded-md border bg-background p-2 text-sm active:cursor-grabbing"
+          >
+            <Checkbox
+              checked={selectedIds.has(order.id)}
+              onCheckedChange={() => onToggle(order.id)}
+              aria-label={`Select order ${order.orderId || order.id.slice(-4)}`}
+              className="mt-0.5"
+            />
+            <div className="min-w-0 flex-1 space-y-0.5">
+              <div className="flex items-center justify-between gap-2">
+                <Link to={`/admin/orders/${order.id}`} className="truncate font-medium hover:underline">
+                  {order.customer?.name || order.orderId || `#${order.id.slice(-4)}`}
+                </Link>
+                {order.status === "IN_PROGRESS" && <Badge variant="outline">Out</Badge>}
+              </div>
+              <p className="truncate text-xs text-muted-foreground">{orderArea(order) || "No area"}</p>
+              {order.items.length > 0 && <p className="text-xs">{summarizeItems(order.items)}</p>}
+              <p className="text-xs text-muted-foreground">
+                {order.deliverySlot ? SLOT_LABELS[order.deliverySlot] : "Any time"}
+                {order.scheduledDate && order.scheduledDate < todayKey() && " · overdue"}
+              </p>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Dispatch = () => {
+  const [date, setDate] = useState(todayKey);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [draggedIds, setDraggedIds] = useState<string[]>([]);
+  const [bulkRider, setBulkRider] = useState("");
+  const [moving, setMoving] = useState(false);
+  const { data: orders = [], isLoading: ordersLoading } = useOrders(undefined, { refetchInterval: REFRESH_INTERVAL_MS });
+  const { data: riders = [], isLoading: ridersLoading } = useRiders();
+  const { data: zones = [] } = useZones();
+  const updateOrderStatus = useUpdateOrderStatus();
+  useLiveOrderUpdates();
+
+  const activeRiders = riders.filter((rider) => rider.isActive);
+  // The day's work, plus anything overdue or not tied to a day
+  const dueBy = (order: Order) => !order.scheduledDate || order.scheduledDate <= date;
+  const unassigned = orders.filter((order) => order.status === "PENDING" && dueBy(order));
+  const onRoute = orders.filter((order) => isOnRoute(order) && dueBy(order));
+  const visibleIds = new Set([...unassigned, ...onRoute].map((order) => order.id));
+  const selected = [...selectedIds].filter((id) => visibleIds.has(id));
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  // Dragging a selected order carries the whole selection with it
+  const handleDragStart = (order: Order) => {
+    setDraggedIds(selectedIds.has(order.id) ? selected : [order.id]);
+  };
+
+  const moveOrders = async (ids: string[], riderId: string | null) => {
+    const moves = orders
+      .filter((order) => ids.includes(order.id))
+      .map((order) => ({ order, action: dropAction(order, riderId) }))
+      .filter((move): move is { order: Order; action: OrderAction } => move.action !== null);
+
+    if (moves.length === 0) {
+      // Dropping an order back where it was is a no-op
+      if (riderId === null && orders.some((order) => ids.includes(order.id) && order.status === "IN_PROGRESS")) {
+        toast.error("Orders already out for delivery cannot be unassigned");
+      }
+      return;
+    }
+
+    setMoving(true);
+    let moved = 0;
+    for (const { order, action } of moves) {
+      try {
+        await updateOrderStatus.mutateAsync({
+          id: order.id,
+          from: order.status,
+          action,
+          riderId: riderId ?? undefined,
+        });
+        moved++;
+      } catch (error) {
+        reportError(error, `Failed to move order ${order.orderId || order.id.slice(-4)}`);
+      }
+    }
+    setMoving(false);
+    setSelectedIds(new Set());
+
+    const riderName = riderId ? activeRiders.find((rider) => rider.id === riderId)?.name : null;
+    const target = riderName ? `assigned to ${riderName}` : "returned to the pool";
+    if (moved === moves.length) {
+      toast.success(`${moved} ${moved === 1 ? "order" : "orders"} ${target}`);
+    } else if (moved > 0) {
+      toast.error(`${moved} of ${moves.length} orders ${target}; the rest failed`);
+    }
+  };
+
+  const handleDrop = (riderId: string | null) => {
+    const ids = draggedIds;
+    setDraggedIds([]);
+    moveOrders(ids, riderId);
+  };
+
+  const handleBulkAssign = () => {
+    if (!bulkRider) {
+      toast.error("Please select a rider");
+      return;
+    }
+    moveOrders(selected, bulkRider);
+  };
+
+  const loading = ordersLoading || ridersLoading;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Dispatch</h1>
+          <p className="text-muted-foreground">Drag orders onto a rider to assign them</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground whitespace-nowrap">Due by</span>
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value || todayKey())} className="w-[170px]" />
+          <AutoAssignDialog pending={unassigned} riders={activeRiders} orders={orders} zones={zones} />
+        </div>
+      </div>
+
+      {selected.length > 0 && (
+        <Card>
+          <CardContent className="flex flex-col gap-3 p-4 md:flex-row md:items-center">
+            <span className="text-sm font-medium">
+              {selected.length} {selected.length === 1 ? "order" : "orders"} selected
+            </span>
+            <Select value={bulkRider} onValueChange={setBulkRider}>
+              <SelectTrigger className="w-full md:w-[220px]">
+                <SelectValue placeholder="Choose a rider" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeRiders.map((rider) => (
+                  <SelectItem key={rider.id} value={rider.id}>
+                    {rider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Button onClick={handleBulkAssign} disabled={moving}>
+                {moving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <TruckIcon className="mr-2 h-4 w-4" />}
+                Assign Selected
+              </Button>
+              <Button variant="outline" onClick={() => moveOrders(selected, null)} disabled={moving}>
+                Unassign
+              </Button>
+              <Button variant="ghost" onClick={() => setSelectedIds(new Set())} disabled={moving}>
+                Clear
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <p className="text-muted-foreground">Loading dispatch board...</p>
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          <BoardColumn
+            title="Unassigned"
+            subtitle="Waiting for a rider"
+            orders={unassigned}
+            selectedIds={selectedIds}
+            onToggle={toggle}
+            onDragStart={handleDragStart}
+            onDrop={() => handleDrop(null)}
+          />
+          {activeRiders.map((rider) => {
+            const riderOrders = onRoute.filter((order) => order.riderId === rider.id);
+            const load = riderLoad(riderOrders);
+            return (
+              <BoardColumn
+                key={rider.id}
+                title={rider.name}
+                subtitle={`${load.orders} ${load.orders === 1 ? "order" : "orders"} · ${load.bottles} ${load.bottles === 1 ? "bottle" : "bottles"}`}
+                orders={riderOrders}
+                selectedIds={selectedIds}
+                onToggle={toggle}
+                onDragStart={handleDragStart}
+                onDrop={() => handleDrop(rider.id)}
+              />
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Dispatch;
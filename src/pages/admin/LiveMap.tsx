@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+import { RiderMap, type MapMarker } from "@/components/admin/RiderMap";
+import { useOrders } from "@/hooks/use-orders";
+import { useRiders } from "@/hooks/use-riders";
+import { useRiderLocations } from "@/hooks/use-rider-locations";
+import { useLiveOrderUpdates } from "@/hooks/use-live-orders";
+import { MAP_SOURCE } from "@/config/map";
+import { addressLocation, orderAddress } from "@/lib/addresses";
+import { isOnRoute } from "@/lib/dispatch";
+import { SHIFT_STATE_LABELS, riderShiftState } from "@/lib/shifts";
+import type { RiderLocation } from "@/services/apiSchemas";
+
+// Positions older than this are shown faded
+const STALE_AFTER_MS = 5 * 60 * 1000;
+const REFRESH_INTERVAL_MS = 60 * 1000;
+const RIDER_COLORS = ["#2563eb", "#16a34a", "#ea580c", "#9333ea", "#db2777", "#0891b2", "#ca8a04", "#4b5563"];
+
+const isStale = (location: RiderLocation) => Date.now() - Date.parse(location.recordedAt) > STALE_AFTER_MS;
+
+const LiveMap = () => {
+  const [selectedRiderId, setSelectedRiderId] = useState<string | null>(null);
+  const { data: riders = [], isLoading: ridersLoading } = useRiders();
+  const { data: locations = [] } = useRiderLocations();
+  const { data: orders = [] } = useOrders(undefined, { refetchInterval: REFRESH_INTERVAL_MS });
+  useLiveOrderUpdates();
+
+  const activeRiders = riders.filter((rider) => rider.isActive);
+  const colorFor = (riderId: string) => {
+    const index = activeRiders.findIndex((rider) => rider.id === riderId);
+    return RIDER_COLORS[(index < 0 ? 0 : index) % RIDER_COLORS.length];
+  };
+  const locationFor = (riderId: string) => locations.find((location) => location.riderId === riderId);
+  const shown = (riderId: string | null | undefined) => !selectedRiderId || riderId === selectedRiderId;
+
+  const riderMarkers: MapMarker[] = activeRiders.flatMap((rider) => {
+    const location = locationFor(rider.id);
+    if (!location || !shown(rider.id)) return [];
+    return [
+      {
+        id: `rider-${rider.id}`,
+        kind: "rider" as const,
+        position: location,
+        label: rider.name,
+        color: colorFor(rider.id),
+        heading: location.heading,
+        stale: isStale(location),
+      },
+    ];
+  });
+
+  const stopMarkers: MapMarker[] = orders.flatMap((order) => {
+    const position = addressLocation(orderAddress(order));
+    if (!isOnRoute(order) || !shown(order.riderId) || !position) return [];
+    return [
+      {
+        id: `stop-${order.id}`,
+        kind: "stop" as const,
+        position,
+        label: `${order.customer?.name ?? "Customer"} · ${order.orderId || `#${order.id.slice(-4)}`}`,
+        color: colorFor(order.riderId),
+      },
+    ];
+  });
+
+  const stopCount = (riderId: string) => orders.filter((order) => isOnRoute(order) && order.riderId === riderId).length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Live Map</h1>
+        <p className="text-muted-foreground">Where riders are now and the stops they still have to make</p>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_280px]">
+        <RiderMap source={MAP_SOURCE} markers={[...stopMarkers, ...riderMarkers]} />
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Riders</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {ridersLoading && <p className="text-sm text-muted-foreground">Loading riders...</p>}
+            {!ridersLoading && activeRiders.length === 0 && (
+              <p className="text-sm text-muted-foreground">No active riders</p>
+            )}
+            {activeRiders.map((rider) => {
+              const location = locationFor(rider.id);
+              const selected = selectedRiderId === rider.id;
+              return (
+                <button
+                  key={rider.id}
+                  type="button"
+                  onClick={() => setSelectedRiderId(selected ? null : rider.id)}
+                  className={`flex w-full items-start gap-3 rounded-md border p-2 text-left text-sm hover:bg-muted/50 ${
+                    selected ? "border-primary bg-muted/50" : ""
+                  }`}
+                >
+                  <span
+                    className="mt-1 h-3 w-3 shrink-0 rounded-full"
+                    style={{ backgroundColor: colorFor(rider.id) }}
+                  />
+                  <span className="min-w-0 flex-1 space-y-0.5">
+                    <span className="flex items-center justify-between gap-2">
+                      <span className="truncate font-medium">{rider.name}</span>
+                      <Badge variant="secondary">{stopCount(rider.id)}</Badge>
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {location
+                        ? `Seen ${formatDistanceToNow(new Date(location.recordedAt), { addSuffix: true })}`
+                        : "No position yet"}
+                      {location?.speed != null && location.speed > 0 && ` · ${Math.round(location.speed * 3.6)} km/h`}
+                      {` · ${SHIFT_STATE_LABELS[riderShiftState(rider)].toLowerCase()}`}
+                    </span>
+                  </span>
+                </button>
+              );
+            })}
+            {selectedRiderId && (
+              <p className="pt-1 text-xs text-muted-foreground">Click the rider again to show everyone</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default LiveMap;
@@ -1,39 +1,26 @@
-import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, User, TruckIcon, Package, Calendar } from "lucide-react";
+import { ArrowLeft, User, TruckIcon, Package, Calendar, Camera, MapPin } from "lucide-react";
 import { Link, useParams } from "react-router-dom";
-import { apiService } from "@/services/api";
-import { toast } from "sonner";
+import { useState } from "react";
+import { useOrder } from "@/hooks/use-orders";
 import { AssignRiderDialog } from "@/components/admin/AssignRiderDialog";
+import { OrderTransitionDialog, type TransitionDialogAction } from "@/components/admin/OrderTransitionDialog";
+import { slotLabel } from "@/lib/slots";
+import { ADDRESS_LABEL_NAMES, formatAddress, orderAddress } from "@/lib/addresses";
+import {
+  availableActions,
+  FAILURE_REASON_LABELS,
+  ORDER_ACTION_LABELS,
+  ORDER_EVENT_LABELS,
+} from "@/services/orderLifecycle";
+import type { OrderEvent } from "@/services/apiSchemas";
 
 const OrderDetail = () => {
   const { id } = useParams();
-  const [order, setOrder] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchOrderDetail();
-  }, [id]);
-
-  const fetchOrderDetail = async () => {
-    try {
-      setLoading(true);
-      const response = await apiService.getOrderById(id!);
-      
-      if (response.success) {
-        setOrder(response.data);
-      } else {
-        toast.error('Order not found');
-      }
-    } catch (error) {
-      console.error('Error fetching order:', error);
-      toast.error('Failed to load order details');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: order, isLoading: loading } = useOrder(id);
+  const [pendingAction, setPendingAction] = useState<TransitionDialogAction | null>(null);
 
   const getStatusColor = (status: string) => {
     switch (status?.toUpperCase()) {
@@ -41,6 +28,7 @@ const OrderDetail = () => {
       case 'ASSIGNED': return 'bg-blue-500';
       case 'IN_PROGRESS': return 'bg-purple-500';
       case 'DELIVERED': return 'bg-green-500';
+      case 'FAILED': return 'bg-orange-500';
       case 'CANCELLED': return 'bg-red-500';
       default: return 'bg-gray-500';
     }
@@ -56,12 +44,23 @@ const OrderDetail = () => {
     }
   };
 
-  const timeline = order ? [
-    { status: "Created", time: new Date(order.createdAt).toLocaleString(), completed: true },
-    { status: "Assigned", time: order.riderId ? new Date(order.updatedAt).toLocaleString() : "-", completed: !!order.riderId },
-    { status: "In Progress", time: order.status === 'IN_PROGRESS' || order.status === 'DELIVERED' ? new Date(order.updatedAt).toLocaleString() : "-", completed: order.status === 'IN_PROGRESS' || order.status === 'DELIVERED' },
-    { status: "Delivered", time: order.deliveredAt ? new Date(order.deliveredAt).toLocaleString() : "-", completed: order.status === 'DELIVERED' },
-  ] : [];
+  // Orders from before events were recorded only know when they were created and delivered
+  const timeline: OrderEvent[] = !order
+    ? []
+    : order.events.length > 0
+    ? order.events
+    : [
+        { type: "CREATED", toStatus: "PENDING", createdAt: order.createdAt },
+        ...(order.deliveredAt
+          ? [{ type: "DELIVER" as const, toStatus: "DELIVERED" as const, createdAt: order.deliveredAt }]
+          : []),
+      ];
+
+  const actions = order ? availableActions(order.status) : [];
+  const canAssign = actions.includes("ASSIGN") || actions.includes("REASSIGN");
+  const dialogActions = actions.filter(
+    (action): action is TransitionDialogAction => action !== "ASSIGN" && action !== "REASSIGN" && action !== "DELIVER"
+  );
 
   if (loading) {
     return (
@@ -104,12 +103,39 @@ const OrderDetail = () => {
           <Badge variant="outline">
             {order.priority}
           </Badge>
-          {!order.riderId && order.status === 'PENDING' && (
-            <AssignRiderDialog orderId={order.id} onRiderAssigned={fetchOrderDetail} />
+          {canAssign && (
+            <AssignRiderDialog
+              orderId={order.id}
+              status={order.status}
+              currentRiderId={order.riderId}
+              trigger={
+                <Button variant="outline" size="sm">
+                  <TruckIcon className="mr-2 h-4 w-4" />
+                  {order.riderId ? ORDER_ACTION_LABELS.REASSIGN : ORDER_ACTION_LABELS.ASSIGN}
+                </Button>
+              }
+            />
           )}
+          {dialogActions.map((action) => (
+            <Button
+              key={action}
+              variant={action === "CANCEL" || action === "FAIL" ? "destructive" : "outline"}
+              size="sm"
+              onClick={() => setPendingAction(action)}
+            >
+              {ORDER_ACTION_LABELS[action]}
+            </Button>
+          ))}
         </div>
       </div>
 
+      <OrderTransitionDialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+        order={order}
+        action={pendingAction}
+      />
+
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -134,21 +160,22 @@ const OrderDetail = () => {
               </div>
             )}
             <div>
-              <p className="text-sm text-muted-foreground">Address</p>
-              <p className="font-medium">
-                {[
-                  order.customer.houseNo,
-                  order.customer.streetNo,
-                  order.customer.area,
-                  order.customer.city
-                ].filter(Boolean).join(', ') || 'No address provided'}
+              <p className="text-sm text-muted-foreground">
+                Address{order.deliveryAddress && ` (${ADDRESS_LABEL_NAMES[order.deliveryAddress.label]})`}
               </p>
+              <p className="font-medium">{formatAddress(orderAddress(order)) || 'No address provided'}</p>
+              {order.deliveryAddress?.landmark && (
+                <p className="text-sm text-muted-foreground">Near {order.deliveryAddress.landmark}</p>
+              )}
+              {order.deliveryAddress?.instructions && (
+                <p className="text-sm text-muted-foreground">{order.deliveryAddress.instructions}</p>
+              )}
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Current Balance</p>
-              <p className={`font-medium ${parseFloat(order.customer.currentBalance) < 0 ? 'text-destructive' : 'text-green-600'}`}>
-                ₹{Math.abs(parseFloat(order.customer.currentBalance)).toFixed(2)} 
-                {parseFloat(order.customer.currentBalance) < 0 ? ' (Due)' : parseFloat(order.customer.currentBalance) > 0 ? ' (Credit)' : ''}
+              <p className={`font-medium ${order.customer.currentBalance < 0 ? 'text-destructive' : 'text-green-600'}`}>
+                ₹{Math.abs(order.customer.currentBalance).toFixed(2)} 
+                {order.customer.currentBalance < 0 ? ' (Due)' : order.customer.currentBalance > 0 ? ' (Credit)' : ''}
               </p>
             </div>
           </CardContent>
@@ -176,7 +203,7 @@ const OrderDetail = () => {
             ) : (
               <div className="text-center py-4">
                 <p className="text-muted-foreground mb-3">No rider assigned yet</p>
-                <AssignRiderDialog orderId={order.id} onRiderAssigned={fetchOrderDetail} />
+                {canAssign && <AssignRiderDialog orderId={order.id} status={order.status} />}
               </div>
             )}
           </CardContent>
@@ -191,23 +218,81 @@ const OrderDetail = () => {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          {order.items.length > 0 && (
+            <div className="space-y-2 border-b pb-4">
+              {order.items.map((item, index) => (
+                <div key={item.id ?? index} className="flex justify-between text-sm">
+                  <span>
+                    {item.quantity} × {item.productName}
+                    <span className="text-muted-foreground"> @ ₹{item.unitPrice.toFixed(2)}</span>
+                  </span>
+                  <span className="font-medium">₹{item.lineTotal.toFixed(2)}</span>
+                </div>
+              ))}
+              {order.priceListName && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Price List</span>
+                  <Badge variant="secondary">{order.priceListName}</Badge>
+                </div>
+              )}
+              {order.discountAmount > 0 && (
+                <div className="flex justify-between text-sm text-green-600">
+                  <span>Volume Discount</span>
+                  <span className="font-medium">-₹{order.discountAmount.toFixed(2)}</span>
+                </div>
+              )}
+              {order.deliveryCharge > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Delivery Charge</span>
+                  <span className="font-medium">₹{order.deliveryCharge.toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+          )}
           <div className="flex justify-between">
             <span className="text-muted-foreground">Total Amount</span>
-            <span className="font-medium">₹{parseFloat(order.totalAmount).toFixed(2)}</span>
+            <span className="font-medium">₹{order.totalAmount.toFixed(2)}</span>
           </div>
           <div className="flex justify-between">
             <span className="text-muted-foreground">Paid Amount</span>
-            <span className="font-medium">₹{parseFloat(order.paidAmount).toFixed(2)}</span>
+            <span className="font-medium">₹{order.paidAmount.toFixed(2)}</span>
           </div>
-          {parseFloat(order.totalAmount) - parseFloat(order.paidAmount) !== 0 && (
+          {order.totalAmount - order.paidAmount !== 0 && (
             <div className="flex justify-between">
               <span className="text-muted-foreground">Balance Due</span>
-              <span className="font-medium text-destructive">₹{(parseFloat(order.totalAmount) - parseFloat(order.paidAmount)).toFixed(2)}</span>
+              <span className="font-medium text-destructive">₹{(order.totalAmount - order.paidAmount).toFixed(2)}</span>
+            </div>
+          )}
+          {(order.bottlesDelivered != null || order.emptiesCollected != null) && (
+            <>
+              <div className="flex justify-between border-t pt-4">
+                <span className="text-muted-foreground">Full Bottles Delivered</span>
+                <span className="font-medium">{order.bottlesDelivered ?? 0}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Empties Collected</span>
+                <span className="font-medium">{order.emptiesCollected ?? 0}</span>
+              </div>
+            </>
+          )}
+          {order.scheduledDate && (
+            <div className="flex justify-between border-t pt-4">
+              <span className="text-muted-foreground">Scheduled For</span>
+              <span className="font-medium text-right">
+                {new Date(`${order.scheduledDate}T00:00:00`).toLocaleDateString()}
+                <span className="block text-sm text-muted-foreground">{slotLabel(order.deliverySlot)}</span>
+              </span>
+            </div>
+          )}
+          {order.failureReason && (
+            <div className="flex justify-between border-t pt-4">
+              <span className="text-muted-foreground">Last Failed Attempt</span>
+              <Badge variant="destructive">{FAILURE_REASON_LABELS[order.failureReason]}</Badge>
             </div>
           )}
           <div className="flex justify-between border-t pt-4">
             <span className="text-muted-foreground">Payment Method</span>
-            <span className="font-medium">{order.paymentMethod.replace('_', ' ')}</span>
+            <span className="font-medium">{order.paymentMethod?.replace('_', ' ') || '-'}</span>
           </div>
           {order.notes && (
             <div className="pt-4 border-t">
@@ -228,24 +313,92 @@ const OrderDetail = () => {
         </CardContent>
       </Card>
 
+      {order.proofOfDelivery && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Camera className="h-5 w-5" />
+              {order.status === 'DELIVERED' ? 'Proof of Delivery' : 'Delivery Attempt'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {order.proofOfDelivery.photoUrl && (
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">Photo</p>
+                  <a href={order.proofOfDelivery.photoUrl} target="_blank" rel="noopener noreferrer">
+                    <img
+                      src={order.proofOfDelivery.photoUrl}
+                      alt="Delivery photo"
+                      className="max-h-64 w-full rounded-md border object-cover"
+                    />
+                  </a>
+                </div>
+              )}
+              {order.proofOfDelivery.signatureUrl && (
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">Customer Signature</p>
+                  <img
+                    src={order.proofOfDelivery.signatureUrl}
+                    alt="Customer signature"
+                    className="max-h-64 w-full rounded-md border bg-white object-contain"
+                  />
+                </div>
+              )}
+            </div>
+            {order.proofOfDelivery.latitude != null && order.proofOfDelivery.longitude != null ? (
+              <div className="flex items-center gap-2 text-sm">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                <a
+                  href={`https://www.google.com/maps?q=${order.proofOfDelivery.latitude},${order.proofOfDelivery.longitude}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary underline"
+                >
+                  {order.proofOfDelivery.latitude.toFixed(5)}, {order.proofOfDelivery.longitude.toFixed(5)}
+                </a>
+                {order.proofOfDelivery.accuracy != null && (
+                  <span className="text-muted-foreground">(±{Math.round(order.proofOfDelivery.accuracy)} m)</span>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No location was recorded</p>
+            )}
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Calendar className="h-4 w-4" />
+              <span>Captured: {new Date(order.proofOfDelivery.capturedAt).toLocaleString()}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Delivery Timeline</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {timeline.map((step, index) => (
-              <div key={step.status} className="flex items-center gap-4">
-                <div className={`h-10 w-10 rounded-full flex items-center justify-center ${
-                  step.completed ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
-                }`}>
+            {timeline.map((event, index) => (
+              <div key={event.id ?? index} className="flex items-start gap-4">
+                <div className={`h-10 w-10 shrink-0 rounded-full flex items-center justify-center text-primary-foreground ${getStatusColor(event.toStatus)}`}>
                   {index + 1}
                 </div>
                 <div className="flex-1">
-                  <p className={`font-medium ${step.completed ? "" : "text-muted-foreground"}`}>
-                    {step.status}
+                  <p className="font-medium">{ORDER_EVENT_LABELS[event.type]}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(event.createdAt).toLocaleString()}
+                    {event.actor && ` · by ${event.actor.name}`}
                   </p>
-                  <p className="text-sm text-muted-foreground">{step.time}</p>
+                  {event.riderName && (event.type === "ASSIGN" || event.type === "REASSIGN") && (
+                    <p className="text-sm">Rider: {event.riderName}</p>
+                  )}
+                  {event.type === "RESCHEDULE" && event.scheduledDate && (
+                    <p className="text-sm">
+                      New date: {new Date(`${event.scheduledDate}T00:00:00`).toLocaleDateString()},{" "}
+                      {slotLabel(event.deliverySlot)}
+                    </p>
+                  )}
+                  {event.reason && <p className="text-sm italic text-muted-foreground">"{event.reason}"</p>}
                 </div>
               </div>
             ))}
@@ -1,6 +1,7 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
 import { CreateOrderDialog } from "@/components/admin/CreateOrderDialog";
 import {
@@ -10,35 +11,43 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { apiService } from "@/services/api";
+import type { OrderStatus } from "@/services/apiSchemas";
+import { useOrders } from "@/hooks/use-orders";
+import { useGenerateSubscriptionOrders } from "@/hooks/use-subscriptions";
+import { useZones } from "@/hooks/use-zones";
+import { SUBSCRIPTION_HORIZON_DAYS } from "@/lib/subscriptions";
+import { SLOT_LABELS } from "@/lib/slots";
+import { ALL_ZONES, NO_ZONE, matchesZoneFilter, orderZone } from "@/lib/zones";
+import { reportError } from "@/lib/errors";
+import { Loader2, Repeat } from "lucide-react";
+import { toast } from "sonner";
 
 const Orders = () => {
   const [statusFilter, setStatusFilter] = useState("all");
-  const [orders, setOrders] = useState([]);
-  const [loading, setLoading] = useState(true);
+  const [zoneFilter, setZoneFilter] = useState(ALL_ZONES);
+  const { data: orders = [], isLoading: loading } = useOrders(
+    statusFilter === "all" ? undefined : statusFilter as OrderStatus
+  );
+
+  const { data: zones = [] } = useZones();
+
+  const generateOrders = useGenerateSubscriptionOrders();
+
+  const filteredOrders = orders.filter((order) => matchesZoneFilter(orderZone(order, zones), zoneFilter));
 
-  const fetchOrders = async () => {
+  const handleGenerate = async () => {
     try {
-      setLoading(true);
-      const response = await apiService.getOrders(statusFilter === "all" ? undefined : statusFilter);
-      
-      if (response.success) {
-        setOrders(response.data);
-      }
+      const created = await generateOrders.mutateAsync();
+      toast.success(
+        created > 0
+          ? `Created ${created} subscription ${created === 1 ? "order" : "orders"}`
+          : `Subscription orders for the next ${SUBSCRIPTION_HORIZON_DAYS} days are already in place`
+      );
     } catch (error) {
-      console.error('Error fetching orders:', error);
-      setOrders([]);
-    } finally {
-      setLoading(false);
+      reportError(error, "Failed to generate subscription orders");
     }
   };
 
-  useEffect(() => {
-    fetchOrders();
-  }, [statusFilter]);
-
-  const filteredOrders = orders;
-
   return (
     <div className="space-y-6">
       <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
@@ -47,26 +56,55 @@ const Orders = () => {
           <p className="text-muted-foreground">Manage all delivery orders</p>
         </div>
         
-        <CreateOrderDialog onOrderCreated={fetchOrders} />
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleGenerate} disabled={generateOrders.isPending}>
+            {generateOrders.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Repeat className="mr-2 h-4 w-4" />
+            )}
+            Generate Subscription Orders
+          </Button>
+          <CreateOrderDialog />
+        </div>
       </div>
 
       <Card>
         <CardHeader>
           <div className="flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
             <CardTitle>All Orders</CardTitle>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
-              <SelectTrigger className="w-full md:w-[200px]">
-                <SelectValue placeholder="Filter by status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Orders</SelectItem>
-                <SelectItem value="PENDING">Pending</SelectItem>
-                <SelectItem value="ASSIGNED">Assigned</SelectItem>
-                <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
-                <SelectItem value="DELIVERED">Delivered</SelectItem>
-                <SelectItem value="CANCELLED">Cancelled</SelectItem>
-              </SelectContent>
-            </Select>
+            <div className="flex flex-col gap-2 md:flex-row">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full md:w-[200px]">
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Orders</SelectItem>
+                  <SelectItem value="PENDING">Pending</SelectItem>
+                  <SelectItem value="ASSIGNED">Assigned</SelectItem>
+                  <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
+                  <SelectItem value="DELIVERED">Delivered</SelectItem>
+                  <SelectItem value="FAILED">Failed</SelectItem>
+                  <SelectItem value="CANCELLED">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+              {zones.length > 0 && (
+                <Select value={zoneFilter} onValueChange={setZoneFilter}>
+                  <SelectTrigger className="w-full md:w-[160px]">
+                    <SelectValue placeholder="Filter by zone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ZONES}>All Zones</SelectItem>
+                    {zones.map((zone) => (
+                      <SelectItem key={zone.id} value={zone.id}>
+                        {zone.name}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={NO_ZONE}>No Zone</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -77,14 +115,16 @@ const Orders = () => {
           ) : filteredOrders.length === 0 ? (
             <div className="flex flex-col items-center justify-center p-8 text-center">
               <p className="text-muted-foreground">No orders found</p>
-              <p className="text-sm text-muted-foreground mt-1">Create your first order to get started</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                {zoneFilter === ALL_ZONES ? "Create your first order to get started" : "Try another zone"}
+              </p>
             </div>
           ) : (
             <div className="space-y-2">
             {filteredOrders.map((order) => (
               <Link
                 key={order.id}
-                to={`/admin/orders/${order.id.replace('#', '')}`}
+                to={`/admin/orders/${order.id}`}
                 className="block"
               >
                 <Card className="hover:bg-muted/50 transition-colors">
@@ -92,27 +132,42 @@ const Orders = () => {
                     <div className="flex items-start justify-between gap-4">
                       <div className="space-y-1 flex-1">
                         <div className="flex items-center gap-2">
-                          <p className="font-medium">{order.id}</p>
+                          <p className="font-medium">{order.orderId || `#${order.id.slice(-4)}`}</p>
                           <Badge 
                             variant={
-                              order.status === "delivered" ? "default" : 
-                              order.status === "assigned" ? "secondary" : 
+                              order.status === "DELIVERED" ? "default" : 
+                              order.status === "ASSIGNED" ? "secondary" : 
+                              order.status === "FAILED" ? "destructive" : 
                               "outline"
                             }
                           >
-                            {order.status}
+                            {order.status.replace('_', ' ')}
                           </Badge>
-                          <Badge variant={order.paid ? "default" : "destructive"}>
-                            {order.paid ? "Paid" : "Unpaid"}
+                          <Badge variant={order.paymentStatus === "PAID" || order.paymentStatus === "OVERPAID" ? "default" : "destructive"}>
+                            {order.paymentStatus === "PAID" || order.paymentStatus === "OVERPAID" ? "Paid" : "Unpaid"}
                           </Badge>
+                          {order.subscriptionId && (
+                            <Badge variant="outline">
+                              <Repeat className="mr-1 h-3 w-3" />
+                              Subscription
+                            </Badge>
+                          )}
                         </div>
-                        <p className="text-sm text-muted-foreground">{order.customer}</p>
-                        <p className="text-xs text-muted-foreground">Rider: {order.rider}</p>
+                        <p className="text-sm text-muted-foreground">{order.customer?.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Rider: {order.rider?.name || "Unassigned"}
+                          {orderZone(order, zones) && ` · ${orderZone(order, zones).name}`}
+                        </p>
                       </div>
                       
                       <div className="text-right space-y-1">
-                        <p className="text-lg font-bold">₹{order.amount}</p>
-                        <p className="text-xs text-muted-foreground">{order.date}</p>
+                        <p className="text-lg font-bold">₹{order.totalAmount}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {order.scheduledDate
+                            ? `Due ${new Date(`${order.scheduledDate}T00:00:00`).toLocaleDateString()}`
+                            : new Date(order.createdAt).toLocaleDateString()}
+                          {order.deliverySlot && ` · ${SLOT_LABELS[order.deliverySlot]}`}
+                        </p>
                       </div>
                     </div>
                   </CardContent>
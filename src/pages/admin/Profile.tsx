@@ -6,19 +6,9 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { User, Mail, Phone, Building, Key, Eye, EyeOff } from "lucide-react";
 import { apiService } from "@/services/api";
+import type { User as UserProfile } from "@/services/apiSchemas";
 import { toast } from "sonner";
 
-interface UserProfile {
-  id: string;
-  email: string;
-  phone: string;
-  role: string;
-  profile: {
-    name: string;
-    company?: string;
-  };
-}
-
 const AdminProfile = () => {
   const [user, setUser] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
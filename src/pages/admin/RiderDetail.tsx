@@ -3,36 +3,14 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, Phone, Calendar, Package, MapPin, DollarSign, Clock } from "lucide-react";
 import { Link, useParams } from "react-router-dom";
-import { useEffect, useState } from "react";
-import { apiService } from "@/services/api";
+import { useMemo } from "react";
+import { useRider } from "@/hooks/use-riders";
+import type { RiderDetail as RiderDetailData } from "@/services/apiSchemas";
 import { Skeleton } from "@/components/ui/skeleton";
-
-interface Rider {
-  id: string;
-  name: string;
-  phone: string;
-  email: string;
-  isActive: boolean;
-  createdAt: string;
-  user: {
-    id: string;
-    email: string;
-    phone: string;
-    role: string;
-    isActive: boolean;
-  };
-  orders: Array<{
-    id: string;
-    status: string;
-    totalAmount: number;
-    createdAt: string;
-    deliveredAt?: string;
-    customer: {
-      name: string;
-      phone: string;
-    };
-  }>;
-}
+import { RiderTimesheet } from "@/components/admin/RiderTimesheet";
+import { RiderCashCard } from "@/components/admin/RiderCashCard";
+import { CashSettlementHistory } from "@/components/CashSettlementHistory";
+import { SHIFT_STATE_LABELS, riderShiftState } from "@/lib/shifts";
 
 interface RiderStats {
   totalDeliveries: number;
@@ -44,94 +22,71 @@ interface RiderStats {
   totalEarnings: number;
 }
 
+// Delivery and earnings figures derived from the rider's order history
+const calculateRiderStats = (riderData: RiderDetailData): RiderStats => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  
+  const oneWeekAgo = new Date(today);
+  oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
+  
+  const oneMonthAgo = new Date(today);
+  oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
+  
+  // Today's orders
+  const todaysOrders = riderData.orders.filter(order => {
+    const orderDate = new Date(order.createdAt);
+    return orderDate >= today;
+  });
+  
+  // Weekly orders
+  const weeklyOrders = riderData.orders.filter(order => {
+    const orderDate = new Date(order.createdAt);
+    return orderDate >= oneWeekAgo;
+  });
+  
+  // Monthly orders
+  const monthlyOrders = riderData.orders.filter(order => {
+    const orderDate = new Date(order.createdAt);
+    return orderDate >= oneMonthAgo;
+  });
+  
+  // Today's completed and pending orders
+  const todaysCompleted = todaysOrders.filter(order => order.status === 'DELIVERED');
+  const todaysPending = todaysOrders.filter(order => 
+    order.status === 'ASSIGNED' || order.status === 'IN_PROGRESS'
+  );
+  
+  // Today's received amount (from completed deliveries)
+  const todaysReceivedAmount = todaysCompleted.reduce((sum, order) => 
+    sum + order.totalAmount, 0
+  );
+  
+  // All completed orders for total earnings
+  const completedOrders = riderData.orders.filter(order => order.status === 'DELIVERED');
+  const totalEarnings = completedOrders.reduce((sum, order) => 
+    sum + order.totalAmount, 0
+  );
+  
+  return {
+    totalDeliveries: riderData.orders.length,
+    todaysDeliveries: todaysCompleted.length,
+    todaysPending: todaysPending.length,
+    weeklyDeliveries: weeklyOrders.filter(order => order.status === 'DELIVERED').length,
+    monthlyDeliveries: monthlyOrders.filter(order => order.status === 'DELIVERED').length,
+    todaysReceivedAmount,
+    totalEarnings
+  };
+};
+
 const RiderDetail = () => {
   const { id } = useParams();
-  const [rider, setRider] = useState<Rider | null>(null);
-  const [stats, setStats] = useState<RiderStats | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchRiderData = async () => {
-      if (!id) return;
-      
-      try {
-        setLoading(true);
-        setError(null);
-        
-        const response = await apiService.getRiderById(id);
-        
-        if (response.success) {
-          const riderData = response.data;
-          setRider(riderData);
-          
-          // Calculate stats from the rider data
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          
-          const oneWeekAgo = new Date(today);
-          oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-          
-          const oneMonthAgo = new Date(today);
-          oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-          
-          // Today's orders
-          const todaysOrders = riderData.orders.filter(order => {
-            const orderDate = new Date(order.createdAt);
-            return orderDate >= today;
-          });
-          
-          // Weekly orders
-          const weeklyOrders = riderData.orders.filter(order => {
-            const orderDate = new Date(order.createdAt);
-            return orderDate >= oneWeekAgo;
-          });
-          
-          // Monthly orders
-          const monthlyOrders = riderData.orders.filter(order => {
-            const orderDate = new Date(order.createdAt);
-            return orderDate >= oneMonthAgo;
-          });
-          
-          // Today's completed and pending orders
-          const todaysCompleted = todaysOrders.filter(order => order.status === 'DELIVERED');
-          const todaysPending = todaysOrders.filter(order => 
-            order.status === 'ASSIGNED' || order.status === 'IN_PROGRESS'
-          );
-          
-          // Today's received amount (from completed deliveries)
-          const todaysReceivedAmount = todaysCompleted.reduce((sum, order) => 
-            sum + parseFloat(order.totalAmount.toString()), 0
-          );
-          
-          // All completed orders for total earnings
-          const completedOrders = riderData.orders.filter(order => order.status === 'DELIVERED');
-          const totalEarnings = completedOrders.reduce((sum, order) => 
-            sum + parseFloat(order.totalAmount.toString()), 0
-          );
-          
-          setStats({
-            totalDeliveries: riderData.orders.length,
-            todaysDeliveries: todaysCompleted.length,
-            todaysPending: todaysPending.length,
-            weeklyDeliveries: weeklyOrders.filter(order => order.status === 'DELIVERED').length,
-            monthlyDeliveries: monthlyOrders.filter(order => order.status === 'DELIVERED').length,
-            todaysReceivedAmount,
-            totalEarnings
-          });
-        } else {
-          setError(response.message || 'Failed to fetch rider data');
-        }
-      } catch (error) {
-        console.error('Error fetching rider data:', error);
-        setError('Failed to fetch rider data. Please check your connection and try again.');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchRiderData();
-  }, [id]);
+  // The query is cancelled automatically when we navigate away or to another rider
+  const { data: rider, isLoading: loading, error: queryError } = useRider(id);
+  const stats = useMemo(() => (rider ? calculateRiderStats(rider) : null), [rider]);
+  const error = queryError
+    ? 'Failed to fetch rider data. Please check your connection and try again.'
+    : null;
 
   if (loading) {
     return (
@@ -252,7 +207,12 @@ const RiderDetail = () => {
           </Button>
         </Link>
         <div className="flex-1">
-          <h1 className="text-3xl font-bold">{rider.name}</h1>
+          <div className="flex items-center gap-2">
+            <h1 className="text-3xl font-bold">{rider.name}</h1>
+            <Badge variant={riderShiftState(rider) === "OFF" ? "outline" : "default"}>
+              {SHIFT_STATE_LABELS[riderShiftState(rider)]}
+            </Badge>
+          </div>
           <p className="text-muted-foreground">Rider Details</p>
         </div>
         <Button variant="outline">Assign Order</Button>
@@ -328,6 +288,13 @@ const RiderDetail = () => {
         </CardContent>
       </Card>
 
+      <div className="grid gap-4 lg:grid-cols-2">
+        <RiderCashCard riderId={rider.id} riderName={rider.name} />
+        <CashSettlementHistory riderId={rider.id} />
+      </div>
+
+      <RiderTimesheet riderId={rider.id} />
+
       <Card>
         <CardHeader>
           <CardTitle>Recent Orders</CardTitle>
@@ -355,7 +322,7 @@ const RiderDetail = () => {
                   </div>
                   
                   <div className="text-right space-y-1">
-                      <p className="font-medium">RS {parseFloat(order.totalAmount.toString()).toLocaleString()}</p>
+                      <p className="font-medium">RS {order.totalAmount.toLocaleString()}</p>
                       <div className="flex items-center gap-1 text-sm text-muted-foreground">
                         <Clock className="h-3 w-3" />
                         <span>{formatDate(order.createdAt)}</span>
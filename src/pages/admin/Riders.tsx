@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
@@ -25,38 +25,23 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { apiService } from "@/services/api";
-import { toast } from "sonner";
+import type { Rider } from "@/services/apiSchemas";
+import { useRiders } from "@/hooks/use-riders";
+import { SHIFT_STATE_LABELS, riderShiftState } from "@/lib/shifts";
+import { format } from "date-fns";
 
 const Riders = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
-  const [riders, setRiders] = useState([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [selectedRider, setSelectedRider] = useState(null);
+  const [selectedRider, setSelectedRider] = useState<Rider | null>(null);
+  const { data: riders = [], isLoading: loading, isFetching, error: queryError, refetch } = useRiders();
+  const error = queryError
+    ? 'Failed to fetch riders. Please check your connection and try again.'
+    : null;
 
-  const fetchRiders = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await apiService.getRiders();
-      
-      if (response.success) {
-        setRiders(response.data);
-      } else {
-        setError(response.message || 'Failed to fetch riders');
-      }
-    } catch (error) {
-      console.error('Error fetching riders:', error);
-      setError('Failed to fetch riders. Please check your connection and try again.');
-      setRiders([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const onShiftCount = riders.filter((rider) => rider.isActive && riderShiftState(rider) !== "OFF").length;
 
   const filteredRiders = riders.filter((rider) => {
     const matchesSearch = 
@@ -66,59 +51,44 @@ const Riders = () => {
     
     const matchesStatus = statusFilter === "all" || 
       (statusFilter === "active" && rider.isActive) ||
-      (statusFilter === "inactive" && !rider.isActive);
+      (statusFilter === "inactive" && !rider.isActive) ||
+      (statusFilter === "on-shift" && riderShiftState(rider) !== "OFF");
     
     return matchesSearch && matchesStatus;
   });
 
-  const handleEditRider = (rider) => {
+  const handleEditRider = (rider: Rider) => {
     setSelectedRider(rider);
     setEditDialogOpen(true);
   };
 
-  const handleDeleteRider = (rider) => {
+  const handleDeleteRider = (rider: Rider) => {
     setSelectedRider(rider);
     setDeleteDialogOpen(true);
   };
 
-  const handleRiderUpdated = (updatedRider) => {
-    setRiders(prev => 
-      prev.map(r => 
-        r.id === updatedRider.id ? updatedRider : r
-      )
-    );
+  const handleRiderUpdated = () => {
     setEditDialogOpen(false);
     setSelectedRider(null);
   };
 
-  const handleRiderDeleted = (riderId) => {
-    setRiders(prev => prev.filter(r => r.id !== riderId));
+  const handleRiderDeleted = () => {
     setDeleteDialogOpen(false);
     setSelectedRider(null);
   };
 
-  const handleRiderStatusChange = (riderId, isActive) => {
-    setRiders(prev => 
-      prev.map(r => 
-        r.id === riderId ? { ...r, isActive } : r
-      )
-    );
-  };
-
-  useEffect(() => {
-    fetchRiders();
-  }, []);
-
   return (
     <div className="space-y-6">
       <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
         <div>
           <h1 className="text-3xl font-bold">Riders</h1>
-          <p className="text-muted-foreground">Manage delivery riders</p>
+          <p className="text-muted-foreground">
+            Manage delivery riders · {onShiftCount} on shift now
+          </p>
         </div>
         
         <div className="flex gap-2">
-          <AddRiderDialog onSuccess={fetchRiders} />
+          <AddRiderDialog />
           <AssignRiderDialog />
         </div>
       </div>
@@ -148,15 +118,16 @@ const Riders = () => {
                   <SelectItem value="all">All Riders</SelectItem>
                   <SelectItem value="active">Active Riders</SelectItem>
                   <SelectItem value="inactive">Inactive Riders</SelectItem>
+                  <SelectItem value="on-shift">On Shift Now</SelectItem>
                 </SelectContent>
               </Select>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={fetchRiders}
-                disabled={loading}
+                onClick={() => refetch()}
+                disabled={isFetching}
               >
-                <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
                 Refresh
               </Button>
             </div>
@@ -174,10 +145,10 @@ const Riders = () => {
               <p className="text-muted-foreground text-center mb-4">{error}</p>
               <Button
                 variant="outline"
-                onClick={fetchRiders}
-                disabled={loading}
+                onClick={() => refetch()}
+                disabled={isFetching}
               >
-                <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
                 Try Again
               </Button>
             </div>
@@ -192,7 +163,7 @@ const Riders = () => {
                 }
               </p>
               {(!searchQuery && statusFilter === 'all') && (
-                <AddRiderDialog onSuccess={fetchRiders} />
+                <AddRiderDialog />
               )}
             </div>
           ) : (
@@ -205,6 +176,7 @@ const Riders = () => {
                     <TableHead>Deliveries</TableHead>
                     <TableHead>Pending</TableHead>
                     <TableHead>Performance</TableHead>
+                    <TableHead>Shift</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
@@ -254,11 +226,30 @@ const Riders = () => {
                           <div className="text-xs text-muted-foreground">current orders</div>
                         </div>
                       </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <Badge
+                            variant={
+                              riderShiftState(rider) === "ON"
+                                ? "default"
+                                : riderShiftState(rider) === "BREAK"
+                                ? "secondary"
+                                : "outline"
+                            }
+                          >
+                            {SHIFT_STATE_LABELS[riderShiftState(rider)]}
+                          </Badge>
+                          {rider.currentShift && (
+                            <div className="text-xs text-muted-foreground">
+                              since {format(new Date(rider.currentShift.startedAt), "h:mm a")}
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
                       <TableCell>
                         <RiderStatusToggle
                           riderId={rider.id}
                           isActive={rider.isActive}
-                          onStatusChange={(isActive) => handleRiderStatusChange(rider.id, isActive)}
                         />
                       </TableCell>
                       <TableCell>
@@ -2,7 +2,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { User, Building2, MapPin, LogOut } from "lucide-react";
+import { User, Building2, LogOut } from "lucide-react";
+import { ProductCatalog } from "@/components/admin/ProductCatalog";
+import { SlotCapacitySettings } from "@/components/admin/SlotCapacitySettings";
+import { FailedDeliverySettings } from "@/components/admin/FailedDeliverySettings";
+import { DeliveryZones } from "@/components/admin/DeliveryZones";
 
 const Settings = () => {
   return (
@@ -56,33 +60,13 @@ const Settings = () => {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <MapPin className="h-5 w-5" />
-            Delivery Areas
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <p className="text-sm text-muted-foreground">
-            Manage the areas where you provide delivery services
-          </p>
-          <div className="flex gap-2">
-            <Input placeholder="Add delivery area" />
-            <Button>Add Area</Button>
-          </div>
-          <div className="space-y-2">
-            <div className="flex items-center justify-between p-2 border rounded">
-              <span>Sector 15</span>
-              <Button variant="ghost" size="sm">Remove</Button>
-            </div>
-            <div className="flex items-center justify-between p-2 border rounded">
-              <span>Green Park</span>
-              <Button variant="ghost" size="sm">Remove</Button>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      <ProductCatalog />
+
+      <SlotCapacitySettings />
+
+      <FailedDeliverySettings />
+
+      <DeliveryZones />
 
       <Card className="border-destructive">
         <CardHeader>
@@ -3,59 +3,37 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Package, MapPin, Phone, CheckCircle } from "lucide-react";
+import { Package, MapPin, Phone, CheckCircle, Clock, Navigation } from "lucide-react";
 import { Link } from "react-router-dom";
 import { apiService } from "@/services/api";
+import { useRiderDashboard } from "@/hooks/use-riders";
+import { useOutbox } from "@/hooks/use-outbox";
+import { OutboxStatus } from "@/components/rider/OutboxStatus";
+import { planRoute } from "@/lib/routePlanner";
+import { groupBySlot, slotLabel } from "@/lib/slots";
+import { todayKey } from "@/lib/subscriptions";
 import { toast } from "sonner";
 
 const RiderDashboard = () => {
   const [activeTab, setActiveTab] = useState("assigned");
-  const [assignedDeliveries, setAssignedDeliveries] = useState([]);
-  const [completedDeliveries, setCompletedDeliveries] = useState([]);
-  const [loading, setLoading] = useState(true);
-  const [riderName, setRiderName] = useState("Rider");
-  const [stats, setStats] = useState({ totalToday: 0, completed: 0, pending: 0 });
+  const user = apiService.getCurrentUser();
+  const riderId = user?.riderProfile?.id;
+  const riderName = user?.riderProfile?.name || "Rider";
+  const { data, isLoading } = useRiderDashboard(riderId);
+  // Listed in the order the route planner would visit them
+  const assignedDeliveries = planRoute(data?.assignedDeliveries ?? []).stops;
+  const completedDeliveries = data?.completedDeliveries ?? [];
+  const stats = data?.stats ?? { totalToday: 0, completed: 0, pending: 0 };
+  const loading = !!riderId && isLoading;
+  const { entries } = useOutbox();
+  const unsyncedOrders = new Set(entries.map((entry) => entry.orderId));
+  const today = todayKey();
 
   useEffect(() => {
-    fetchRiderData();
-  }, []);
-
-  const fetchRiderData = async () => {
-    try {
-      setLoading(true);
-      
-      // Get current user from localStorage
-      const user = apiService.getCurrentUser();
-      if (!user || !user.riderProfile) {
-        toast.error('Rider profile not found');
-        return;
-      }
-
-      const riderId = user.riderProfile.id;
-      const riderProfileName = user.riderProfile.name;
-      setRiderName(riderProfileName);
-
-      // Fetch rider dashboard data
-      const response = await apiService.getRiderDashboard(riderId);
-      
-      if (response.success) {
-        setAssignedDeliveries(response.data.assignedDeliveries || []);
-        setCompletedDeliveries(response.data.completedDeliveries || []);
-        setStats(response.data.stats || { totalToday: 0, completed: 0, pending: 0 });
-      } else {
-        toast.error('Failed to load dashboard data');
-        setAssignedDeliveries([]);
-        setCompletedDeliveries([]);
-      }
-    } catch (error) {
-      console.error('Error fetching rider data:', error);
-      toast.error('Failed to load dashboard data');
-      setAssignedDeliveries([]);
-      setCompletedDeliveries([]);
-    } finally {
-      setLoading(false);
+    if (!riderId) {
+      toast.error('Rider profile not found');
     }
-  };
+  }, [riderId]);
 
   if (loading) {
     return (
@@ -70,11 +48,23 @@ const RiderDashboard = () => {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Hi, {riderName}! 👋</h1>
-        <p className="text-muted-foreground">You have {stats.pending} pending deliveries today</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Hi, {riderName}! 👋</h1>
+          <p className="text-muted-foreground">You have {stats.pending} pending deliveries today</p>
+        </div>
+        {assignedDeliveries.length > 0 && (
+          <Link to="/rider/route">
+            <Button>
+              <Navigation className="mr-2 h-4 w-4" />
+              Start Route
+            </Button>
+          </Link>
+        )}
       </div>
 
+      <OutboxStatus />
+
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="pb-2">
@@ -120,43 +110,61 @@ const RiderDashboard = () => {
               </CardContent>
             </Card>
           ) : (
-            assignedDeliveries.map((delivery) => (
-            <Card key={delivery.id}>
-              <CardContent className="p-4 space-y-3">
-                <div className="flex items-start justify-between">
-                  <div className="space-y-1">
-                    <div className="flex items-center gap-2">
-                      <p className="font-bold">{delivery.id}</p>
-                      <Badge variant="secondary">Assigned</Badge>
-                    </div>
-                    <p className="font-medium">{delivery.customer}</p>
-                  </div>
-                  <div className="text-right">
-                    <p className="font-bold text-lg">₹{delivery.amount}</p>
-                    <p className="text-sm text-muted-foreground">{delivery.bottles} bottles</p>
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <div className="flex items-start gap-2 text-sm">
-                    <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
-                    <span className="text-muted-foreground">{delivery.address}</span>
-                  </div>
-                  <div className="flex items-center gap-2 text-sm">
-                    <Phone className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-muted-foreground">{delivery.phone}</span>
-                  </div>
-                </div>
-
-                <Link to={`/rider/orders/${delivery.id.replace('#', '')}`}>
-                  <Button className="w-full">
-                    <CheckCircle className="mr-2 h-4 w-4" />
-                    Mark as Delivered
-                  </Button>
-                </Link>
-              </CardContent>
-            </Card>
-          ))
+            groupBySlot(assignedDeliveries).map((group) => (
+              <div key={group.slot ?? "any"} className="space-y-3">
+                <h2 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+                  <Clock className="h-4 w-4" />
+                  {slotLabel(group.slot)}
+                  <Badge variant="outline">{group.items.length}</Badge>
+                </h2>
+                {group.items.map((delivery) => (
+                  <Card key={delivery.id}>
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <p className="font-bold">{delivery.id}</p>
+                            {unsyncedOrders.has(delivery.id.replace('#', '')) ? (
+                              <Badge variant="outline" className="border-orange-300 text-orange-600">Pending sync</Badge>
+                            ) : (
+                              <Badge variant="secondary">Assigned</Badge>
+                            )}
+                          </div>
+                          <p className="font-medium">{delivery.customer}</p>
+                          {delivery.scheduledDate && delivery.scheduledDate !== today && (
+                            <p className="text-xs text-muted-foreground">
+                              Due {new Date(`${delivery.scheduledDate}T00:00:00`).toLocaleDateString()}
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <p className="font-bold text-lg">₹{delivery.amount}</p>
+                          <p className="text-sm text-muted-foreground">{delivery.bottles} bottles</p>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <div className="flex items-start gap-2 text-sm">
+                          <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+                          <span className="text-muted-foreground">{delivery.address}</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm">
+                          <Phone className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-muted-foreground">{delivery.phone}</span>
+                        </div>
+                      </div>
+
+                      <Link to={`/rider/orders/${delivery.id.replace('#', '')}`}>
+                        <Button className="w-full">
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                          Mark as Delivered
+                        </Button>
+                      </Link>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ))
           )}
         </TabsContent>
 
@@ -1,12 +1,26 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { ArrowLeft, MapPin, Phone, Package } from "lucide-react";
-import { Link, useParams, useNavigate } from "react-router-dom";
+import { ArrowLeft, MapPin, Phone, Package, Loader2, Camera, PenLine, Droplet } from "lucide-react";
+import { Link, useLocation, useParams, useNavigate } from "react-router-dom";
 import { toast } from "sonner";
+import { useOrder } from "@/hooks/use-orders";
+import { useOutbox } from "@/hooks/use-outbox";
+import { reportError } from "@/lib/errors";
+import { balanceAfterPayment, derivePaymentStatus } from "@/lib/payments";
+import { compressImage } from "@/lib/image";
+import { getCurrentFix } from "@/lib/geolocation";
+import { returnableQuantity } from "@/lib/pricing";
+import { formatAddress, orderAddress } from "@/lib/addresses";
+import { directionsUrl } from "@/lib/routePlanner";
+import { SignaturePad } from "@/components/rider/SignaturePad";
+import { FailedDeliveryDialog } from "@/components/rider/FailedDeliveryDialog";
+import { FAILURE_REASON_LABELS, nextStatus } from "@/services/orderLifecycle";
+import type { PaymentStatus } from "@/services/apiSchemas";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,36 +33,162 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
+const paymentLabels: Record<PaymentStatus, string> = {
+  PAID: "Paid in full",
+  PARTIAL: "Partially paid",
+  OVERPAID: "Overpaid",
+  NOT_PAID: "Not paid",
+};
+
+const formatBalance = (balance: number) =>
+  balance < 0 ? `₹${Math.abs(balance).toFixed(2)} due` : balance > 0 ? `₹${balance.toFixed(2)} credit` : "Clear";
+
 const RiderOrderDetail = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  // Route mode sends the rider back to the next stop
+  const returnTo = (useLocation().state as { returnTo?: string } | null)?.returnTo ?? "/rider";
+  const { data: order, isLoading } = useOrder(id);
+  const { enqueue, isOnline } = useOutbox();
   const [amount, setAmount] = useState("");
   const [notes, setNotes] = useState("");
+  const [bottlesDelivered, setBottlesDelivered] = useState("");
+  const [emptiesCollected, setEmptiesCollected] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [photo, setPhoto] = useState<Blob | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [processingPhoto, setProcessingPhoto] = useState(false);
+  const [signature, setSignature] = useState<Blob | null>(null);
+
+  // Start from the full amount; most customers pay exactly what they owe
+  const totalAmount = order?.totalAmount;
+  useEffect(() => {
+    if (totalAmount !== undefined) {
+      setAmount(String(totalAmount));
+    }
+  }, [totalAmount]);
+
+  // Expect every returnable container on the order to go out
+  const expectedBottles = order ? returnableQuantity(order.items) : 0;
+  useEffect(() => {
+    if (expectedBottles > 0) {
+      setBottlesDelivered(String(expectedBottles));
+    }
+  }, [expectedBottles]);
 
-  const order = {
-    id: `#${id}`,
-    customer: "Vikram Singh",
-    phone: "+91 98765 43212",
-    address: "123, Rose Garden, Sector 20",
-    bottles: 7,
-    totalAmount: 630,
+  // Release the preview's object URL when it is replaced or the page unmounts
+  useEffect(() => {
+    return () => {
+      if (photoPreview) URL.revokeObjectURL(photoPreview);
+    };
+  }, [photoPreview]);
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setProcessingPhoto(true);
+      const compressed = await compressImage(file);
+      setPhoto(compressed);
+      setPhotoPreview(URL.createObjectURL(compressed));
+    } catch (error) {
+      reportError(error, "Could not process the photo. Please try again.");
+    } finally {
+      setProcessingPhoto(false);
+    }
   };
 
-  const handleDeliveryComplete = (status: "paid" | "unpaid" | "overpaid") => {
-    toast.success(`Order ${order.id} marked as delivered (${status})`);
-    navigate("/rider");
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading order...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
+        <p className="text-muted-foreground">Order not found</p>
+        <Link to={returnTo}>
+          <Button>Back to Dashboard</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const orderLabel = `#${order.orderId || order.id.slice(-4)}`;
+  const customer = order.customer;
+  const deliveryAddress = orderAddress(order);
+  const address = formatAddress(deliveryAddress);
+  const paidAmount = Math.max(parseFloat(amount) || 0, 0);
+  const paymentStatus = derivePaymentStatus(paidAmount, order.totalAmount);
+  const currentBalance = customer?.currentBalance ?? 0;
+  const newBalance = balanceAfterPayment(currentBalance, paidAmount, order.totalAmount);
+  const alreadyDelivered = order.status === "DELIVERED";
+  // Only what the lifecycle allows from here; a pending order is not the
+  // rider's to deliver yet
+  const canDeliver = nextStatus(order.status, "DELIVER") !== null;
+  const canFail = nextStatus(order.status, "FAIL") !== null;
+  const closed = !canDeliver && !canFail;
+  const fullBottles = Math.max(parseInt(bottlesDelivered) || 0, 0);
+  const empties = Math.max(parseInt(emptiesCollected) || 0, 0);
+  const bottlesHeld = customer?.bottleCount ?? 0;
+  const bottlesAfter = bottlesHeld + fullBottles - empties;
+
+  const handleDeliveryComplete = async () => {
+    try {
+      setSubmitting(true);
+      const capturedAt = new Date().toISOString();
+      const location = await getCurrentFix();
+
+      // Queued so the delivery is never lost when there is no signal
+      await enqueue({
+        type: "DELIVERY_COMPLETE",
+        orderId: order.id,
+        input: {
+          expectedStatus: order.status,
+          paidAmount,
+          paymentStatus,
+          bottlesDelivered: fullBottles,
+          emptiesCollected: empties,
+          notes: notes.trim() || undefined,
+        },
+      });
+      await enqueue({
+        type: "DELIVERY_PROOF",
+        orderId: order.id,
+        proof: { photo, signature, location, capturedAt },
+      });
+
+      // Only queued so far; the outbox on the dashboard reports a rejection
+      toast.success(`Order ${orderLabel} saved as delivered (${paymentLabels[paymentStatus].toLowerCase()})`, {
+        description: isOnline
+          ? "Syncing now. Your dashboard will show it if the office can't accept it."
+          : "It will sync automatically when you're back online",
+      });
+      navigate(returnTo);
+    } catch (error) {
+      reportError(error, "Failed to save delivery. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
-        <Link to="/rider">
+        <Link to={returnTo}>
           <Button variant="ghost" size="icon">
             <ArrowLeft className="h-5 w-5" />
           </Button>
         </Link>
         <div>
-          <h1 className="text-2xl font-bold">Order {order.id}</h1>
+          <h1 className="text-2xl font-bold">Order {orderLabel}</h1>
           <p className="text-muted-foreground">Mark delivery status</p>
         </div>
       </div>
@@ -60,17 +200,47 @@ const RiderOrderDetail = () => {
         <CardContent className="space-y-3">
           <div>
             <p className="text-sm text-muted-foreground">Name</p>
-            <p className="font-medium text-lg">{order.customer}</p>
-          </div>
-          <div className="flex items-center gap-2">
-            <Phone className="h-4 w-4 text-muted-foreground" />
-            <a href={`tel:${order.phone}`} className="text-primary underline">
-              {order.phone}
-            </a>
+            <p className="font-medium text-lg">{customer?.name || "Unknown customer"}</p>
           </div>
+          {customer?.phone && (
+            <div className="flex items-center gap-2">
+              <Phone className="h-4 w-4 text-muted-foreground" />
+              <a href={`tel:${customer.phone}`} className="text-primary underline">
+                {customer.phone}
+              </a>
+            </div>
+          )}
           <div className="flex items-start gap-2">
             <MapPin className="h-4 w-4 text-muted-foreground mt-1" />
-            <p className="text-muted-foreground">{order.address}</p>
+            <div className="space-y-1">
+              <p className="text-muted-foreground">{address || "No address provided"}</p>
+              {deliveryAddress?.landmark && (
+                <p className="text-sm text-muted-foreground">Near {deliveryAddress.landmark}</p>
+              )}
+              {deliveryAddress?.instructions && (
+                <p className="text-sm font-medium">{deliveryAddress.instructions}</p>
+              )}
+              {(address || deliveryAddress?.latitude != null) && (
+                <a
+                  href={directionsUrl({ ...deliveryAddress, address })}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-primary underline"
+                >
+                  Open in Maps
+                </a>
+              )}
+            </div>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-muted-foreground">Bottles With Customer</span>
+            <span className="font-medium">{bottlesHeld}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-muted-foreground">Current Balance</span>
+            <span className={`font-medium ${currentBalance < 0 ? "text-destructive" : "text-green-600"}`}>
+              {formatBalance(currentBalance)}
+            </span>
           </div>
         </CardContent>
       </Card>
@@ -83,10 +253,18 @@ const RiderOrderDetail = () => {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex justify-between items-center">
-            <span className="text-muted-foreground">Quantity</span>
-            <span className="font-medium">{order.bottles} bottles</span>
-          </div>
+          {order.notes && (
+            <div>
+              <p className="text-sm text-muted-foreground">Instructions</p>
+              <p className="text-sm">{order.notes}</p>
+            </div>
+          )}
+          {order.items.map((item, index) => (
+            <div key={item.id ?? index} className="flex justify-between items-center">
+              <span>{item.quantity} × {item.productName}</span>
+              <span>₹{item.lineTotal}</span>
+            </div>
+          ))}
           <div className="flex justify-between items-center text-lg font-bold border-t pt-4">
             <span>Total Amount</span>
             <span>₹{order.totalAmount}</span>
@@ -94,100 +272,189 @@ const RiderOrderDetail = () => {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Payment Details (Optional)</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="amount">Amount Received</Label>
-            <Input
-              id="amount"
-              type="number"
-              placeholder="Enter amount"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="notes">Notes</Label>
-            <Textarea
-              id="notes"
-              placeholder="Add any notes about the delivery"
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-            />
-          </div>
-        </CardContent>
-      </Card>
+      {closed ? (
+        <Card>
+          <CardContent className="py-6 text-center">
+            {alreadyDelivered ? (
+              <>
+                <p className="font-medium">This order has already been delivered</p>
+                <p className="text-sm text-muted-foreground">{paymentLabels[order.paymentStatus]}</p>
+              </>
+            ) : order.status === "FAILED" ? (
+              <>
+                <p className="font-medium">This order was reported as not delivered</p>
+                {order.failureReason && (
+                  <p className="text-sm text-muted-foreground">{FAILURE_REASON_LABELS[order.failureReason]}</p>
+                )}
+              </>
+            ) : order.status === "CANCELLED" ? (
+              <p className="font-medium">This order has been cancelled</p>
+            ) : (
+              <p className="font-medium">This order hasn't been assigned for delivery yet</p>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Droplet className="h-5 w-5" />
+                Bottles
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="bottlesDelivered">Full Bottles Delivered</Label>
+                  <Input
+                    id="bottlesDelivered"
+                    type="number"
+                    min="0"
+                    inputMode="numeric"
+                    placeholder="0"
+                    value={bottlesDelivered}
+                    onChange={(e) => setBottlesDelivered(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="emptiesCollected">Empties Collected</Label>
+                  <Input
+                    id="emptiesCollected"
+                    type="number"
+                    min="0"
+                    inputMode="numeric"
+                    placeholder="0"
+                    value={emptiesCollected}
+                    onChange={(e) => setEmptiesCollected(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">With Customer After Delivery</span>
+                <span className="font-medium">{Math.max(bottlesAfter, 0)}</span>
+              </div>
+              {bottlesAfter < 0 && (
+                <p className="text-sm text-orange-600">
+                  More empties than the customer should have. Please double-check the count.
+                </p>
+              )}
+            </CardContent>
+          </Card>
 
-      <div className="space-y-3">
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button className="w-full" size="lg" variant="default">
-              Delivered (Paid)
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Confirm Delivery</AlertDialogTitle>
-              <AlertDialogDescription>
-                Mark order {order.id} as delivered and payment received?
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={() => handleDeliveryComplete("paid")}>
-                Confirm
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button className="w-full" size="lg" variant="outline">
-              Delivered (Not Paid)
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Confirm Delivery</AlertDialogTitle>
-              <AlertDialogDescription>
-                Mark order {order.id} as delivered but payment not received?
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={() => handleDeliveryComplete("unpaid")}>
-                Confirm
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button className="w-full" size="lg" variant="secondary">
-              Delivered (Overpaid)
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Confirm Delivery</AlertDialogTitle>
-              <AlertDialogDescription>
-                Mark order {order.id} as delivered with overpayment?
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={() => handleDeliveryComplete("overpaid")}>
-                Confirm
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-      </div>
+          <Card>
+            <CardHeader>
+              <CardTitle>Payment Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="amount">Amount Received</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Enter amount"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">Payment</span>
+                <Badge variant={paymentStatus === "NOT_PAID" ? "destructive" : paymentStatus === "PARTIAL" ? "secondary" : "default"}>
+                  {paymentLabels[paymentStatus]}
+                </Badge>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">Balance After Delivery</span>
+                <span className={`font-medium ${newBalance < 0 ? "text-destructive" : "text-green-600"}`}>
+                  {formatBalance(newBalance)}
+                </span>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  placeholder="Add any notes about the delivery"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Proof of Delivery</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="photo" className="flex items-center gap-2">
+                  <Camera className="h-4 w-4" />
+                  Photo
+                </Label>
+                {photoPreview && (
+                  <img src={photoPreview} alt="Delivery" className="max-h-48 w-full rounded-md object-cover" />
+                )}
+                <Input
+                  id="photo"
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  onChange={handlePhotoChange}
+                  disabled={processingPhoto}
+                />
+                {processingPhoto && <p className="text-sm text-muted-foreground">Compressing photo...</p>}
+              </div>
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <PenLine className="h-4 w-4" />
+                  Customer Signature
+                </Label>
+                <SignaturePad onChange={setSignature} />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Your location and the time are recorded when you confirm the delivery.
+              </p>
+            </CardContent>
+          </Card>
+
+          {canDeliver && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button className="w-full" size="lg" disabled={submitting || processingPhoto}>
+                  {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Mark as Delivered
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Confirm Delivery</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Mark order {orderLabel} as delivered with ₹{paidAmount.toFixed(2)} received
+                    ({paymentLabels[paymentStatus].toLowerCase()})? The customer's balance will be {formatBalance(newBalance).toLowerCase()}.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDeliveryComplete}>
+                    Confirm
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+
+          {canFail && (
+            <FailedDeliveryDialog
+              orderId={order.id}
+              orderLabel={orderLabel}
+              disabled={submitting || processingPhoto}
+              onReported={() => navigate(returnTo)}
+            />
+          )}
+        </>
+      )}
     </div>
   );
 };
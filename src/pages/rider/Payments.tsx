@@ -1,114 +1,138 @@
+import { useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { DollarSign, TrendingUp } from "lucide-react";
+import { DollarSign, HandCoins, Loader2, Wallet } from "lucide-react";
+import { format, isToday } from "date-fns";
+import { toast } from "sonner";
+import { apiService } from "@/services/api";
+import { useRiderCash, useRiderSettlements } from "@/hooks/use-rider-cash";
+import { useOutbox } from "@/hooks/use-outbox";
+import { CashSettlementHistory } from "@/components/CashSettlementHistory";
+import { SETTLEMENT_OUTCOME_LABELS, settlementOutcome } from "@/lib/payments";
 
 const RiderPayments = () => {
-  const summary = {
-    totalCollected: 3150,
-    todayCollected: 720,
-    pendingCollection: 990,
-  };
+  const user = apiService.getCurrentUser();
+  const riderId = user?.riderProfile?.id;
+  const { data: wallet, isLoading } = useRiderCash(riderId);
+  const { data: settlements = [] } = useRiderSettlements(riderId);
+  const { pending } = useOutbox();
+  // Cash taken offline reaches the wallet once the delivery syncs
+  const unsyncedCollections = pending.filter(
+    (entry) => entry.type === "DELIVERY_COMPLETE" || entry.type === "PAYMENT_COLLECTED"
+  ).length;
 
-  const paidOrders = [
-    { id: "#1234", customer: "Ramesh Kumar", amount: 450, time: "10:30 AM" },
-    { id: "#1235", customer: "Priya Sharma", amount: 270, time: "11:15 AM" },
-  ];
+  const collections = wallet?.collections ?? [];
+  const todaysCollections = collections.filter((collection) => isToday(new Date(collection.collectedAt)));
+  const todaysTotal = todaysCollections.reduce((sum, collection) => sum + collection.amount, 0);
+  const lastSettlement = settlements[0];
 
-  const unpaidOrders = [
-    { id: "#1236", customer: "Vikram Singh", amount: 630 },
-    { id: "#1238", customer: "Suresh Reddy", amount: 360 },
-  ];
+  useEffect(() => {
+    if (!riderId) {
+      toast.error("Rider profile not found");
+    }
+  }, [riderId]);
+
+  if (riderId && isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold">Payments Summary</h1>
-        <p className="text-muted-foreground">Track your collections</p>
+        <p className="text-muted-foreground">Track your collections and hand cash back to the office</p>
       </div>
 
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Total Collected</CardTitle>
-            <TrendingUp className="h-4 w-4 text-success" />
+            <CardTitle className="text-sm font-medium">Cash in Hand</CardTitle>
+            <Wallet className="h-4 w-4 text-primary" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">₹{summary.totalCollected}</div>
-            <p className="text-xs text-muted-foreground">This week</p>
+            <div className="text-2xl font-bold">₹{(wallet?.balance ?? 0).toFixed(2)}</div>
+            <p className="text-xs text-muted-foreground">To hand over at the end of the day</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Today's Collection</CardTitle>
-            <DollarSign className="h-4 w-4 text-primary" />
+            <DollarSign className="h-4 w-4 text-success" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">₹{summary.todayCollected}</div>
-            <p className="text-xs text-muted-foreground">{paidOrders.length} orders</p>
+            <div className="text-2xl font-bold">₹{todaysTotal.toFixed(2)}</div>
+            <p className="text-xs text-muted-foreground">{todaysCollections.length} orders</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Pending</CardTitle>
-            <DollarSign className="h-4 w-4 text-warning" />
+            <CardTitle className="text-sm font-medium">Last Settlement</CardTitle>
+            <HandCoins className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">₹{summary.pendingCollection}</div>
-            <p className="text-xs text-muted-foreground">{unpaidOrders.length} orders</p>
+            {lastSettlement ? (
+              <>
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl font-bold">₹{lastSettlement.countedAmount.toFixed(2)}</span>
+                  <Badge variant={settlementOutcome(lastSettlement.difference) === "SHORT" ? "destructive" : "secondary"}>
+                    {SETTLEMENT_OUTCOME_LABELS[settlementOutcome(lastSettlement.difference)]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(lastSettlement.settledAt), "EEE, MMM d, h:mm a")}
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="text-2xl font-bold">—</div>
+                <p className="text-xs text-muted-foreground">No cash settled yet</p>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Paid Orders (Today)</CardTitle>
+          <CardTitle>Collections to Hand Over</CardTitle>
         </CardHeader>
-        <CardContent>
-          <div className="space-y-2">
-            {paidOrders.map((order) => (
-              <Card key={order.id} className="bg-success/5">
+        <CardContent className="space-y-2">
+          {unsyncedCollections > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {unsyncedCollections} {unsyncedCollections === 1 ? "delivery is" : "deliveries are"} waiting to sync
+              and will show here once you're back online.
+            </p>
+          )}
+          {collections.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No cash to hand over</p>
+          ) : (
+            collections.map((collection) => (
+              <Card key={collection.orderId} className="bg-success/5">
                 <CardContent className="flex items-center justify-between p-4">
                   <div className="space-y-1">
-                    <div className="flex items-center gap-2">
-                      <p className="font-medium">{order.id}</p>
-                      <Badge variant="default">Paid</Badge>
-                    </div>
-                    <p className="text-sm text-muted-foreground">{order.customer}</p>
-                    <p className="text-xs text-muted-foreground">{order.time}</p>
+                    <p className="font-medium">#{collection.orderNumber || collection.orderId.slice(-4)}</p>
+                    {collection.customer && (
+                      <p className="text-sm text-muted-foreground">{collection.customer.name}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(collection.collectedAt), "MMM d, h:mm a")}
+                    </p>
                   </div>
-                  <p className="text-lg font-bold">₹{order.amount}</p>
+                  <p className="text-lg font-bold">₹{collection.amount.toFixed(2)}</p>
                 </CardContent>
               </Card>
-            ))}
-          </div>
+            ))
+          )}
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Unpaid Orders</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-2">
-            {unpaidOrders.map((order) => (
-              <Card key={order.id} className="bg-destructive/5">
-                <CardContent className="flex items-center justify-between p-4">
-                  <div className="space-y-1">
-                    <div className="flex items-center gap-2">
-                      <p className="font-medium">{order.id}</p>
-                      <Badge variant="destructive">Unpaid</Badge>
-                    </div>
-                    <p className="text-sm text-muted-foreground">{order.customer}</p>
-                  </div>
-                  <p className="text-lg font-bold">₹{order.amount}</p>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+      {riderId && <CashSettlementHistory riderId={riderId} />}
     </div>
   );
 };
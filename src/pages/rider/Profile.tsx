@@ -5,19 +5,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { User, Mail, Phone, Key, Eye, EyeOff } from "lucide-react";
 import { apiService } from "@/services/api";
+import type { User as UserProfile } from "@/services/apiSchemas";
 import { toast } from "sonner";
 
-interface UserProfile {
-  id: string;
-  email: string;
-  phone: string;
-  role: string;
-  profile: {
-    name: string;
-    phone: string;
-  };
-}
-
 const RiderProfile = () => {
   const [user, setUser] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
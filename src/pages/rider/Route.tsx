@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CheckCircle, Clock, Loader2, MapPin, Navigation, Phone, RefreshCw, SkipForward } from "lucide-react";
+import { Link } from "react-router-dom";
+import { apiService } from "@/services/api";
+import { useRiderDashboard } from "@/hooks/use-riders";
+import { useOutbox } from "@/hooks/use-outbox";
+import { useRoutePlan } from "@/hooks/use-route-plan";
+import { OutboxStatus } from "@/components/rider/OutboxStatus";
+import { directionsUrl, stopLocation } from "@/lib/routePlanner";
+import { slotLabel } from "@/lib/slots";
+import type { RiderDelivery } from "@/services/apiSchemas";
+
+const orderKey = (delivery: RiderDelivery) => delivery.id.replace("#", "");
+
+const RiderRoute = () => {
+  const user = apiService.getCurrentUser();
+  const riderId = user?.riderProfile?.id;
+  const { data } = useRiderDashboard(riderId);
+  const { entries } = useOutbox();
+  const { route, start, skip, finish } = useRoutePlan(riderId);
+  const [planning, setPlanning] = useState(false);
+
+  const assigned = data?.assignedDeliveries;
+  const assignedIds = new Set((assigned ?? []).map((delivery) => delivery.id));
+  const unsyncedOrders = new Set(entries.map((entry) => entry.orderId));
+  // A stop is done once it is reported on this device, or, when the
+  // dashboard has loaded, once it is no longer assigned to the rider
+  const isDone = (stop: RiderDelivery) =>
+    unsyncedOrders.has(orderKey(stop)) || (assigned !== undefined && !assignedIds.has(stop.id));
+
+  const remaining = route?.stops.filter((stop) => !isDone(stop)) ?? [];
+  const plannedIds = new Set(route?.stops.map((stop) => stop.id));
+  const newDeliveries = (assigned ?? []).filter((delivery) => !plannedIds.has(delivery.id));
+  const [current, ...upcoming] = remaining;
+
+  const handlePlan = async () => {
+    setPlanning(true);
+    try {
+      await start((assigned ?? []).filter((delivery) => !unsyncedOrders.has(orderKey(delivery))));
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  // Re-plan from here with whatever is still to do, including new orders
+  const handleReplan = async () => {
+    setPlanning(true);
+    try {
+      await start([...remaining, ...newDeliveries]);
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link to="/rider">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">Route</h1>
+          {route && (
+            <p className="text-sm text-muted-foreground">
+              {route.stops.length - remaining.length} of {route.stops.length} stops done
+              {route.distanceKm > 0 && ` · about ${route.distanceKm.toFixed(1)} km`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <OutboxStatus />
+
+      {!route && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center gap-4 py-12">
+            <Navigation className="h-12 w-12 text-muted-foreground opacity-50" />
+            <p className="text-center text-sm text-muted-foreground">
+              Plan the best order to visit your {assigned?.length ?? 0} assigned deliveries
+            </p>
+            <Button onClick={handlePlan} disabled={planning || !assigned?.length}>
+              {planning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Navigation className="mr-2 h-4 w-4" />}
+              Start Route
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {route && newDeliveries.length > 0 && (
+        <Card className="border-primary">
+          <CardContent className="flex items-center justify-between gap-3 p-4">
+            <p className="text-sm">
+              {newDeliveries.length} new {newDeliveries.length === 1 ? "delivery" : "deliveries"} assigned
+            </p>
+            <Button size="sm" variant="outline" onClick={handleReplan} disabled={planning}>
+              {planning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Re-plan
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {route && !current && (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center gap-4 py-12">
+            <CheckCircle className="h-12 w-12 text-green-600" />
+            <p className="text-lg font-medium">Route complete</p>
+            <Link to="/rider" onClick={finish}>
+              <Button>Finish</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
+      {current && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center justify-between text-base">
+              <span>
+                Stop {route.stops.length - remaining.length + 1}: {current.customer}
+              </span>
+              {current.priority === "URGENT" && <Badge variant="destructive">Urgent</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2 text-sm">
+              <div className="flex items-start gap-2">
+                <MapPin className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                <div>
+                  <p className="text-muted-foreground">{current.address}</p>
+                  {current.landmark && <p className="text-muted-foreground">Near {current.landmark}</p>}
+                  {current.instructions && <p className="font-medium">{current.instructions}</p>}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                <span className="text-muted-foreground">{slotLabel(current.deliverySlot)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">
+                  {current.id} · {current.bottles} bottles
+                </span>
+                <span className="font-bold">₹{current.amount}</span>
+              </div>
+              {!stopLocation(current) && (
+                <p className="text-xs text-orange-600">No map location saved; directions use the address</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button asChild size="lg">
+                <a href={directionsUrl(current)} target="_blank" rel="noopener noreferrer">
+                  <Navigation className="mr-2 h-4 w-4" />
+                  Navigate
+                </a>
+              </Button>
+              {current.phone && (
+                <Button asChild size="lg" variant="outline">
+                  <a href={`tel:${current.phone}`}>
+                    <Phone className="mr-2 h-4 w-4" />
+                    Call
+                  </a>
+                </Button>
+              )}
+            </div>
+
+            <Link to={`/rider/orders/${orderKey(current)}`} state={{ returnTo: "/rider/route" }}>
+              <Button className="w-full" size="lg">
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Arrived: Deliver
+              </Button>
+            </Link>
+            {upcoming.length > 0 && (
+              <Button variant="ghost" className="w-full" onClick={() => skip(current.id)}>
+                <SkipForward className="mr-2 h-4 w-4" />
+                Skip for now
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {upcoming.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-sm font-semibold text-muted-foreground">Up next</h2>
+          {upcoming.map((stop, i) => (
+            <Card key={stop.id}>
+              <CardContent className="flex items-center gap-3 p-3">
+                <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-bold">
+                  {route.stops.length - remaining.length + i + 2}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{stop.customer}</p>
+                  <p className="truncate text-xs text-muted-foreground">{stop.address}</p>
+                </div>
+                <span className="text-xs text-muted-foreground">{slotLabel(stop.deliverySlot)}</span>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiderRoute;
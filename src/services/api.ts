@@ -1,172 +1,590 @@
-import { API_BASE_URL, API_ENDPOINTS } from '../config/api';
+import { z } from 'zod';
+import { API_BASE_URL, API_ENDPOINTS, API_REQUEST_DEFAULTS } from '../config/api';
+import {
+  AuthError,
+  NetworkError,
+  ResponseValidationError,
+  SessionExpiredError,
+  TimeoutError,
+  ValidationError,
+  createApiError,
+  isAbortError,
+} from './apiErrors';
+import { sessionManager, type SessionTokens } from './sessionManager';
+import { offlineOutbox, type OutboxEntry } from './offlineOutbox';
+import { nextStatus, transitionProblem } from './orderLifecycle';
+import {
+  envelope,
+  ActivitySchema,
+  CustomerDetailSchema,
+  CustomerSchema,
+  DashboardStatsSchema,
+  LoginResultSchema,
+  OrderSchema,
+  PaymentSchema,
+  ProductSchema,
+  PriceListSchema,
+  HolidaySchema,
+  SubscriptionSchema,
+  SlotCapacitySchema,
+  DeliverySettingsSchema,
+  DeliveryZoneSchema,
+  RefreshResultSchema,
+  RiderDashboardSchema,
+  RiderDetailSchema,
+  RiderSchema,
+  RiderLocationSchema,
+  RiderShiftSchema,
+  RiderCashWalletSchema,
+  CashSettlementSchema,
+  UserSchema,
+  VerifyResultSchema,
+  type CashSettlementInput,
+  type CreateOrderInput,
+  type CustomerInput,
+  type DeliverySettings,
+  type DeliveryCompletionInput,
+  type DeliveryZoneInput,
+  type DeliveryProofInput,
+  type OrderStatus,
+  type OrderTransitionInput,
+  type PaymentUpdateInput,
+  type ProductInput,
+  type RiderInput,
+  type ShiftActionInput,
+  type SlotCapacity,
+  type SubscriptionInput,
+  type User,
+} from './apiSchemas';
+
+interface RequestOptions extends RequestInit {
+  // Skip the Authorization header and session handling (login, refresh)
+  skipAuth?: boolean;
+  // Per-attempt timeout in ms
+  timeout?: number;
+  // Automatic retries; defaults to MAX_RETRIES for idempotent methods, 0 otherwise
+  retries?: number;
+}
 
-class ApiService {
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${API_BASE_URL}${endpoint}`;
-    
-    const config: RequestInit = {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
+// Per-call controls exposed on the public read methods
+export type CallOptions = Pick<RequestOptions, 'signal' | 'timeout' | 'retries'>;
+
+interface RawResponse {
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  body: unknown;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Exponential backoff with full jitter
+const backoffDelay = (attempt: number) => {
+  const { RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } = API_REQUEST_DEFAULTS;
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+};
+
+// Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+const abortError = () => new DOMException('The request was aborted', 'AbortError');
+
+// setTimeout as a promise that rejects early if the signal aborts
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
     };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+class ApiService {
+  constructor() {
+    sessionManager.setRefresher((refreshToken) => this.requestTokenRefresh(refreshToken));
+    offlineOutbox.setSender((entry) => this.sendOutboxEntry(entry));
+  }
 
+  private async request<T>(
+    endpoint: string,
+    schema: z.ZodType<T>,
+    options: RequestOptions = {},
+    isRetry = false
+  ): Promise<T> {
+    const url = `${API_BASE_URL}${endpoint}`;
+    const { skipAuth, timeout = API_REQUEST_DEFAULTS.TIMEOUT_MS, retries, signal, ...init } = options;
+    const method = (init.method || 'GET').toUpperCase();
+    const maxRetries = retries ?? (IDEMPOTENT_METHODS.includes(method) ? API_REQUEST_DEFAULTS.MAX_RETRIES : 0);
 
     try {
-      const response = await fetch(url, config);
-      
-      if (!response.ok) {
-        // Try to get error message from response
-        let errorMessage = `HTTP error! status: ${response.status}`;
+      const token = skipAuth ? null : await sessionManager.getValidAccessToken();
+      const config: RequestInit = {
+        ...init,
+        headers: {
+          // Let the browser set the multipart boundary for uploads
+          ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+          ...init.headers,
+        },
+      };
+
+      let response: RawResponse;
+      for (let attempt = 0; ; attempt++) {
+        const canRetry = attempt < maxRetries;
+
         try {
-          const errorData = await response.json();
-          if (errorData.message) {
-            errorMessage = errorData.message;
-          }
-        } catch (e) {
-          // If we can't parse the error response, use the default message
+          response = await this.send(url, endpoint, config, timeout, signal);
+        } catch (error) {
+          // Network failure or timeout
+          if (!canRetry || isAbortError(error)) throw error;
+          await sleep(backoffDelay(attempt), signal);
+          continue;
         }
-        throw new Error(errorMessage);
+
+        if (!canRetry || !isRetryableStatus(response.status)) break;
+
+        // Honour the server's Retry-After, but give up rather than stall the UI
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        if (retryAfter !== null && retryAfter > API_REQUEST_DEFAULTS.RETRY_MAX_DELAY_MS) break;
+        await sleep(retryAfter ?? backoffDelay(attempt), signal);
+      }
+
+      // Expired or revoked credentials: refresh once, otherwise end the session.
+      // If another request already rotated the token, just retry with it.
+      if (!skipAuth && response.status === 401) {
+        if (!isRetry && (sessionManager.getAccessToken() !== token || await sessionManager.refresh())) {
+          return this.request(endpoint, schema, options, true);
+        }
+        sessionManager.end('expired');
+        throw new SessionExpiredError(endpoint);
+      }
+
+      // Some endpoints report failures as { success: false } with a 2xx status
+      const body = response.body as { success?: unknown } | null;
+      if (!response.ok || body?.success === false) {
+        throw createApiError(endpoint, response.status, response.body);
       }
       
-      const data = await response.json();
-      return data;
+      return this.parse(endpoint, schema, response.body);
     } catch (error) {
-      console.error('API request failed:', error);
+      if (!isAbortError(error)) {
+        console.error('API request failed:', error);
+      }
       throw error;
     }
   }
 
+  // One fetch attempt, bounded by the timeout and the caller's signal.
+  // The body is read here so a stalled download also counts against the timeout.
+  private async send(
+    url: string,
+    endpoint: string,
+    config: RequestInit,
+    timeout: number,
+    signal?: AbortSignal | null
+  ): Promise<RawResponse> {
+    if (signal?.aborted) throw abortError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetch(url, { ...config, signal: controller.signal });
+      const text = await response.text();
+
+      let body: unknown = null;
+      try {
+        body = text ? JSON.parse(text) : null;
+      } catch (e) {
+        // Non-JSON body; callers fall back to the status code
+      }
+
+      return { status: response.status, ok: response.ok, headers: response.headers, body };
+    } catch (error) {
+      if (timedOut) throw new TimeoutError(endpoint, timeout);
+      if (isAbortError(error)) throw error;
+      // fetch only rejects outright when the request could not be sent
+      throw new NetworkError(endpoint);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Exchange a refresh token for new tokens; used by the session manager
+  private async requestTokenRefresh(refreshToken: string): Promise<SessionTokens | null> {
+    const response = await this.request(API_ENDPOINTS.AUTH_REFRESH, envelope(RefreshResultSchema), {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken }),
+      skipAuth: true,
+    });
+    return response.success && response.data ? response.data : null;
+  }
+
+  // Replay a queued rider mutation. The idempotency key makes retrying
+  // non-idempotent methods safe, so they get the same retries as reads.
+  private async sendOutboxEntry(entry: OutboxEntry) {
+    if (entry.type === 'DELIVERY_COMPLETE') {
+      return this.completeDelivery(entry.orderId, entry.body as DeliveryCompletionInput, { idempotencyKey: entry.id });
+    }
+    if (entry.type === 'DELIVERY_PROOF') {
+      return this.uploadDeliveryProof(entry.orderId, entry.body as DeliveryProofInput, { idempotencyKey: entry.id });
+    }
+
+    return this.request(entry.endpoint, envelope(z.unknown()), {
+      method: entry.method,
+      body: JSON.stringify(entry.body),
+      headers: { 'Idempotency-Key': entry.id },
+      retries: API_REQUEST_DEFAULTS.MAX_RETRIES,
+    });
+  }
+
+  // Validate a response body against its schema
+  private parse<T>(endpoint: string, schema: z.ZodType<T>, data: unknown): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      throw new ResponseValidationError(endpoint, result.error.issues);
+    }
+    return result.data;
+  }
+
   // Dashboard API
-  async getDashboardStats() {
-    return this.request(API_ENDPOINTS.DASHBOARD_STATS);
+  async getDashboardStats(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.DASHBOARD_STATS, envelope(DashboardStatsSchema), options);
   }
 
-  async getRecentActivities() {
-    return this.request(API_ENDPOINTS.DASHBOARD_ACTIVITIES);
+  async getRecentActivities(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.DASHBOARD_ACTIVITIES, envelope(z.array(ActivitySchema)), options);
   }
 
   // Orders API
-  async getOrders(status?: string) {
+  async getOrders(status?: OrderStatus, options: CallOptions = {}) {
     const params = status ? `?status=${status}` : '';
-    return this.request(`${API_ENDPOINTS.ORDERS}${params}`);
+    return this.request(`${API_ENDPOINTS.ORDERS}${params}`, envelope(z.array(OrderSchema)), options);
   }
 
-  async getOrderById(id: string) {
-    return this.request(API_ENDPOINTS.ORDER_BY_ID(id));
+  async getOrderById(id: string, options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.ORDER_BY_ID(id), envelope(OrderSchema), options);
   }
 
-  async createOrder(orderData: any) {
-    return this.request(API_ENDPOINTS.ORDERS, {
+  // Generated orders pass an idempotency key so a repeated run cannot duplicate them
+  async createOrder(orderData: CreateOrderInput, options: { idempotencyKey?: string } = {}) {
+    const { idempotencyKey } = options;
+    return this.request(API_ENDPOINTS.ORDERS, envelope(OrderSchema), {
       method: 'POST',
       body: JSON.stringify(orderData),
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      retries: idempotencyKey ? API_REQUEST_DEFAULTS.MAX_RETRIES : 0,
     });
   }
 
-  async updateOrderStatus(id: string, status: string, riderId?: string) {
-    return this.request(API_ENDPOINTS.ORDER_BY_ID(id), {
+  // Moves an order along its lifecycle from `from`, the status the caller
+  // last saw. Invalid steps are refused here; the backend refuses stale
+  // ones with a 409 and records the step in the order's event history.
+  async updateOrderStatus(id: string, from: OrderStatus, transition: OrderTransitionInput) {
+    const endpoint = API_ENDPOINTS.ORDER_BY_ID(id);
+    const problem = transitionProblem(from, transition);
+    if (problem) throw new ValidationError(endpoint, problem.message, problem.fieldErrors);
+
+    return this.request(endpoint, envelope(OrderSchema), {
       method: 'PATCH',
-      body: JSON.stringify({ status, riderId }),
+      body: JSON.stringify({
+        ...transition,
+        reason: transition.reason?.trim() || undefined,
+        status: nextStatus(from, transition.action),
+        expectedStatus: from,
+      }),
+    });
+  }
+
+  // Marks the order delivered and records what the rider collected.
+  // Checked against the lifecycle like any other transition; the
+  // idempotency key lets an outbox replay retry safely.
+  async completeDelivery(id: string, input: DeliveryCompletionInput, options: { idempotencyKey?: string } = {}) {
+    const { idempotencyKey } = options;
+    const endpoint = API_ENDPOINTS.ORDER_DELIVERY(id);
+    // Deliveries queued before the status was recorded are left to the backend
+    const problem = input.expectedStatus && transitionProblem(input.expectedStatus, { action: 'DELIVER' });
+    if (problem) throw new ValidationError(endpoint, problem.message, problem.fieldErrors);
+
+    return this.request(endpoint, envelope(OrderSchema), {
+      method: 'POST',
+      body: JSON.stringify(input),
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      retries: idempotencyKey ? API_REQUEST_DEFAULTS.MAX_RETRIES : 0,
+    });
+  }
+
+  // Upload the photo, signature and GPS fix captured at the door
+  async uploadDeliveryProof(id: string, proof: DeliveryProofInput, options: { idempotencyKey?: string } = {}) {
+    const { idempotencyKey } = options;
+    const form = new FormData();
+    if (proof.photo) form.append('photo', proof.photo, 'photo.jpg');
+    if (proof.signature) form.append('signature', proof.signature, 'signature.png');
+    if (proof.location) {
+      form.append('latitude', String(proof.location.latitude));
+      form.append('longitude', String(proof.location.longitude));
+      form.append('accuracy', String(proof.location.accuracy));
+    }
+    form.append('capturedAt', proof.capturedAt);
+
+    return this.request(API_ENDPOINTS.ORDER_PROOF(id), envelope(OrderSchema), {
+      method: 'POST',
+      body: form,
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      timeout: API_REQUEST_DEFAULTS.UPLOAD_TIMEOUT_MS,
+      retries: idempotencyKey ? API_REQUEST_DEFAULTS.MAX_RETRIES : 0,
     });
   }
 
   // Customers API
-  async getCustomers(status?: string) {
+  async getCustomers(status?: string, options: CallOptions = {}) {
     const params = status ? `?status=${status}` : '';
-    return this.request(`${API_ENDPOINTS.CUSTOMERS}${params}`);
+    return this.request(`${API_ENDPOINTS.CUSTOMERS}${params}`, envelope(z.array(CustomerSchema)), options);
   }
 
-  async getCustomerById(id: string) {
-    return this.request(API_ENDPOINTS.CUSTOMER_BY_ID(id));
+  async getCustomerById(id: string, options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.CUSTOMER_BY_ID(id), envelope(CustomerDetailSchema), options);
   }
 
-  async updateCustomer(id: string, customerData: any) {
-    return this.request(API_ENDPOINTS.CUSTOMER_BY_ID(id), {
+  async updateCustomer(id: string, customerData: CustomerInput) {
+    return this.request(API_ENDPOINTS.CUSTOMER_BY_ID(id), envelope(CustomerSchema), {
       method: 'PUT',
       body: JSON.stringify(customerData),
     });
   }
 
   async updateCustomerStatus(id: string, isActive: boolean) {
-    return this.request(API_ENDPOINTS.CUSTOMER_STATUS(id), {
+    return this.request(API_ENDPOINTS.CUSTOMER_STATUS(id), envelope(CustomerSchema), {
       method: 'PATCH',
       body: JSON.stringify({ isActive }),
     });
   }
 
-  async createCustomer(customerData: any) {
-    try {
-      const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.CUSTOMERS}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(customerData),
-      });
+  async createCustomer(customerData: CustomerInput) {
+    return this.request(API_ENDPOINTS.CUSTOMERS, envelope(CustomerSchema), {
+      method: 'POST',
+      body: JSON.stringify(customerData),
+    });
+  }
 
-      const data = await response.json();
-      console.log('Raw API Response:', data);
-      
-      if (!response.ok) {
-        throw new Error(data.message || `HTTP error! status: ${response.status}`);
-      }
-      
-      return data;
-    } catch (error) {
-      console.error('API Service Error:', error);
-      throw error;
-    }
+  // Products API
+  async getProducts(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.PRODUCTS, envelope(z.array(ProductSchema)), options);
+  }
+
+  async createProduct(productData: ProductInput) {
+    return this.request(API_ENDPOINTS.PRODUCTS, envelope(ProductSchema), {
+      method: 'POST',
+      body: JSON.stringify(productData),
+    });
+  }
+
+  // Products are archived with isActive rather than deleted, since orders reference them
+  async updateProduct(id: string, productData: ProductInput) {
+    return this.request(API_ENDPOINTS.PRODUCT_BY_ID(id), envelope(ProductSchema), {
+      method: 'PUT',
+      body: JSON.stringify(productData),
+    });
+  }
+
+  // Price lists API
+  async getPriceLists(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.PRICE_LISTS, envelope(z.array(PriceListSchema)), options);
+  }
+
+  // Subscriptions API
+  async getSubscriptions(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.SUBSCRIPTIONS, envelope(z.array(SubscriptionSchema)), options);
+  }
+
+  async getCustomerSubscriptions(customerId: string, options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.CUSTOMER_SUBSCRIPTIONS(customerId), envelope(z.array(SubscriptionSchema)), options);
+  }
+
+  async createSubscription(subscriptionData: SubscriptionInput) {
+    return this.request(API_ENDPOINTS.SUBSCRIPTIONS, envelope(SubscriptionSchema), {
+      method: 'POST',
+      body: JSON.stringify(subscriptionData),
+    });
+  }
+
+  // Also used to pause and resume
+  async updateSubscription(id: string, subscriptionData: SubscriptionInput) {
+    return this.request(API_ENDPOINTS.SUBSCRIPTION_BY_ID(id), envelope(SubscriptionSchema), {
+      method: 'PUT',
+      body: JSON.stringify(subscriptionData),
+    });
+  }
+
+  async getHolidays(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.HOLIDAYS, envelope(z.array(HolidaySchema)), options);
+  }
+
+  // Delivery slots API
+  async getSlotCapacities(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.SLOT_CAPACITIES, envelope(z.array(SlotCapacitySchema)), options);
+  }
+
+  // Replaces the whole table, so removed rows are dropped
+  async updateSlotCapacities(capacities: SlotCapacity[]) {
+    return this.request(API_ENDPOINTS.SLOT_CAPACITIES, envelope(z.array(SlotCapacitySchema)), {
+      method: 'PUT',
+      body: JSON.stringify(capacities),
+    });
+  }
+
+  async getDeliverySettings(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.DELIVERY_SETTINGS, envelope(DeliverySettingsSchema), options);
+  }
+
+  async updateDeliverySettings(settings: DeliverySettings) {
+    return this.request(API_ENDPOINTS.DELIVERY_SETTINGS, envelope(DeliverySettingsSchema), {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  // Delivery zones API
+  async getZones(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.ZONES, envelope(z.array(DeliveryZoneSchema)), options);
+  }
+
+  async createZone(zoneData: DeliveryZoneInput) {
+    return this.request(API_ENDPOINTS.ZONES, envelope(DeliveryZoneSchema), {
+      method: 'POST',
+      body: JSON.stringify(zoneData),
+    });
+  }
+
+  // The backend re-files customers whose pin moves in or out of a changed boundary
+  async updateZone(id: string, zoneData: DeliveryZoneInput) {
+    return this.request(API_ENDPOINTS.ZONE_BY_ID(id), envelope(DeliveryZoneSchema), {
+      method: 'PUT',
+      body: JSON.stringify(zoneData),
+    });
+  }
+
+  // Customers and orders in the zone keep their addresses and lose the zone
+  async deleteZone(id: string) {
+    return this.request(API_ENDPOINTS.ZONE_BY_ID(id), envelope(z.unknown()), {
+      method: 'DELETE',
+    });
   }
 
   // Riders API
-  async getRiders() {
-    return this.request(API_ENDPOINTS.RIDERS);
+  async getRiders(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.RIDERS, envelope(z.array(RiderSchema)), options);
+  }
+
+  async getRiderById(id: string, options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.RIDER_BY_ID(id), envelope(RiderDetailSchema), options);
   }
 
-  async getRiderById(id: string) {
-    return this.request(API_ENDPOINTS.RIDER_BY_ID(id));
+  async getRiderDashboard(riderId: string, options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.RIDER_DASHBOARD(riderId), envelope(RiderDashboardSchema), options);
   }
 
-  async getRiderDashboard(riderId: string) {
-    return this.request(API_ENDPOINTS.RIDER_DASHBOARD(riderId));
+  // Last known position of every rider who has shared one
+  async getRiderLocations(options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.RIDER_LOCATIONS, envelope(z.array(RiderLocationSchema)), options);
   }
 
-  async createRider(riderData: any) {
-    return this.request(API_ENDPOINTS.RIDERS, {
+  // Shifts that started within the range of calendar days (YYYY-MM-DD), newest first
+  async getRiderShifts(riderId: string, range: { from: string; to: string }, options: CallOptions = {}) {
+    const params = `?from=${range.from}&to=${range.to}`;
+    return this.request(`${API_ENDPOINTS.RIDER_SHIFTS(riderId)}${params}`, envelope(z.array(RiderShiftSchema)), options);
+  }
+
+  // Clock in or out, or start or end a break. Returns the shift as it
+  // stands afterwards; the backend refuses steps that do not fit, such as
+  // a break while off shift, with a 409.
+  async updateShift(riderId: string, input: ShiftActionInput) {
+    return this.request(API_ENDPOINTS.RIDER_SHIFTS(riderId), envelope(RiderShiftSchema), {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  // Cash the rider has collected and not yet handed back
+  async getRiderCash(riderId: string, options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.RIDER_CASH(riderId), envelope(RiderCashWalletSchema), options);
+  }
+
+  async getRiderSettlements(riderId: string, options: CallOptions = {}) {
+    return this.request(API_ENDPOINTS.RIDER_SETTLEMENTS(riderId), envelope(z.array(CashSettlementSchema)), options);
+  }
+
+  // Records the cash the admin counted at handover and empties the
+  // rider's wallet. The backend works out the difference and refuses a
+  // stale expected amount with a 409.
+  async settleRiderCash(riderId: string, input: CashSettlementInput) {
+    return this.request(API_ENDPOINTS.RIDER_SETTLEMENTS(riderId), envelope(CashSettlementSchema), {
+      method: 'POST',
+      body: JSON.stringify({ ...input, notes: input.notes?.trim() || undefined }),
+    });
+  }
+
+  async createRider(riderData: RiderInput) {
+    return this.request(API_ENDPOINTS.RIDERS, envelope(RiderSchema), {
       method: 'POST',
       body: JSON.stringify(riderData),
     });
   }
 
-  async updateRider(id: string, riderData: any) {
-    return this.request(API_ENDPOINTS.RIDER_BY_ID(id), {
+  async updateRider(id: string, riderData: RiderInput) {
+    return this.request(API_ENDPOINTS.RIDER_BY_ID(id), envelope(RiderSchema), {
       method: 'PUT',
       body: JSON.stringify(riderData),
     });
   }
 
   async updateRiderStatus(id: string, isActive: boolean) {
-    return this.request(`${API_ENDPOINTS.RIDER_BY_ID(id)}/status`, {
+    return this.request(`${API_ENDPOINTS.RIDER_BY_ID(id)}/status`, envelope(RiderSchema), {
       method: 'PATCH',
       body: JSON.stringify({ isActive }),
     });
   }
 
   async deleteRider(id: string) {
-    return this.request(API_ENDPOINTS.RIDER_BY_ID(id), {
+    return this.request(API_ENDPOINTS.RIDER_BY_ID(id), envelope(z.unknown()), {
       method: 'DELETE',
     });
   }
 
   // Payments API
-  async getPayments(status?: string) {
+  async getPayments(status?: string, options: CallOptions = {}) {
     const params = status ? `?status=${status}` : '';
-    return this.request(`${API_ENDPOINTS.PAYMENTS}${params}`);
+    return this.request(`${API_ENDPOINTS.PAYMENTS}${params}`, envelope(z.array(PaymentSchema)), options);
   }
 
-  async updatePaymentStatus(id: string, paymentData: any) {
-    return this.request(API_ENDPOINTS.PAYMENT_BY_ID(id), {
+  async updatePaymentStatus(id: string, paymentData: PaymentUpdateInput) {
+    return this.request(API_ENDPOINTS.PAYMENT_BY_ID(id), envelope(PaymentSchema), {
       method: 'PATCH',
       body: JSON.stringify(paymentData),
     });
@@ -174,65 +592,66 @@ class ApiService {
 
   // Authentication
   async login(credentials: { email: string; password: string }) {
-    return this.request('/auth/login', {
+    const response = await this.request(API_ENDPOINTS.AUTH_LOGIN, envelope(LoginResultSchema), {
       method: 'POST',
       body: JSON.stringify(credentials),
+      skipAuth: true,
     });
+
+    if (response.success && response.data) {
+      sessionManager.start(response.data);
+    }
+    return response;
   }
 
+  // Signs out this tab and every other open tab
   async logout() {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+    sessionManager.end('logout');
   }
 
   async verifyToken() {
-    const token = this.getAuthToken();
-    if (!token) {
-      throw new Error('No token found');
+    if (!this.getAuthToken()) {
+      throw new AuthError(API_ENDPOINTS.AUTH_VERIFY);
     }
     
-    return this.request('/auth/verify', {
-      headers: {
-        'Authorization': `Bearer ${token}`
-      }
-    });
+    return this.request(API_ENDPOINTS.AUTH_VERIFY, envelope(VerifyResultSchema));
   }
 
   async updatePassword(passwordData: { currentPassword: string; newPassword: string }) {
-    const token = this.getAuthToken();
-    if (!token) {
-      throw new Error('No token found');
+    if (!this.getAuthToken()) {
+      throw new AuthError(API_ENDPOINTS.AUTH_UPDATE_PASSWORD);
     }
     
-    return this.request('/auth/update-password', {
+    return this.request(API_ENDPOINTS.AUTH_UPDATE_PASSWORD, envelope(z.unknown()), {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`
-      },
       body: JSON.stringify(passwordData),
     });
   }
 
   getAuthToken() {
-    return localStorage.getItem('token');
+    return sessionManager.getAccessToken();
   }
 
-  getCurrentUser() {
-    const user = localStorage.getItem('user');
-    return user ? JSON.parse(user) : null;
+  getCurrentUser(): User | null {
+    const user = sessionManager.getStoredUser();
+    if (!user) return null;
+
+    // Stored users predate schema changes, so treat a mismatch as logged out
+    const result = UserSchema.safeParse(user);
+    return result.success ? result.data : null;
   }
 
   isAuthenticated() {
-    return !!this.getAuthToken();
+    return sessionManager.hasSession();
   }
 
   // Connection test
   async testConnection() {
-    return this.request(API_ENDPOINTS.TEST);
+    return this.request(API_ENDPOINTS.TEST, z.unknown());
   }
 
   async healthCheck() {
-    return this.request(API_ENDPOINTS.HEALTH);
+    return this.request(API_ENDPOINTS.HEALTH, z.unknown());
   }
 }
 
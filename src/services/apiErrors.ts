@@ -0,0 +1,225 @@
+/**
+ * API Errors
+ * Every failure ApiService reports is an ApiError subclass, so callers can
+ * tell a network problem from a bad form submission or a server fault
+ */
+
+import type { ZodIssue } from 'zod';
+
+// Per-field messages keyed by request body field name
+export type FieldErrors = Record<string, string>;
+
+interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Base class for every error raised by ApiService
+ */
+export class ApiError extends Error {
+  readonly endpoint: string;
+  readonly status?: number;
+  // Machine-readable code from the backend, e.g. DUPLICATE_ENTRY
+  readonly code?: string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(endpoint: string, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.endpoint = endpoint;
+    this.status = options.status;
+    this.code = options.code;
+    this.details = options.details;
+  }
+}
+
+/**
+ * The request never reached the server (offline, DNS, CORS)
+ */
+export class NetworkError extends ApiError {
+  constructor(endpoint: string, message = 'Unable to reach the server. Please check your connection.') {
+    super(endpoint, message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Raised when a request (including any retries) takes longer than its timeout
+ */
+export class TimeoutError extends ApiError {
+  readonly timeout: number;
+
+  constructor(endpoint: string, timeout: number) {
+    super(endpoint, `Request to ${endpoint} timed out after ${timeout / 1000}s`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * 401 - the request was not authenticated
+ */
+export class AuthError extends ApiError {
+  constructor(endpoint: string, message = 'Please sign in to continue.', options: ApiErrorOptions = {}) {
+    super(endpoint, message, { status: 401, ...options });
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Raised when the backend rejects our credentials and a token refresh
+ * could not recover the session. The user has already been signed out.
+ */
+export class SessionExpiredError extends AuthError {
+  constructor(endpoint: string, message = 'Your session has expired. Please sign in again.') {
+    super(endpoint, message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * 403 - signed in, but not allowed to do this
+ */
+export class ForbiddenError extends ApiError {
+  constructor(endpoint: string, message = 'You do not have permission to do that.', options: ApiErrorOptions = {}) {
+    super(endpoint, message, { status: 403, ...options });
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * 404 - the record does not exist (or was deleted)
+ */
+export class NotFoundError extends ApiError {
+  constructor(endpoint: string, message = 'The requested record was not found.', options: ApiErrorOptions = {}) {
+    super(endpoint, message, { status: 404, ...options });
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 400/422 - the submitted data was rejected. `fieldErrors` maps request
+ * fields to messages so forms can show them inline.
+ */
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(endpoint: string, message: string, fieldErrors: FieldErrors = {}, options: ApiErrorOptions = {}) {
+    super(endpoint, message, { status: 422, ...options });
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * 409 - the change clashes with existing data, e.g. a duplicate phone number
+ */
+export class ConflictError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(endpoint: string, message: string, fieldErrors: FieldErrors = {}, options: ApiErrorOptions = {}) {
+    super(endpoint, message, { status: 409, ...options });
+    this.name = 'ConflictError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * 5xx (and anything else unexpected) - the backend failed
+ */
+export class ServerError extends ApiError {
+  constructor(endpoint: string, message = 'Something went wrong on the server.', options: ApiErrorOptions = {}) {
+    super(endpoint, message, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Raised when the backend responds with a body that does not match
+ * the schema the client expects (i.e. the API contract has drifted)
+ */
+export class ResponseValidationError extends ApiError {
+  readonly issues: ZodIssue[];
+
+  constructor(endpoint: string, issues: ZodIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(endpoint, `Unexpected response from ${endpoint}: ${summary}`);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Whether an error comes from the caller cancelling the request
+ * (e.g. a page unmounting), which should not be reported to the user
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+// Error body shapes our backend (and its validation middleware) produce
+interface ErrorBody {
+  message?: string;
+  error?: string;
+  details?: Record<string, unknown>;
+  errors?: Array<{ field?: string; path?: string | string[]; param?: string; message?: string; msg?: string }>;
+}
+
+/**
+ * Pull per-field messages out of an error body. Understands
+ * `details.field` (duplicate checks), `details.fieldErrors` and an
+ * `errors` array as sent by express-validator or zod.
+ */
+const extractFieldErrors = (body: ErrorBody): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+
+  if (typeof body.details?.field === 'string') {
+    fieldErrors[body.details.field] = body.message || 'Invalid value';
+  }
+
+  const nested = body.details?.fieldErrors;
+  if (nested && typeof nested === 'object') {
+    Object.entries(nested as Record<string, unknown>).forEach(([field, messages]) => {
+      const message = Array.isArray(messages) ? messages[0] : messages;
+      if (typeof message === 'string') fieldErrors[field] = message;
+    });
+  }
+
+  body.errors?.forEach((entry) => {
+    const path = Array.isArray(entry.path) ? entry.path.join('.') : entry.path;
+    const field = entry.field || path || entry.param;
+    const message = entry.message || entry.msg;
+    if (field && message && !fieldErrors[field]) fieldErrors[field] = message;
+  });
+
+  return fieldErrors;
+};
+
+/**
+ * Build the right ApiError subclass from an HTTP status and error body.
+ * Also used for `{ success: false }` envelopes sent with a 2xx status,
+ * where the backend's error code decides the class.
+ */
+export const createApiError = (endpoint: string, status: number, rawBody: unknown): ApiError => {
+  const body: ErrorBody = rawBody && typeof rawBody === 'object' ? (rawBody as ErrorBody) : {};
+  const options: ApiErrorOptions = { status, code: body.error, details: body.details };
+  const message = body.message;
+
+  if (status === 401) return new AuthError(endpoint, message, options);
+  if (status === 403) return new ForbiddenError(endpoint, message, options);
+  if (status === 404) return new NotFoundError(endpoint, message, options);
+  if (status === 409 || body.error === 'DUPLICATE_ENTRY') {
+    return new ConflictError(endpoint, message || 'This record already exists.', extractFieldErrors(body), options);
+  }
+  if (status === 429) {
+    return new ServerError(endpoint, message || 'The server is busy. Please try again shortly.', options);
+  }
+  if (status < 500) {
+    return new ValidationError(endpoint, message || 'Please check the form and try again.', extractFieldErrors(body), options);
+  }
+  return new ServerError(endpoint, message, options);
+};
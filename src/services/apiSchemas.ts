@@ -0,0 +1,1108 @@
+/**
+ * API Schemas
+ * Single source of truth for the shapes returned by the backend.
+ * Every ApiService method validates its response against one of these.
+ */
+
+import { z } from 'zod';
+
+// z.infer marks every key optional while strictNullChecks is off,
+// so each schema is pinned to a hand-written interface instead. Optionality
+// is stripped from both sides before comparing, since it carries no
+// information in this mode; keys and value types must then match both ways.
+type DeepRequired<T> = T extends (infer U)[]
+  ? DeepRequired<U>[]
+  : T extends object
+    ? { [K in keyof T]-?: DeepRequired<T[K]> }
+    : T;
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type SchemaFor<T, S extends z.ZodTypeAny> =
+  Same<DeepRequired<z.output<S>>, DeepRequired<T>> extends true ? S : never;
+
+// Curried so T is given and the schema's own type is inferred. A schema
+// that drifts from its interface fails to compile, reported as the schema
+// not being assignable to `never`.
+const typed =
+  <T>() =>
+  <S extends z.ZodTypeAny>(schema: S & SchemaFor<T, S>) =>
+    schema as z.ZodType<T>;
+
+// Prisma serialises Decimal columns as strings, so money fields are coerced
+const money = z.coerce.number();
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+// Generic { success, data, message } envelope used by every endpoint
+// Generic in T, so it cannot be checked like the schemas below
+export const envelope = <T>(data: z.ZodType<T>) =>
+  z.object({
+    success: z.boolean(),
+    data: data.optional(),
+    message: z.string().optional(),
+    error: z.string().optional(),
+    details: z.record(z.unknown()).optional(),
+  }) as z.ZodType<ApiResponse<T>>;
+
+// Users & auth
+export type UserRole = 'ADMIN' | 'RIDER';
+
+export interface User {
+  id: string;
+  email: string;
+  phone?: string | null;
+  role: UserRole;
+  isActive?: boolean;
+  riderProfile?: { id: string; name: string } | null;
+  profile?: { name: string; phone?: string | null; company?: string | null } | null;
+}
+
+export interface LoginResult {
+  token: string;
+  refreshToken?: string | null;
+  user: User;
+}
+
+const userObject = z.object({
+  id: z.string(),
+  email: z.string(),
+  phone: z.string().nullish(),
+  role: z.enum(['ADMIN', 'RIDER']),
+  isActive: z.boolean().optional(),
+  riderProfile: z.object({ id: z.string(), name: z.string() }).nullish(),
+  profile: z
+    .object({ name: z.string(), phone: z.string().nullish(), company: z.string().nullish() })
+    .nullish(),
+});
+
+export const UserSchema = typed<User>()(userObject);
+export const LoginResultSchema = typed<LoginResult>()(
+  z.object({ token: z.string(), refreshToken: z.string().nullish(), user: userObject })
+);
+export const VerifyResultSchema = typed<{ user: User }>()(z.object({ user: userObject }));
+export const RefreshResultSchema = typed<{ token: string; refreshToken?: string | null }>()(
+  z.object({ token: z.string(), refreshToken: z.string().nullish() })
+);
+
+// Shared lightweight references embedded in other records
+export interface CustomerRef {
+  id?: string;
+  name: string;
+  phone: string;
+  whatsapp?: string | null;
+  houseNo?: string | null;
+  streetNo?: string | null;
+  area?: string | null;
+  city?: string | null;
+  // Map position of the customer's door, when it has been captured
+  latitude?: number | null;
+  longitude?: number | null;
+  currentBalance?: number;
+  // Full or empty jars of ours the customer is holding
+  bottleCount?: number;
+}
+
+export interface RiderRef {
+  id?: string;
+  name: string;
+  phone: string;
+}
+
+const customerRefObject = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  phone: z.string(),
+  whatsapp: z.string().nullish(),
+  houseNo: z.string().nullish(),
+  streetNo: z.string().nullish(),
+  area: z.string().nullish(),
+  city: z.string().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+  currentBalance: money.optional(),
+  bottleCount: z.coerce.number().optional(),
+});
+
+export const ADDRESS_LABELS = ['HOME', 'OFFICE', 'OTHER'] as const;
+export type AddressLabel = (typeof ADDRESS_LABELS)[number];
+
+// One place a customer takes deliveries. The default address is mirrored
+// into the customer's flat houseNo/streetNo/area/city fields, and orders
+// keep a copy of the address they were created for.
+export interface CustomerAddress {
+  id?: string;
+  label: AddressLabel;
+  houseNo?: string | null;
+  streetNo?: string | null;
+  area?: string | null;
+  city?: string | null;
+  landmark?: string | null;
+  // Gate codes, floor, where to leave the bottles
+  instructions?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  isDefault: boolean;
+}
+
+const customerAddressObject = z.object({
+  id: z.string().optional(),
+  label: z.enum(ADDRESS_LABELS).default('HOME'),
+  houseNo: z.string().nullish(),
+  streetNo: z.string().nullish(),
+  area: z.string().nullish(),
+  city: z.string().nullish(),
+  landmark: z.string().nullish(),
+  instructions: z.string().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+  isDefault: z.boolean().default(false),
+});
+
+const riderRefObject = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  phone: z.string(),
+});
+
+// Products
+export interface Product {
+  id: string;
+  name: string;
+  sku?: string | null;
+  unitPrice: number;
+  // Returnable containers count towards a customer's bottle balance
+  isReturnable: boolean;
+  isActive: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const ProductSchema = typed<Product>()(
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    sku: z.string().nullish(),
+    unitPrice: money,
+    isReturnable: z.boolean().default(false),
+    isActive: z.boolean().default(true),
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+  })
+);
+
+// Pricing
+export interface PriceListPrice {
+  productId: string;
+  unitPrice: number;
+}
+
+// Standard, wholesale, corporate, ...; products without a price here
+// fall back to the catalog price
+export interface PriceList {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  prices: PriceListPrice[];
+}
+
+// A customer-specific price that wins over any price list
+export type PriceOverride = PriceListPrice;
+
+// Percentage off the order once it reaches `minQuantity` units in total
+export interface VolumeDiscount {
+  minQuantity: number;
+  percentOff: number;
+}
+
+const priceListPriceObject = z.object({
+  productId: z.string(),
+  unitPrice: money,
+});
+
+const volumeDiscountObject = z.object({
+  minQuantity: z.coerce.number(),
+  percentOff: z.coerce.number(),
+});
+
+export const PriceListSchema = typed<PriceList>()(
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    isDefault: z.boolean().default(false),
+    prices: z.array(priceListPriceObject).default([]),
+  })
+);
+
+// Orders
+export const ORDER_STATUSES = ['PENDING', 'ASSIGNED', 'IN_PROGRESS', 'DELIVERED', 'FAILED', 'CANCELLED'] as const;
+export const ORDER_PRIORITIES = ['LOW', 'NORMAL', 'HIGH', 'URGENT'] as const;
+export const PAYMENT_STATUSES = ['NOT_PAID', 'PARTIAL', 'PAID', 'OVERPAID'] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+export type OrderPriority = (typeof ORDER_PRIORITIES)[number];
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export const DELIVERY_SLOTS = ['MORNING', 'AFTERNOON', 'EVENING'] as const;
+export type DeliverySlot = (typeof DELIVERY_SLOTS)[number];
+
+// Why a rider could not hand an order over
+export const DELIVERY_FAILURE_REASONS = ['CUSTOMER_NOT_HOME', 'GATE_LOCKED', 'REFUSED', 'WRONG_ADDRESS'] as const;
+export type DeliveryFailureReason = (typeof DELIVERY_FAILURE_REASONS)[number];
+
+// What happens to an order after a failed attempt: moved to the next slot
+// with the same rider, or unassigned for dispatch to pick up again
+export const FAILED_DELIVERY_POLICIES = ['RESCHEDULE_NEXT_SLOT', 'RETURN_TO_POOL'] as const;
+export type FailedDeliveryPolicy = (typeof FAILED_DELIVERY_POLICIES)[number];
+
+// What moved an order between statuses; CREATED opens every history
+export const ORDER_EVENT_TYPES = [
+  'CREATED',
+  'ASSIGN',
+  'REASSIGN',
+  'UNASSIGN',
+  'START',
+  'DELIVER',
+  'FAIL',
+  'CANCEL',
+  'RESCHEDULE',
+] as const;
+export type OrderEventType = (typeof ORDER_EVENT_TYPES)[number];
+export type OrderAction = Exclude<OrderEventType, 'CREATED'>;
+
+export interface OrderEventActor {
+  id?: string | null;
+  name: string;
+  role?: string | null;
+}
+
+// One recorded transition; the backend stamps the actor and time
+export interface OrderEvent {
+  id?: string;
+  type: OrderEventType;
+  fromStatus?: OrderStatus | null;
+  toStatus: OrderStatus;
+  actor?: OrderEventActor | null;
+  reason?: string | null;
+  // Rider and schedule as they stood after the transition
+  riderId?: string | null;
+  riderName?: string | null;
+  scheduledDate?: string | null;
+  deliverySlot?: DeliverySlot | null;
+  createdAt: string;
+}
+
+const orderEventObject = z.object({
+  id: z.string().optional(),
+  type: z.enum(ORDER_EVENT_TYPES),
+  fromStatus: z.enum(ORDER_STATUSES).nullish(),
+  toStatus: z.enum(ORDER_STATUSES),
+  actor: z
+    .object({
+      id: z.string().nullish(),
+      name: z.string(),
+      role: z.string().nullish(),
+    })
+    .nullish(),
+  reason: z.string().nullish(),
+  riderId: z.string().nullish(),
+  riderName: z.string().nullish(),
+  scheduledDate: z.string().nullish(),
+  deliverySlot: z.enum(DELIVERY_SLOTS).nullish(),
+  createdAt: z.string(),
+});
+
+// One product line on an order; name and price are snapshotted at order time
+export interface OrderItem {
+  id?: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  isReturnable?: boolean;
+}
+
+const orderItemObject = z.object({
+  id: z.string().optional(),
+  productId: z.string(),
+  productName: z.string(),
+  quantity: z.number(),
+  unitPrice: money,
+  lineTotal: money,
+  isReturnable: z.boolean().optional(),
+});
+
+// Captured by the rider at the door to settle "never delivered" disputes
+export interface DeliveryProof {
+  photoUrl?: string | null;
+  signatureUrl?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  // GPS accuracy radius in metres
+  accuracy?: number | null;
+  capturedAt: string;
+}
+
+export interface Order {
+  id: string;
+  orderId?: string | null;
+  customerId?: string | null;
+  riderId?: string | null;
+  status: OrderStatus;
+  priority: OrderPriority;
+  items: OrderItem[];
+  // Price list the lines were priced from, and any volume discount taken
+  // off their sum to reach totalAmount
+  priceListName?: string | null;
+  discountAmount: number;
+  // The zone's delivery charge, already included in totalAmount
+  deliveryCharge: number;
+  totalAmount: number;
+  paidAmount: number;
+  paymentStatus: PaymentStatus;
+  paymentMethod?: string | null;
+  paymentNotes?: string | null;
+  notes?: string | null;
+  customer?: CustomerRef | null;
+  rider?: RiderRef | null;
+  createdAt: string;
+  updatedAt?: string;
+  deliveredAt?: string | null;
+  bottlesDelivered?: number | null;
+  emptiesCollected?: number | null;
+  proofOfDelivery?: DeliveryProof | null;
+  // Calendar day (YYYY-MM-DD) the order is due, and the window within it
+  scheduledDate?: string | null;
+  deliverySlot?: DeliverySlot | null;
+  // Set on orders generated from a subscription
+  subscriptionId?: string | null;
+  // Reason given for the most recent failed attempt
+  failureReason?: DeliveryFailureReason | null;
+  // Where this order goes, copied from the customer when it was created
+  deliveryAddress?: CustomerAddress | null;
+  // Zone of the delivery address when the order was created
+  zoneId?: string | null;
+  // Every status change, oldest first
+  events: OrderEvent[];
+}
+
+const deliveryProofObject = z.object({
+  photoUrl: z.string().nullish(),
+  signatureUrl: z.string().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+  accuracy: z.number().nullish(),
+  capturedAt: z.string(),
+});
+
+const orderObject = z.object({
+  id: z.string(),
+  orderId: z.string().nullish(),
+  customerId: z.string().nullish(),
+  riderId: z.string().nullish(),
+  status: z.enum(ORDER_STATUSES),
+  priority: z.enum(ORDER_PRIORITIES).default('NORMAL'),
+  // Orders created before the catalog have no lines
+  items: z.array(orderItemObject).default([]),
+  priceListName: z.string().nullish(),
+  discountAmount: money.default(0),
+  deliveryCharge: money.default(0),
+  totalAmount: money,
+  paidAmount: money.default(0),
+  paymentStatus: z.enum(PAYMENT_STATUSES).default('NOT_PAID'),
+  paymentMethod: z.string().nullish(),
+  paymentNotes: z.string().nullish(),
+  notes: z.string().nullish(),
+  customer: customerRefObject.nullish(),
+  rider: riderRefObject.nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+  deliveredAt: z.string().nullish(),
+  bottlesDelivered: z.number().nullish(),
+  emptiesCollected: z.number().nullish(),
+  proofOfDelivery: deliveryProofObject.nullish(),
+  scheduledDate: z.string().nullish(),
+  deliverySlot: z.enum(DELIVERY_SLOTS).nullish(),
+  subscriptionId: z.string().nullish(),
+  failureReason: z.enum(DELIVERY_FAILURE_REASONS).nullish(),
+  deliveryAddress: customerAddressObject.nullish(),
+  zoneId: z.string().nullish(),
+  // Orders from before the lifecycle was recorded have no history
+  events: z.array(orderEventObject).default([]),
+});
+
+export const OrderSchema = typed<Order>()(orderObject);
+
+// Subscriptions
+export const SUBSCRIPTION_FREQUENCIES = ['WEEKLY', 'INTERVAL'] as const;
+export type SubscriptionFrequency = (typeof SUBSCRIPTION_FREQUENCIES)[number];
+
+// A standing order; dates are calendar days (YYYY-MM-DD)
+export interface Subscription {
+  id: string;
+  customerId: string;
+  productId: string;
+  productName?: string | null;
+  quantity: number;
+  frequency: SubscriptionFrequency;
+  // WEEKLY: days of the week, 0 = Sunday
+  weekdays: number[];
+  // INTERVAL: every N days counted from startDate
+  intervalDays?: number | null;
+  preferredSlot?: DeliverySlot | null;
+  startDate: string;
+  endDate?: string | null;
+  // No deliveries from pausedFrom through pausedUntil; open-ended without pausedUntil
+  pausedFrom?: string | null;
+  pausedUntil?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const SubscriptionSchema = typed<Subscription>()(
+  z.object({
+    id: z.string(),
+    customerId: z.string(),
+    productId: z.string(),
+    productName: z.string().nullish(),
+    quantity: z.coerce.number(),
+    frequency: z.enum(SUBSCRIPTION_FREQUENCIES),
+    weekdays: z.array(z.number()).default([]),
+    intervalDays: z.number().nullish(),
+    preferredSlot: z.enum(DELIVERY_SLOTS).nullish(),
+    startDate: z.string(),
+    endDate: z.string().nullish(),
+    pausedFrom: z.string().nullish(),
+    pausedUntil: z.string().nullish(),
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+  })
+);
+
+// How many orders an area can take in one slot per day; areas or slots
+// without an entry are unlimited
+export interface SlotCapacity {
+  area: string;
+  slot: DeliverySlot;
+  capacity: number;
+}
+
+export const SlotCapacitySchema = typed<SlotCapacity>()(
+  z.object({
+    area: z.string(),
+    slot: z.enum(DELIVERY_SLOTS),
+    capacity: z.coerce.number(),
+  })
+);
+
+export interface DeliverySettings {
+  failedDeliveryPolicy: FailedDeliveryPolicy;
+}
+
+export const DeliverySettingsSchema = typed<DeliverySettings>()(
+  z.object({
+    failedDeliveryPolicy: z.enum(FAILED_DELIVERY_POLICIES).default('RETURN_TO_POOL'),
+  })
+);
+
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+export const HolidaySchema = typed<Holiday>()(
+  z.object({
+    date: z.string(),
+    name: z.string(),
+  })
+);
+
+// Delivery zones
+export interface ZonePoint {
+  latitude: number;
+  longitude: number;
+}
+
+// An area the business delivers to. A zone with a boundary takes the
+// customers whose pin falls inside it; one without is matched by area name.
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  // Polygon corners in drawing order; empty when the zone has no boundary
+  boundary: ZonePoint[];
+  // Added to every order delivered in the zone
+  deliveryCharge: number;
+  // Preferred rider when assigning the zone's orders
+  defaultRiderId?: string | null;
+  isActive: boolean;
+  customerCount?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const DeliveryZoneSchema = typed<DeliveryZone>()(
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    boundary: z.array(z.object({ latitude: z.number(), longitude: z.number() })).default([]),
+    deliveryCharge: money.default(0),
+    defaultRiderId: z.string().nullish(),
+    isActive: z.boolean().default(true),
+    customerCount: z.number().optional(),
+    createdAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+  })
+);
+
+// Customers
+export interface CustomerStats {
+  totalOrders: number;
+  completedOrders: number;
+  pendingOrders: number;
+  totalSpent: number;
+  averageOrderValue: number;
+  bottlesDelivered: number;
+  emptiesCollected: number;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  whatsapp?: string | null;
+  houseNo?: string | null;
+  streetNo?: string | null;
+  area?: string | null;
+  city?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  address?: string | null;
+  addresses: CustomerAddress[];
+  // Zone of the default address, filed when the customer is saved
+  zoneId?: string | null;
+  bottleCount: number;
+  avgDaysToRefill?: number | null;
+  currentBalance: number;
+  isActive: boolean;
+  // Falls back to the default price list when unset
+  priceListId?: string | null;
+  priceOverrides: PriceOverride[];
+  volumeDiscounts: VolumeDiscount[];
+  totalOrders?: number;
+  lastOrder?: { id: string; amount: number; date: string; status: string } | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Customer detail adds order history and computed stats
+export interface CustomerDetail extends Customer {
+  orders: Order[];
+  stats: CustomerStats;
+}
+
+const customerObject = z.object({
+  id: z.string(),
+  name: z.string(),
+  phone: z.string(),
+  whatsapp: z.string().nullish(),
+  houseNo: z.string().nullish(),
+  streetNo: z.string().nullish(),
+  area: z.string().nullish(),
+  city: z.string().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+  address: z.string().nullish(),
+  // Customers from before multiple addresses only have the flat fields
+  addresses: z.array(customerAddressObject).default([]),
+  zoneId: z.string().nullish(),
+  bottleCount: z.coerce.number().default(0),
+  avgDaysToRefill: z.number().nullish(),
+  currentBalance: money.default(0),
+  isActive: z.boolean().default(true),
+  priceListId: z.string().nullish(),
+  priceOverrides: z.array(priceListPriceObject).default([]),
+  volumeDiscounts: z.array(volumeDiscountObject).default([]),
+  totalOrders: z.number().optional(),
+  lastOrder: z
+    .object({
+      id: z.string(),
+      amount: money,
+      date: z.string(),
+      status: z.string(),
+    })
+    .nullish(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export const CustomerSchema = typed<Customer>()(customerObject);
+export const CustomerDetailSchema = typed<CustomerDetail>()(
+  customerObject.extend({
+    orders: z.array(orderObject).default([]),
+    stats: z.object({
+      totalOrders: z.number(),
+      completedOrders: z.number(),
+      pendingOrders: z.number(),
+      totalSpent: money,
+      averageOrderValue: money,
+      bottlesDelivered: z.number().default(0),
+      emptiesCollected: z.number().default(0),
+    }),
+  })
+);
+
+// Shifts
+export const SHIFT_ACTIONS = ['START', 'BREAK_START', 'BREAK_END', 'END'] as const;
+export type ShiftAction = (typeof SHIFT_ACTIONS)[number];
+
+export interface ShiftBreak {
+  startedAt: string;
+  // Unset while the break is still running
+  endedAt?: string | null;
+}
+
+// Odometer reading and GPS fix taken when a shift starts or ends
+export interface ShiftCheckpoint {
+  odometerKm?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  accuracy?: number | null;
+}
+
+// One stint on duty; the backend stamps every time
+export interface RiderShift {
+  id: string;
+  riderId: string;
+  startedAt: string;
+  // Unset while the rider is on shift
+  endedAt?: string | null;
+  start?: ShiftCheckpoint | null;
+  end?: ShiftCheckpoint | null;
+  breaks: ShiftBreak[];
+  // Orders the rider delivered between clock-in and clock-out
+  deliveries: number;
+}
+
+const shiftCheckpointObject = z.object({
+  odometerKm: z.coerce.number().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+  accuracy: z.number().nullish(),
+});
+
+const riderShiftObject = z.object({
+  id: z.string(),
+  riderId: z.string(),
+  startedAt: z.string(),
+  endedAt: z.string().nullish(),
+  start: shiftCheckpointObject.nullish(),
+  end: shiftCheckpointObject.nullish(),
+  breaks: z.array(z.object({ startedAt: z.string(), endedAt: z.string().nullish() })).default([]),
+  deliveries: z.number().default(0),
+});
+
+export const RiderShiftSchema = typed<RiderShift>()(riderShiftObject);
+
+// Riders
+export interface Rider {
+  id: string;
+  name: string;
+  phone: string;
+  email: string;
+  isActive: boolean;
+  // Areas the rider usually covers; empty means anywhere
+  areas: string[];
+  // Full bottles the vehicle carries in one trip; unset means no limit
+  tripCapacity?: number | null;
+  // Whether the rider has clocked in; currentShift says whether they are
+  // on a break
+  onShift?: boolean | null;
+  // The open shift, while on shift
+  currentShift?: RiderShift | null;
+  totalDeliveries?: number;
+  pendingDeliveries?: number;
+  currentOrders?: Partial<Order>[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface RiderDetail extends Rider {
+  user?: { id: string; email: string; phone?: string | null; role: string; isActive: boolean } | null;
+  orders: Order[];
+}
+
+const riderObject = z.object({
+  id: z.string(),
+  name: z.string(),
+  phone: z.string(),
+  email: z.string(),
+  isActive: z.boolean(),
+  areas: z.array(z.string()).default([]),
+  tripCapacity: z.coerce.number().nullish(),
+  onShift: z.boolean().nullish(),
+  currentShift: riderShiftObject.nullish(),
+  totalDeliveries: z.number().optional(),
+  pendingDeliveries: z.number().optional(),
+  currentOrders: z.array(orderObject.partial()).optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export const RiderSchema = typed<Rider>()(riderObject);
+export const RiderDetailSchema = typed<RiderDetail>()(
+  riderObject.extend({
+    user: z
+      .object({
+        id: z.string(),
+        email: z.string(),
+        phone: z.string().nullish(),
+        role: z.string(),
+        isActive: z.boolean(),
+      })
+      .nullish(),
+    orders: z.array(orderObject).default([]),
+  })
+);
+
+// Rider dashboard delivery cards are pre-formatted by the backend
+export interface RiderDelivery {
+  id: string;
+  customer: string;
+  phone?: string | null;
+  address?: string | null;
+  amount: number;
+  bottles?: number | null;
+  scheduledDate?: string | null;
+  deliverySlot?: DeliverySlot | null;
+  priority?: OrderPriority;
+  // From the order's delivery address
+  landmark?: string | null;
+  instructions?: string | null;
+  // Location of the delivery address, when known, for route planning
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface RiderDashboard {
+  assignedDeliveries: RiderDelivery[];
+  completedDeliveries: RiderDelivery[];
+  stats: { totalToday: number; completed: number; pending: number };
+}
+
+const riderDeliveryObject = z.object({
+  id: z.string(),
+  customer: z.string(),
+  phone: z.string().nullish(),
+  address: z.string().nullish(),
+  amount: money,
+  bottles: z.number().nullish(),
+  scheduledDate: z.string().nullish(),
+  deliverySlot: z.enum(DELIVERY_SLOTS).nullish(),
+  priority: z.enum(ORDER_PRIORITIES).optional(),
+  landmark: z.string().nullish(),
+  instructions: z.string().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+});
+
+export const RiderDashboardSchema = typed<RiderDashboard>()(
+  z.object({
+    assignedDeliveries: z.array(riderDeliveryObject).default([]),
+    completedDeliveries: z.array(riderDeliveryObject).default([]),
+    stats: z
+      .object({
+        totalToday: z.number(),
+        completed: z.number(),
+        pending: z.number(),
+      })
+      .default({ totalToday: 0, completed: 0, pending: 0 }),
+  })
+);
+
+// Payments
+export interface Payment {
+  id: string;
+  orderId?: string | null;
+  customerId?: string | null;
+  amount: number;
+  status: string;
+  method?: string | null;
+  notes?: string | null;
+  customer?: CustomerRef | null;
+  createdAt: string;
+}
+
+export const PaymentSchema = typed<Payment>()(
+  z.object({
+    id: z.string(),
+    orderId: z.string().nullish(),
+    customerId: z.string().nullish(),
+    amount: money,
+    status: z.string(),
+    method: z.string().nullish(),
+    notes: z.string().nullish(),
+    customer: customerRefObject.nullish(),
+    createdAt: z.string(),
+  })
+);
+
+// Rider cash
+// Cash taken at the door on one delivery, held by the rider until settled
+export interface CashCollection {
+  orderId: string;
+  // Human-facing order number
+  orderNumber?: string | null;
+  customer?: CustomerRef | null;
+  amount: number;
+  collectedAt: string;
+}
+
+// What a rider owes the office: every collection since their last settlement
+export interface RiderCashWallet {
+  riderId: string;
+  balance: number;
+  collections: CashCollection[];
+  lastSettledAt?: string | null;
+}
+
+// Cash handed back to the office. The difference is counted minus
+// expected, so a shortage is negative and an excess positive.
+export interface CashSettlement {
+  id: string;
+  riderId: string;
+  expectedAmount: number;
+  countedAmount: number;
+  difference: number;
+  collectionCount: number;
+  notes?: string | null;
+  // Name of the admin who counted the cash
+  settledBy?: string | null;
+  settledAt: string;
+}
+
+const cashCollectionObject = z.object({
+  orderId: z.string(),
+  orderNumber: z.coerce.string().nullish(),
+  customer: customerRefObject.nullish(),
+  amount: money,
+  collectedAt: z.string(),
+});
+
+export const RiderCashWalletSchema = typed<RiderCashWallet>()(
+  z.object({
+    riderId: z.string(),
+    balance: money.default(0),
+    collections: z.array(cashCollectionObject).default([]),
+    lastSettledAt: z.string().nullish(),
+  })
+);
+
+export const CashSettlementSchema = typed<CashSettlement>()(
+  z.object({
+    id: z.string(),
+    riderId: z.string(),
+    expectedAmount: money,
+    countedAmount: money,
+    difference: money.default(0),
+    collectionCount: z.number().default(0),
+    notes: z.string().nullish(),
+    settledBy: z.string().nullish(),
+    settledAt: z.string(),
+  })
+);
+
+// Dashboard
+export interface DashboardStats {
+  totalCustomers: number;
+  totalRiders: number;
+  ordersToday: number;
+  pendingOrders: number;
+  pendingPayments: number;
+  // Jars currently held by customers across the fleet
+  bottlesOutstanding: number;
+}
+
+export interface Activity {
+  id: string | number;
+  text: string;
+  time: string;
+  status: string;
+}
+
+export const DashboardStatsSchema = typed<DashboardStats>()(
+  z.object({
+    totalCustomers: z.number(),
+    totalRiders: z.number(),
+    ordersToday: z.number(),
+    pendingOrders: z.number(),
+    pendingPayments: money,
+    bottlesOutstanding: z.number().default(0),
+  })
+);
+
+export const ActivitySchema = typed<Activity>()(
+  z.object({
+    id: z.union([z.string(), z.number()]),
+    text: z.string(),
+    time: z.string(),
+    status: z.string(),
+  })
+);
+
+// Request payloads
+export interface OrderItemInput {
+  productId: string;
+  quantity: number;
+}
+
+// The backend prices each line from the customer's pricing and totals the order
+export interface CreateOrderInput {
+  customerId: string;
+  items: OrderItemInput[];
+  priority: OrderPriority;
+  notes?: string;
+  scheduledDate?: string;
+  deliverySlot?: DeliverySlot;
+  subscriptionId?: string;
+  // One of the customer's addresses; their default when unset
+  addressId?: string;
+}
+
+// A lifecycle step for an order. Which fields matter depends on the action:
+// a rider to (re)assign to, a reason to cancel or fail, a new date to reschedule.
+export interface OrderTransitionInput {
+  action: OrderAction;
+  riderId?: string;
+  reason?: string;
+  scheduledDate?: string;
+  deliverySlot?: DeliverySlot | null;
+}
+
+// Rider-reported delivery outcome; the backend settles the customer balance
+export interface DeliveryCompletionInput {
+  // Status the rider last saw; the backend refuses a stale one with a 409
+  expectedStatus: OrderStatus;
+  paidAmount: number;
+  paymentStatus: PaymentStatus;
+  // Full jars dropped off and empties taken back; the backend moves the
+  // difference onto the customer's bottleCount
+  bottlesDelivered: number;
+  emptiesCollected: number;
+  notes?: string;
+}
+
+// A rider clocking in or out, or starting or ending a break. Odometer and
+// location are only taken at the start and end of a shift.
+export interface ShiftActionInput {
+  action: ShiftAction;
+  odometerKm?: number | null;
+  location?: GeoFix | null;
+}
+
+export interface GeoFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+// A rider's position as streamed over the socket while on shift. The
+// backend keeps the latest one per rider for admins who open the map later.
+export interface RiderLocation {
+  riderId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  // Degrees clockwise from north; unset when standing still
+  heading?: number | null;
+  // Metres per second
+  speed?: number | null;
+  recordedAt: string;
+}
+
+export const RiderLocationSchema = typed<RiderLocation>()(
+  z.object({
+    riderId: z.string(),
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().nullish(),
+    heading: z.number().nullish(),
+    speed: z.number().nullish(),
+    recordedAt: z.string(),
+  })
+);
+
+// Rider-reported failed attempt. The backend records the FAIL transition,
+// applies the failed-delivery policy and notifies the admins.
+export interface DeliveryFailureInput {
+  reason: DeliveryFailureReason;
+  notes?: string;
+}
+
+// Files are compressed Blobs so the payload survives a stay in the offline outbox
+export interface DeliveryProofInput {
+  photo?: Blob | null;
+  signature?: Blob | null;
+  location?: GeoFix | null;
+  capturedAt: string;
+}
+
+export interface CustomerInput {
+  name: string;
+  phone: string;
+  whatsapp: string | null;
+  houseNo: string | null;
+  streetNo: string | null;
+  area: string | null;
+  city: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  // Replaces the customer's addresses; rows without an id are added
+  addresses?: CustomerAddress[];
+  zoneId?: string | null;
+  bottleCount: number;
+  avgDaysToRefill: number | null;
+  priceListId?: string | null;
+  priceOverrides?: PriceOverride[];
+  volumeDiscounts?: VolumeDiscount[];
+}
+
+export type SubscriptionInput = Omit<Subscription, 'id' | 'productName' | 'createdAt' | 'updatedAt'>;
+
+export interface ProductInput {
+  name: string;
+  sku: string | null;
+  unitPrice: number;
+  isReturnable: boolean;
+  isActive: boolean;
+}
+
+export type DeliveryZoneInput = Omit<DeliveryZone, 'id' | 'customerCount' | 'createdAt' | 'updatedAt'>;
+
+export interface RiderInput {
+  name: string;
+  phone: string;
+  email: string;
+  password?: string;
+  isActive?: boolean;
+  areas?: string[];
+  tripCapacity?: number | null;
+}
+
+// expectedAmount is the wallet balance the admin counted against; the
+// backend refuses the settlement with a 409 if more cash came in since
+export interface CashSettlementInput {
+  expectedAmount: number;
+  countedAmount: number;
+  notes?: string;
+}
+
+export interface PaymentUpdateInput {
+  status?: string;
+  amount?: number;
+  notes?: string;
+}
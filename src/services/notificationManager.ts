@@ -5,11 +5,13 @@
 
 import { io, Socket } from 'socket.io-client';
 import { API_BASE_URL } from '../config/api';
+import { RiderLocationSchema, type RiderLocation } from './apiSchemas';
 
 export type NotificationType =
   | 'order_assigned'
   | 'order_completed'
   | 'order_cancelled'
+  | 'delivery_failed'
   | 'payment_received'
   | 'system_update';
 
@@ -377,6 +379,17 @@ class NotificationManager {
       this.updateBadge(data.count);
     });
 
+    // Riders' positions, relayed by the backend to admins only. Checked
+    // like any API response so a bad fix never reaches the map.
+    this.socket.on('rider:location', (payload: unknown) => {
+      const result = RiderLocationSchema.safeParse(payload);
+      if (!result.success) {
+        console.warn('⚠️ Dropped malformed rider location:', result.error.issues);
+        return;
+      }
+      this.emit('rider-location', result.data);
+    });
+
     this.socket.on('error', (error) => {
       console.error('❌ Socket error:', error);
       this.emit('error', error);
@@ -560,6 +573,16 @@ class NotificationManager {
     }
   }
 
+  /**
+   * Share the rider's position. Returns false when the socket is down,
+   * so the caller can try again with a later fix.
+   */
+  sendLocation(location: RiderLocation): boolean {
+    if (!this.socket?.connected) return false;
+    this.socket.emit('rider:location', location);
+    return true;
+  }
+
   /**
    * Get unread count
    */
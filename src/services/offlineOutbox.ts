@@ -0,0 +1,420 @@
+/**
+ * Offline Outbox
+ * Rider mutations are written to IndexedDB first and replayed in order
+ * once the device is back online, either from the page or from the
+ * service worker via Background Sync (see public/sw.js)
+ */
+
+import { API_BASE_URL, API_ENDPOINTS, API_REQUEST_DEFAULTS } from '../config/api';
+import { AuthError, NetworkError, ServerError, TimeoutError } from './apiErrors';
+import { sessionManager } from './sessionManager';
+import type { DeliveryCompletionInput, DeliveryFailureInput, DeliveryProofInput } from './apiSchemas';
+
+// Shared with public/sw.js - keep both in sync
+const DB_NAME = 'smart-supply-outbox';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const META_STORE = 'meta';
+const SYNC_TAG = 'sync-outbox';
+const REPLAY_LOCK = 'smart-supply-outbox-replay';
+
+export type OutboxMutation =
+  | { type: 'DELIVERY_COMPLETE'; orderId: string; input: DeliveryCompletionInput }
+  | { type: 'DELIVERY_PROOF'; orderId: string; proof: DeliveryProofInput }
+  | { type: 'DELIVERY_FAILED'; orderId: string; input: DeliveryFailureInput }
+  | { type: 'PAYMENT_COLLECTED'; orderId: string; amount: number; method?: string }
+  | { type: 'ORDER_NOTES'; orderId: string; notes: string };
+
+export type OutboxMutationType = OutboxMutation['type'];
+export type OutboxEntryStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  // Doubles as the Idempotency-Key so a replayed request is applied once
+  id: string;
+  userId: string;
+  type: OutboxMutationType;
+  orderId: string;
+  label: string;
+  method: string;
+  endpoint: string;
+  body: unknown;
+  // How the service worker should encode `body`; Blobs need form-data
+  encoding: 'json' | 'form-data';
+  status: OutboxEntryStatus;
+  attempts: number;
+  lastError?: string | null;
+  createdAt: number;
+}
+
+// Everything the service worker needs to replay without the page
+interface OutboxMeta {
+  key: 'session';
+  apiBaseUrl: string;
+  token: string | null;
+  userId: string | null;
+}
+
+type OutboxEvent = 'changed' | 'synced';
+type OutboxListener = () => void;
+type Sender = (entry: OutboxEntry) => Promise<unknown>;
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/**
+ * Turn a rider action into the request that will eventually be sent
+ */
+const buildRequest = (
+  mutation: OutboxMutation
+): Pick<OutboxEntry, 'label' | 'method' | 'endpoint' | 'body' | 'encoding'> => {
+  switch (mutation.type) {
+    case 'DELIVERY_COMPLETE':
+      return {
+        label: `Order #${mutation.orderId} delivered`,
+        method: 'POST',
+        endpoint: API_ENDPOINTS.ORDER_DELIVERY(mutation.orderId),
+        body: mutation.input,
+        encoding: 'json',
+      };
+    case 'DELIVERY_FAILED':
+      return {
+        label: `Order #${mutation.orderId} not delivered`,
+        method: 'POST',
+        endpoint: API_ENDPOINTS.ORDER_FAILURE(mutation.orderId),
+        body: mutation.input,
+        encoding: 'json',
+      };
+    case 'DELIVERY_PROOF':
+      return {
+        label: `Proof of delivery for order #${mutation.orderId}`,
+        method: 'POST',
+        endpoint: API_ENDPOINTS.ORDER_PROOF(mutation.orderId),
+        body: mutation.proof,
+        encoding: 'form-data',
+      };
+    case 'PAYMENT_COLLECTED':
+      return {
+        label: `₹${mutation.amount} collected for order #${mutation.orderId}`,
+        method: 'POST',
+        endpoint: API_ENDPOINTS.PAYMENTS,
+        body: { orderId: mutation.orderId, amount: mutation.amount, method: mutation.method || 'CASH' },
+        encoding: 'json',
+      };
+    case 'ORDER_NOTES':
+      return {
+        label: `Notes for order #${mutation.orderId}`,
+        method: 'PATCH',
+        endpoint: API_ENDPOINTS.ORDER_BY_ID(mutation.orderId),
+        body: { notes: mutation.notes },
+        encoding: 'json',
+      };
+  }
+};
+
+/**
+ * Whether a failed replay is worth trying again later (connectivity,
+ * server trouble or an expired session) rather than needing the rider
+ */
+const isTransient = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  error instanceof TimeoutError ||
+  error instanceof ServerError ||
+  error instanceof AuthError;
+
+const currentUserId = (): string | null =>
+  (sessionManager.getStoredUser() as { id?: string } | null)?.id ?? null;
+
+// Promise wrapper around an IDBRequest
+const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class OfflineOutbox {
+  private listeners: Map<OutboxEvent, OutboxListener[]> = new Map();
+  private channel: BroadcastChannel | null = null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private replayPromise: Promise<void> | null = null;
+  // Set when something is queued while a replay is already reading the store
+  private replayAgain = false;
+  // Next attempt after a transient failure, for browsers without Background Sync
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private sender: Sender | null = null;
+
+  constructor() {
+    if (typeof window === 'undefined' || typeof indexedDB === 'undefined') return;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel('smart-supply-outbox');
+      this.channel.onmessage = () => this.emit('changed');
+    }
+
+    window.addEventListener('online', () => this.replay());
+
+    // The service worker reports what it replayed during Background Sync
+    navigator.serviceWorker?.addEventListener('message', (event) => {
+      if (event.data?.type === 'OUTBOX_SYNCED') {
+        if (event.data.synced > 0) this.emit('synced');
+        this.emit('changed');
+      }
+    });
+
+    // Keep the copy of the session the service worker replays with current,
+    // and send anything held back by an expired session once it is renewed
+    sessionManager.on('updated', () => {
+      this.storeMeta();
+      this.replay();
+    });
+    sessionManager.on('ended', () => this.storeMeta());
+  }
+
+  /**
+   * Register the call that sends an entry to the backend.
+   * Kept injectable so this module does not depend on ApiService.
+   */
+  setSender(sender: Sender): void {
+    this.sender = sender;
+    this.storeMeta();
+    this.replay();
+  }
+
+  /**
+   * Queue a rider action and try to send it straight away. Every action
+   * goes through the queue so a later one can never overtake an earlier one.
+   */
+  async enqueue(mutation: OutboxMutation): Promise<OutboxEntry> {
+    const userId = currentUserId();
+    if (!userId) {
+      throw new Error('Cannot queue changes without a signed-in user');
+    }
+
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      userId,
+      type: mutation.type,
+      orderId: mutation.orderId,
+      ...buildRequest(mutation),
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      createdAt: Date.now(),
+    };
+
+    await this.write(ENTRY_STORE, (store) => store.put(entry));
+    await this.storeMeta();
+    this.notifyChanged();
+
+    this.requestBackgroundSync();
+    this.replay();
+    return entry;
+  }
+
+  /**
+   * Queued entries for the signed-in user, oldest first
+   */
+  async getEntries(): Promise<OutboxEntry[]> {
+    const userId = currentUserId();
+    if (!userId) return [];
+
+    const db = await this.open();
+    const entries = await settle<OutboxEntry[]>(
+      db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index('createdAt').getAll()
+    );
+    return entries.filter((entry) => entry.userId === userId);
+  }
+
+  /**
+   * Put a failed entry back in the queue and replay it
+   */
+  async retry(id: string): Promise<void> {
+    const db = await this.open();
+    const entry = await settle<OutboxEntry | undefined>(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).get(id));
+    if (!entry) return;
+
+    await this.write(ENTRY_STORE, (store) => store.put({ ...entry, status: 'pending', lastError: null }));
+    this.notifyChanged();
+    await this.replay();
+  }
+
+  /**
+   * Drop an entry the rider no longer wants sent, with the later changes
+   * to the same order that depend on it, such as proof for a delivery
+   * that will now never be recorded
+   */
+  async discard(id: string): Promise<void> {
+    const entries = await this.getEntries();
+    const index = entries.findIndex((entry) => entry.id === id);
+    if (index === -1) return;
+
+    const dropped = entries.slice(index).filter((entry) => entry.orderId === entries[index].orderId);
+    for (const entry of dropped) {
+      await this.write(ENTRY_STORE, (store) => store.delete(entry.id));
+    }
+    this.notifyChanged();
+  }
+
+  /**
+   * Send pending entries in order. One replay runs at a time across tabs
+   * and the service worker; callers share the in-flight attempt.
+   */
+  replay(): Promise<void> {
+    if (this.replayPromise) {
+      this.replayAgain = true;
+    } else {
+      const run = () => this.drain();
+
+      this.replayPromise = (navigator.locks ? navigator.locks.request(REPLAY_LOCK, run) : run())
+        .catch((error) => {
+          console.error('Outbox replay failed:', error);
+        })
+        .finally(() => {
+          this.replayPromise = null;
+          if (this.replayAgain) {
+            this.replayAgain = false;
+            this.replay();
+          }
+        });
+    }
+    return this.replayPromise;
+  }
+
+  /**
+   * Event listener management
+   */
+  on(event: OutboxEvent, callback: OutboxListener): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    this.listeners.get(event)!.push(callback);
+  }
+
+  off(event: OutboxEvent, callback: OutboxListener): void {
+    const listeners = this.listeners.get(event);
+    if (listeners) {
+      const index = listeners.indexOf(callback);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  private emit(event: OutboxEvent): void {
+    this.listeners.get(event)?.forEach((callback) => callback());
+  }
+
+  private notifyChanged(): void {
+    this.channel?.postMessage({ type: 'changed' });
+    this.emit('changed');
+  }
+
+  private async drain(): Promise<void> {
+    if (!this.sender || !navigator.onLine) return;
+
+    const entries = await this.getEntries();
+    // Later changes to an order wait behind one that was rejected
+    const blocked = new Set<string>();
+    let synced = 0;
+
+    for (const entry of entries) {
+      if (entry.status === 'failed' || blocked.has(entry.orderId)) {
+        blocked.add(entry.orderId);
+        continue;
+      }
+
+      try {
+        await this.sender(entry);
+        await this.write(ENTRY_STORE, (store) => store.delete(entry.id));
+        synced++;
+      } catch (error) {
+        const lastError = error instanceof Error ? error.message : 'Sync failed';
+
+        if (isTransient(error)) {
+          await this.write(ENTRY_STORE, (store) => store.put({ ...entry, attempts: entry.attempts + 1, lastError }));
+          // An expired session replays once it is renewed
+          if (!(error instanceof AuthError)) this.scheduleRetry(entry.attempts + 1);
+          break;
+        }
+
+        await this.write(ENTRY_STORE, (store) =>
+          store.put({ ...entry, status: 'failed', attempts: entry.attempts + 1, lastError })
+        );
+        blocked.add(entry.orderId);
+      }
+    }
+
+    if (synced > 0) this.emit('synced');
+    this.notifyChanged();
+  }
+
+  private async storeMeta(): Promise<void> {
+    const meta: OutboxMeta = {
+      key: 'session',
+      apiBaseUrl: API_BASE_URL,
+      token: sessionManager.getAccessToken(),
+      userId: currentUserId(),
+    };
+
+    try {
+      await this.write(META_STORE, (store) => store.put(meta));
+    } catch (error) {
+      console.error('Failed to store outbox session:', error);
+    }
+  }
+
+  // Back off as ApiService does between attempts, keeping at least half
+  // the delay so a server that is down is not polled in a tight loop
+  private scheduleRetry(attempts: number): void {
+    const { RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } = API_REQUEST_DEFAULTS;
+    const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempts);
+
+    this.requestBackgroundSync();
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.replay();
+    }, ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  private async requestBackgroundSync(): Promise<void> {
+    try {
+      const registration = (await navigator.serviceWorker?.getRegistration()) as SyncCapableRegistration | undefined;
+      await registration?.sync?.register(SYNC_TAG);
+    } catch (error) {
+      // Not supported everywhere; the online listener covers the rest
+      console.warn('Background sync unavailable:', error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+      };
+      this.dbPromise = settle(request);
+    }
+    return this.dbPromise;
+  }
+
+  private async write(storeName: string, operation: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(storeName, 'readwrite');
+    operation(transaction.objectStore(storeName));
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+export const offlineOutbox = new OfflineOutbox();
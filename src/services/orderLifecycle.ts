@@ -0,0 +1,113 @@
+/**
+ * Order Lifecycle
+ * The statuses an order moves through and the actions that move it.
+ * ApiService checks every transition against this table before it is sent,
+ * and the admin screens use it to offer only the actions that apply.
+ */
+
+import type { FieldErrors } from './apiErrors';
+import type {
+  DeliveryFailureReason,
+  FailedDeliveryPolicy,
+  OrderAction,
+  OrderEventType,
+  OrderStatus,
+  OrderTransitionInput,
+} from './apiSchemas';
+
+// Status each action leads to, keyed by the status it starts from.
+// DELIVERED and CANCELLED are final.
+const TRANSITIONS: Record<OrderAction, Partial<Record<OrderStatus, OrderStatus>>> = {
+  ASSIGN: { PENDING: 'ASSIGNED', FAILED: 'ASSIGNED' },
+  REASSIGN: { ASSIGNED: 'ASSIGNED', IN_PROGRESS: 'ASSIGNED' },
+  UNASSIGN: { ASSIGNED: 'PENDING', FAILED: 'PENDING' },
+  START: { ASSIGNED: 'IN_PROGRESS' },
+  DELIVER: { ASSIGNED: 'DELIVERED', IN_PROGRESS: 'DELIVERED' },
+  FAIL: { ASSIGNED: 'FAILED', IN_PROGRESS: 'FAILED' },
+  CANCEL: { PENDING: 'CANCELLED', ASSIGNED: 'CANCELLED', IN_PROGRESS: 'CANCELLED', FAILED: 'CANCELLED' },
+  // A failed order is either retried by its rider later or put back in the pool
+  RESCHEDULE: { PENDING: 'PENDING', ASSIGNED: 'ASSIGNED', FAILED: 'ASSIGNED' },
+};
+
+// Actions that must say why, so the history explains itself
+export const REASON_REQUIRED: OrderAction[] = ['CANCEL', 'FAIL'];
+
+export const ORDER_ACTION_LABELS: Record<OrderAction, string> = {
+  ASSIGN: 'Assign Rider',
+  REASSIGN: 'Reassign Rider',
+  UNASSIGN: 'Unassign Rider',
+  START: 'Start Delivery',
+  DELIVER: 'Mark Delivered',
+  FAIL: 'Mark Failed',
+  CANCEL: 'Cancel Order',
+  RESCHEDULE: 'Reschedule',
+};
+
+export const FAILURE_REASON_LABELS: Record<DeliveryFailureReason, string> = {
+  CUSTOMER_NOT_HOME: 'Customer not home',
+  GATE_LOCKED: 'Gate locked',
+  REFUSED: 'Customer refused',
+  WRONG_ADDRESS: 'Wrong address',
+};
+
+export const FAILED_DELIVERY_POLICY_LABELS: Record<FailedDeliveryPolicy, string> = {
+  RESCHEDULE_NEXT_SLOT: 'Reschedule to the next slot',
+  RETURN_TO_POOL: 'Return to the unassigned pool',
+};
+
+// Timeline headings for recorded events
+export const ORDER_EVENT_LABELS: Record<OrderEventType, string> = {
+  CREATED: 'Order Created',
+  ASSIGN: 'Rider Assigned',
+  REASSIGN: 'Rider Reassigned',
+  UNASSIGN: 'Rider Unassigned',
+  START: 'Out for Delivery',
+  DELIVER: 'Delivered',
+  FAIL: 'Delivery Failed',
+  CANCEL: 'Order Cancelled',
+  RESCHEDULE: 'Rescheduled',
+};
+
+export const isFinalStatus = (status: OrderStatus): boolean =>
+  status === 'DELIVERED' || status === 'CANCELLED';
+
+/**
+ * Status an order in `from` ends up in after `action`, or null when the
+ * action is not allowed from there
+ */
+export const nextStatus = (from: OrderStatus, action: OrderAction): OrderStatus | null =>
+  TRANSITIONS[action][from] ?? null;
+
+/**
+ * Actions available to an order in `status`, in table order
+ */
+export const availableActions = (status: OrderStatus): OrderAction[] =>
+  (Object.keys(TRANSITIONS) as OrderAction[]).filter((action) => nextStatus(status, action) !== null);
+
+/**
+ * Why a transition cannot be made, with per-field messages for the form
+ * that asked for it, or null when it is valid
+ */
+export const transitionProblem = (
+  from: OrderStatus,
+  transition: OrderTransitionInput
+): { message: string; fieldErrors: FieldErrors } | null => {
+  const { action } = transition;
+
+  if (!nextStatus(from, action)) {
+    return {
+      message: `"${ORDER_ACTION_LABELS[action]}" is not available for ${from.replace('_', ' ').toLowerCase()} orders`,
+      fieldErrors: {},
+    };
+  }
+  if (REASON_REQUIRED.includes(action) && !transition.reason?.trim()) {
+    return { message: 'Please give a reason', fieldErrors: { reason: 'A reason is required' } };
+  }
+  if ((action === 'ASSIGN' || action === 'REASSIGN') && !transition.riderId) {
+    return { message: 'Please select a rider', fieldErrors: { riderId: 'Select a rider' } };
+  }
+  if (action === 'RESCHEDULE' && !transition.scheduledDate) {
+    return { message: 'Please pick a new date', fieldErrors: { scheduledDate: 'Pick a date' } };
+  }
+  return null;
+};
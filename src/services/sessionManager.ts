@@ -0,0 +1,266 @@
+/**
+ * Session Manager
+ * Owns the signed-in session: access + refresh tokens, the current user,
+ * proactive refresh ahead of expiry and cross-tab synchronisation
+ */
+
+import type { User } from './apiSchemas';
+
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const USER_KEY = 'user';
+
+// Refresh this long before the access token actually expires
+const REFRESH_AHEAD_MS = 60 * 1000;
+
+export type SessionEndReason = 'logout' | 'expired';
+
+export interface SessionTokens {
+  token: string;
+  refreshToken?: string | null;
+}
+
+export interface Session extends SessionTokens {
+  user: User;
+}
+
+type SessionEvent = 'updated' | 'ended';
+type SessionListener = (reason?: SessionEndReason) => void;
+type Refresher = (refreshToken: string) => Promise<SessionTokens | null>;
+
+type ChannelMessage = { type: 'updated' } | { type: 'ended'; reason: SessionEndReason };
+
+/**
+ * Read the `exp` claim (ms since epoch) from a JWT without verifying it
+ */
+const decodeExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const { exp } = JSON.parse(atob(padded));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+class SessionManager {
+  private listeners: Map<SessionEvent, SessionListener[]> = new Map();
+  private channel: BroadcastChannel | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private refresher: Refresher | null = null;
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel('smart-supply-session');
+      this.channel.onmessage = (event: MessageEvent<ChannelMessage>) => this.handleRemote(event.data);
+    }
+  }
+
+  /**
+   * Register the call that exchanges a refresh token for new tokens.
+   * Kept injectable so this module does not depend on ApiService.
+   */
+  setRefresher(refresher: Refresher): void {
+    this.refresher = refresher;
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Store a freshly signed-in session and share it with other tabs
+   */
+  start(session: Session): void {
+    localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+    this.storeTokens(session);
+  }
+
+  /**
+   * End the session in this tab and every other open tab
+   */
+  end(reason: SessionEndReason = 'logout'): void {
+    this.clear();
+    this.broadcast({ type: 'ended', reason });
+    this.emit('ended', reason);
+  }
+
+  getAccessToken(): string | null {
+    return localStorage.getItem(TOKEN_KEY);
+  }
+
+  getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  getStoredUser(): unknown {
+    const user = localStorage.getItem(USER_KEY);
+    if (!user) return null;
+
+    try {
+      return JSON.parse(user);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether the access token is missing or (about to be) expired.
+   * Tokens without an `exp` claim are treated as non-expiring.
+   */
+  isAccessTokenExpired(marginMs = 0): boolean {
+    const token = this.getAccessToken();
+    if (!token) return true;
+
+    const expiresAt = decodeExpiry(token);
+    return expiresAt !== null && expiresAt - marginMs <= Date.now();
+  }
+
+  /**
+   * Whether there is a session that is usable now or can be renewed
+   */
+  hasSession(): boolean {
+    return !!this.getAccessToken() && (!this.isAccessTokenExpired() || !!this.getRefreshToken());
+  }
+
+  /**
+   * Return an access token that is not about to expire, refreshing first
+   * if needed. Returns null when the session cannot be renewed.
+   */
+  async getValidAccessToken(): Promise<string | null> {
+    if (!this.getAccessToken()) return null;
+
+    if (this.isAccessTokenExpired(REFRESH_AHEAD_MS / 2) && !(await this.refresh())) {
+      return null;
+    }
+    return this.getAccessToken();
+  }
+
+  /**
+   * Renew the access token. Concurrent callers in this tab share one
+   * attempt, and a Web Lock keeps two tabs from spending the same
+   * refresh token at once.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      const staleToken = this.getAccessToken();
+      const run = () => this.performRefresh(staleToken);
+
+      this.refreshPromise = (navigator.locks ? navigator.locks.request('smart-supply-session-refresh', run) : run())
+        .catch((error) => {
+          console.error('Session refresh failed:', error);
+          return false;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Event listener management
+   */
+  on(event: SessionEvent, callback: SessionListener): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    this.listeners.get(event)!.push(callback);
+  }
+
+  off(event: SessionEvent, callback: SessionListener): void {
+    const listeners = this.listeners.get(event);
+    if (listeners) {
+      const index = listeners.indexOf(callback);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  private emit(event: SessionEvent, reason?: SessionEndReason): void {
+    this.listeners.get(event)?.forEach((callback) => callback(reason));
+  }
+
+  private async performRefresh(staleToken: string | null): Promise<boolean> {
+    // Another tab may have refreshed while we waited for the lock
+    const current = this.getAccessToken();
+    if (!current) return false;
+    if (current !== staleToken && !this.isAccessTokenExpired(REFRESH_AHEAD_MS / 2)) {
+      return true;
+    }
+
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken || !this.refresher) return false;
+
+    const tokens = await this.refresher(refreshToken);
+    if (!tokens) return false;
+
+    this.storeTokens({ token: tokens.token, refreshToken: tokens.refreshToken ?? refreshToken });
+    return true;
+  }
+
+  private storeTokens(tokens: SessionTokens): void {
+    localStorage.setItem(TOKEN_KEY, tokens.token);
+    if (tokens.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    } else {
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+
+    this.scheduleRefresh();
+    this.broadcast({ type: 'updated' });
+    this.emit('updated');
+  }
+
+  private clear(): void {
+    this.cancelRefresh();
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+  }
+
+  private scheduleRefresh(): void {
+    this.cancelRefresh();
+
+    const token = this.getAccessToken();
+    if (!token || !this.getRefreshToken() || !this.refresher) return;
+
+    const expiresAt = decodeExpiry(token);
+    if (expiresAt === null) return;
+
+    const delay = Math.max(expiresAt - REFRESH_AHEAD_MS - Date.now(), 0);
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = null;
+      if (!(await this.refresh()) && this.isAccessTokenExpired()) {
+        this.end('expired');
+      }
+    }, delay);
+  }
+
+  private cancelRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private broadcast(message: ChannelMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private handleRemote(message: ChannelMessage): void {
+    if (message.type === 'updated') {
+      // Tokens are already in shared storage; just re-arm our timer
+      this.scheduleRefresh();
+      this.emit('updated');
+    } else if (message.type === 'ended') {
+      this.cancelRefresh();
+      this.emit('ended', message.reason);
+    }
+  }
+}
+
+export const sessionManager = new SessionManager();